@@ -1,9 +1,10 @@
 export * from './src/core/di';
-export { bundle } from './src/core/util'
+export { bundle, bundleGraph, BundleGraph, BundleGraphNode, BundleGraphEdge } from './src/core/util'
 export {
   Directive,
   Component,
   Attr,
+  Attribute,
   Input,
   Output,
   HostBinding,
@@ -11,10 +12,12 @@ export {
   ViewChild,
   ViewChildren,
   ContentChild,
-  ContentChildren
+  ContentChildren,
+  ViewEncapsulation
 } from './src/core/directives';
 export { Pipe, PipeTransform } from './src/core/pipes';
 export * from './src/core/linker';
+export * from './src/core/render';
 export * from './src/core/change_detection';
 export { enableProdMode } from './src/facade/lang';
 export { EventEmitter } from './src/facade/facade';
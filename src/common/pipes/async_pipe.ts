@@ -3,6 +3,8 @@ import { Observable } from 'rxjs/Observable';
 
 import { Pipe } from '../../core/pipes/decorators';
 import { PipeTransform } from '../../core/pipes/pipe_interfaces';
+import { ChangeDetectorRef, _getChangeDetectorMode } from '../../core/change_detection/change_detector_ref';
+import { isDefaultChangeDetectionStrategy } from '../../core/change_detection/constants';
 
 import { isObservable, isScope, isSubscription, isPromiseOrObservable } from '../../facade/lang';
 
@@ -13,7 +15,9 @@ type StoredSubscription = ng.IPromise<any>|ng.IHttpPromise<any>|Subscription;
  * @link https://github.com/cvuorinen/angular1-async-filter
  *
  * The `async` pipe subscribes to an `Observable` or `Promise` and returns the latest value it has emitted.
- * When a new value is emitted, the `async` pipe marks the component to be checked for changes. ( runs $scope.$digest() )
+ * When a new value is emitted, the `async` pipe marks the component to be checked for changes.
+ * ( runs local `scope.$digest()` for Default host, calls `ChangeDetectorRef#markForCheck` of the scope for OnPush host,
+ * so it's checked within next digest )
  * When the component gets destroyed, the `async` pipe unsubscribes automatically to avoid potential memory leaks.
  *
  * ## Usage
@@ -61,13 +65,20 @@ export class AsyncPipe implements PipeTransform {
   }
 
   private static _markForCheck( scope: ng.IScope ) {
-    if ( isScope( scope ) ) {
+    if ( !isScope( scope ) ) {
+      return;
+    }
+
+    if ( isDefaultChangeDetectionStrategy( _getChangeDetectorMode( scope ) ) ) {
       // #perfmatters
       // wait till event loop is free and run just local digest so we don't get in conflict with other local $digest
       setTimeout( ()=>scope.$digest() );
-      // we can't run local scope.$digest, because if we have multiple async pipes on the same scope 'infdig' error would occur :(
-      // scope.$applyAsync(); // Automatic safe apply, if scope provided
+      return;
     }
+
+    // OnPush host is detached from the digest, so it and its OnPush ancestors are marked for check
+    // and digest is scheduled via $applyAsync, so multiple async pipes on the same scope are checked within one digest
+    ChangeDetectorRef.create( scope ).markForCheck();
   }
 
   private static _dispose( inputId: number ): void {
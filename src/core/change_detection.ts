@@ -1,4 +1,6 @@
 export { SimpleChange, SimpleChanges } from './change_detection/change_detection_util';
-export { ChangeDetectionStrategy } from './change_detection/constants';
+export { ChangeDetectionStrategy, ChangeDetectorState } from './change_detection/constants';
 export { ChangeDetectorRef } from './change_detection/change_detector_ref';
 
+export { enableCheckNoChanges } from './change_detection/check_no_changes';
+export { ExpressionChangedAfterItHasBeenCheckedException } from './change_detection/exceptions';
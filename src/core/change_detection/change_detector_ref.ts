@@ -1,4 +1,7 @@
 import { Injectable } from '../di/decorators';
+import { isPresent, isBlank } from '../../facade/lang';
+import { _checkNoChanges } from './check_no_changes';
+import { ChangeDetectionStrategy, ChangeDetectorState, isDefaultChangeDetectionStrategy } from './constants';
 
 @Injectable( 'changeDetectorRef' )
 export class ChangeDetectorRef {
@@ -9,6 +12,19 @@ export class ChangeDetectorRef {
 
   constructor( private $scope: ng.IScope ) {}
 
+  /**
+   * Current state of the change detector of component which owns the scope:
+   * - `NeverChecked` until component view is checked within first digest
+   * - `CheckedBefore` after that
+   * - `Errored` if component lifecycle hook has thrown, its view is detached and it will no longer detect changes
+   */
+  get state(): ChangeDetectorState {
+    const status = _getStatus( this.$scope );
+    return isPresent( status )
+      ? status.state
+      : ChangeDetectorState.NeverChecked;
+  }
+
   /**
    * Marks all {@link ChangeDetectionStrategy#OnPush} ancestors as to be checked.
    *
@@ -48,7 +64,10 @@ export class ChangeDetectorRef {
    * bootstrap(App);
    * ```
    */
-  markForCheck(): void { this.$scope.$applyAsync() }
+  markForCheck(): void {
+    _markForCheck( this.$scope );
+    this.$scope.$applyAsync();
+  }
 
   /**
    * Detaches the change detector from the change detector tree.
@@ -138,8 +157,12 @@ export class ChangeDetectorRef {
    *
    * This is used in development mode to verify that running change detection doesn't introduce
    * other changes.
+   *
+   * Every watcher within component scope and its descendants is evaluated once more ( watch listeners are not called )
+   * and {@link ExpressionChangedAfterItHasBeenCheckedException} is thrown if its value differs from the one
+   * checked within last digest. Call it after digest, not during it.
    */
-  checkNoChanges(): void {}
+  checkNoChanges(): void { _checkNoChanges( this.$scope ) }
 
   /**
    * Reattach the change detector to the change detector tree.
@@ -247,3 +270,236 @@ function reconnectScope( scope: ng.IScope ) {
   }
 
 }
+
+/**
+ * own property of component scope which holds its change detector status
+ */
+const CHANGE_DETECTOR_KEY = '$$ngmChangeDetector';
+/**
+ * own property of scope which marks that its $apply/$applyAsync are hooked to mark OnPush ancestors for check
+ */
+const SCOPE_HOOKED_KEY = '$$ngmOnPushHooked';
+
+interface ChangeDetectorStatus {
+  strategy: ChangeDetectionStrategy,
+  // current mode of the change detector: `CheckAlways`, `CheckOnce`, `Checked` or `Detached`
+  mode: ChangeDetectionStrategy,
+  state: ChangeDetectorState,
+  checkScheduled: boolean
+}
+
+/**
+ * Sets up change detection of component scope by `changeDetection` strategy:
+ * - `Default`/`CheckAlways`: scope is checked within every digest, mode is `CheckAlways`
+ * - `OnPush`/`CheckOnce`: mode is `CheckOnce`, so scope with its subtree is rendered within the first digest,
+ * then the mode becomes `Checked` and the scope is detached from the digest
+ * - `Checked`: scope is detached from the digest right away, so it's not rendered until it's marked for check
+ *
+ * Marking for check switches mode from `Checked` to `CheckOnce`, so the scope is checked again just once. It's done by:
+ *    - @Input reference change
+ *    - event within its subtree ( `scope.$apply` / `scope.$applyAsync` called from any descendant scope,
+ *    which is what ng-click & co. and @HostListener do ), see {@link _setupScopeTriggers}
+ *    - {@link ChangeDetectorRef#markForCheck}, which is also what async pipe calls when new value arrives
+ * - `Detached`: scope is detached after it's rendered and it's checked only via {@link ChangeDetectorRef#detectChanges}
+ * @param scope component isolate scope
+ * @param strategy
+ * @private
+ * @internal
+ */
+export function _setupChangeDetection( scope: ng.IScope, strategy: ChangeDetectionStrategy ): void {
+
+  const status: ChangeDetectorStatus = {
+    strategy,
+    mode: _getInitialMode( strategy ),
+    state: ChangeDetectorState.NeverChecked,
+    checkScheduled: false
+  };
+  scope[ CHANGE_DETECTOR_KEY ] = status;
+
+  if ( isDefaultChangeDetectionStrategy( strategy ) ) {
+    // events within Default component view have something to mark only if it's nested within OnPush component
+    if ( _hasMarkableAncestor( scope ) ) {
+      _setupScopeTriggers( scope );
+    }
+    scope.$$postDigest( () => _markAsChecked( status ) );
+    return;
+  }
+
+  // component isolate scope doesn't inherit from $rootScope, so scopes within its template need own hooks
+  _setupScopeTriggers( scope );
+
+  _reconnectOnParentDestroy( scope );
+
+  // component view is skipped until it's marked for check
+  if ( status.mode === ChangeDetectionStrategy.Checked ) {
+    disconnectScope( scope );
+    return;
+  }
+
+  // component view needs to be checked at least once to be rendered
+  _scheduleCheck( scope );
+
+}
+
+/**
+ * current mode of component change detector which owns the scope
+ * @param scope
+ * @returns {ChangeDetectionStrategy}
+ * @private
+ * @internal
+ */
+export function _getChangeDetectorMode( scope: ng.IScope ): ChangeDetectionStrategy {
+  const status = _getStatus( scope );
+  return isPresent( status )
+    ? status.mode
+    : ChangeDetectionStrategy.CheckAlways;
+}
+
+/**
+ * marks the scope and all its OnPush ancestors to be checked within current or next digest
+ * @param scope
+ * @private
+ * @internal
+ */
+export function _markForCheck( scope: ng.IScope ): void {
+
+  let current = scope;
+  while ( current ) {
+    if ( _isMarkableForCheck( current ) ) {
+      _scheduleCheck( current );
+    }
+    current = current.$parent;
+  }
+
+}
+
+/**
+ * sets component change detector to `Errored` state, so its view is detached and it will no longer detect changes
+ * @param scope
+ * @private
+ * @internal
+ */
+export function _markAsErrored( scope: ng.IScope ): void {
+
+  const status = _getStatus( scope );
+
+  if ( isBlank( status ) || status.state === ChangeDetectorState.Errored ) {
+    return;
+  }
+
+  status.state = ChangeDetectorState.Errored;
+
+  if ( isDefaultChangeDetectionStrategy( status.strategy ) ) {
+    _reconnectOnParentDestroy( scope );
+  }
+  disconnectScope( scope );
+
+}
+
+/**
+ * change detector status of component which owns the scope,
+ * child scopes within component template inherit it from component isolate scope
+ */
+function _getStatus( scope: ng.IScope ): ChangeDetectorStatus {
+  return scope[ CHANGE_DETECTOR_KEY ];
+}
+
+function _isMarkableForCheck( scope: ng.IScope ): boolean {
+
+  if ( !scope.hasOwnProperty( CHANGE_DETECTOR_KEY ) || scope.$$destroyed ) {
+    return false;
+  }
+
+  const { strategy, state } = _getStatus( scope );
+
+  return state !== ChangeDetectorState.Errored
+    && !isDefaultChangeDetectionStrategy( strategy )
+    && strategy !== ChangeDetectionStrategy.Detached;
+
+}
+
+function _hasMarkableAncestor( scope: ng.IScope ): boolean {
+
+  let current = scope.$parent;
+  while ( current ) {
+    if ( _isMarkableForCheck( current ) ) {
+      return true;
+    }
+    current = current.$parent;
+  }
+  return false;
+
+}
+
+// disconnected scope is not reached by $destroy broadcast of its parent, so we reconnect it to be destroyed with it
+function _reconnectOnParentDestroy( scope: ng.IScope ): void {
+  const removeParentDestroyListener = scope.$parent.$on( '$destroy', () => reconnectScope( scope ) );
+  scope.$on( '$destroy', removeParentDestroyListener );
+}
+
+function _getInitialMode( strategy: ChangeDetectionStrategy ): ChangeDetectionStrategy {
+  if ( isDefaultChangeDetectionStrategy( strategy ) ) {
+    return ChangeDetectionStrategy.CheckAlways;
+  }
+  return strategy === ChangeDetectionStrategy.OnPush
+    ? ChangeDetectionStrategy.CheckOnce
+    : strategy;
+}
+
+function _markAsChecked( status: ChangeDetectorStatus ): void {
+  if ( status.state === ChangeDetectorState.NeverChecked ) {
+    status.state = ChangeDetectorState.CheckedBefore;
+  }
+  if ( status.mode === ChangeDetectionStrategy.CheckOnce ) {
+    status.mode = ChangeDetectionStrategy.Checked;
+  }
+}
+
+// Reconnects scope to the digest and disconnects it again after the digest is done.
+function _scheduleCheck( scope: ng.IScope ): void {
+
+  const status = _getStatus( scope );
+
+  if ( status.checkScheduled ) return;
+
+  if ( status.mode === ChangeDetectionStrategy.Checked ) {
+    status.mode = ChangeDetectionStrategy.CheckOnce;
+  }
+  status.checkScheduled = true;
+  reconnectScope( scope );
+
+  scope.$$postDigest( () => {
+    status.checkScheduled = false;
+    _markAsChecked( status );
+    disconnectScope( scope );
+  } );
+
+}
+
+/**
+ * Hooks `$apply`/`$applyAsync` of the scope instance, so events from the scope or any scope which prototypically
+ * inherits from it mark OnPush ancestors for check. It's registered as run block for `$rootScope` only if the bundle
+ * contains a component with non Default change detection, so transcluded content scopes are covered too,
+ * and it's called for every non Default component isolate scope and Default one nested within OnPush component.
+ * Hooking the same scope again is no-op.
+ * @param scope
+ * @private
+ * @internal
+ */
+export function _setupScopeTriggers( scope: ng.IScope ): void {
+
+  if ( scope.hasOwnProperty( SCOPE_HOOKED_KEY ) ) return;
+
+  const { $apply, $applyAsync } = scope;
+
+  scope[ SCOPE_HOOKED_KEY ] = true;
+  scope.$apply = function $apply_OnPush( ...args: any[] ) {
+    _markForCheck( this );
+    return $apply.apply( this, args );
+  };
+  scope.$applyAsync = function $applyAsync_OnPush( ...args: any[] ) {
+    _markForCheck( this );
+    return $applyAsync.apply( this, args );
+  };
+
+}
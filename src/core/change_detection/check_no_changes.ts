@@ -0,0 +1,166 @@
+import { global, assertionsEnabled, isString, isFunction, isNumber, isPresent, getFuncName, stringify } from '../../facade/lang';
+import { ExpressionChangedAfterItHasBeenCheckedException } from './exceptions';
+
+let _checkNoChangesEnabled: boolean = false;
+
+/**
+ * own property of $rootScope which marks that its $digest is already patched, so the run block registered by
+ * multiple `bundle` calls verifies every digest just once
+ */
+const CHECK_NO_CHANGES_KEY = '$$ngmCheckNoChanges';
+
+/**
+ * Enables verification digest after every root `$digest` in development mode.
+ *
+ * Every watcher is evaluated once more and if its value has changed since the digest ( e.g. bound state was mutated
+ * from `$$postDigest` callback or lifecycle hook called after the digest ), {@link ExpressionChangedAfterItHasBeenCheckedException}
+ * is thrown.
+ *
+ * It's turned off by {@link enableProdMode}.
+ */
+export function enableCheckNoChanges(): void {
+  _checkNoChangesEnabled = true;
+}
+
+export function checkNoChangesEnabled(): boolean {
+  return _checkNoChangesEnabled && assertionsEnabled();
+}
+
+/**
+ * run block which patches `$rootScope.$digest` to verify that no watched value was changed after each root digest
+ * @private
+ * @internal
+ */
+export function _setupCheckNoChanges( $rootScope: ng.IRootScopeService ): void {
+
+  if ( !checkNoChangesEnabled() || $rootScope.hasOwnProperty( CHECK_NO_CHANGES_KEY ) ) {
+    return;
+  }
+
+  const $digest = $rootScope.$digest;
+
+  $rootScope[ CHECK_NO_CHANGES_KEY ] = true;
+  $rootScope.$digest = function $digest_checkNoChanges() {
+    $digest.call( this );
+    _checkNoChanges( this );
+  };
+
+}
+
+/**
+ * evaluates every watcher on the scope and its descendants without calling watch listeners and throws if any value
+ * has changed since last digest, watchers which can't be evaluated without side effects are skipped
+ * @param scope
+ * @private
+ * @internal
+ */
+export function _checkNoChanges( scope: ng.IScope ): void {
+
+  _forEachScope( scope, ( current ) => {
+
+    const watchers = current.$$watchers || [];
+
+    for ( let i = 0; i < watchers.length; i++ ) {
+
+      const watch: any = watchers[ i ];
+
+      if ( !watch || _isNotCheckedYet( watch ) || _isInterceptorBacked( watch ) ) {
+        continue;
+      }
+
+      const value = _evaluate( current, watch );
+
+      if ( _hasChanged( value, watch.last, watch.eq ) ) {
+        throw new ExpressionChangedAfterItHasBeenCheckedException(
+          _getScopeOwnerName( current ),
+          _getWatchExpression( watch.exp ),
+          watch.last,
+          value
+        );
+      }
+
+    }
+
+  } );
+
+}
+
+// depth-first traversal same as $digest does
+function _forEachScope( target: ng.IScope, cb: ( scope: ng.IScope ) => void ): void {
+
+  let current = target;
+  let next: ng.IScope;
+
+  do {
+
+    cb( current );
+
+    if ( !(next = current.$$childHead || (current !== target && current.$$nextSibling)) ) {
+      while ( current !== target && !(next = current.$$nextSibling) ) {
+        current = current.$parent;
+      }
+    }
+
+  } while ( (current = next) );
+
+}
+
+function _hasChanged( value: any, last: any, eq: boolean ): boolean {
+
+  if ( value === last ) {
+    return false;
+  }
+
+  return eq
+    ? !global.angular.equals( value, last )
+    : !(_isNaN( value ) && _isNaN( last ));
+
+}
+
+function _isNaN( value: any ): boolean {
+  return isNumber( value ) && isNaN( value );
+}
+
+// watcher which was registered after last digest loop holds angular `initWatchVal` sentinel function as its last value,
+// function name can't be used to detect it because of minification, so watched function values are skipped as well
+function _isNotCheckedYet( watch: any ): boolean {
+  return isFunction( watch.last );
+}
+
+// watcher registered with function is evaluated by that function itself, which may be stateful
+// ( e.g. `$watchCollection` interceptor ), so we can't evaluate it again outside of the digest
+function _isInterceptorBacked( watch: any ): boolean {
+  return isFunction( watch.exp ) && watch.exp === watch.get;
+}
+
+// watch getter may keep state of delegated watchers ( inputs, one-time bindings ), so we evaluate the expression
+// itself: expression text via `$parse` without interceptors, parsed expression function directly
+function _evaluate( scope: ng.IScope, watch: any ): any {
+  return isString( watch.exp )
+    ? scope.$eval( watch.exp )
+    : watch.exp( scope );
+}
+
+// components are linked to their isolate scope as `$ctrl`, so template scopes inherit it
+function _getScopeOwnerName( scope: ng.IScope ): string {
+
+  const ctrl = scope[ '$ctrl' ];
+
+  return isPresent( ctrl )
+    ? getFuncName( ctrl.constructor )
+    : `Scope(${ scope.$id })`;
+
+}
+
+// $interpolate functions keep original text on `exp` property
+function _getWatchExpression( exp: any ): string {
+
+  if ( isString( exp ) ) {
+    return exp;
+  }
+
+  return isPresent( exp ) && isString( exp.exp )
+    ? exp.exp
+    : stringify( exp );
+
+}
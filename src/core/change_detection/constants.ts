@@ -28,53 +28,63 @@ export const enum ChangeDetectorState {
 /**
  * Describes within the change detector which strategy will be used the next time change
  * detection is triggered.
+ *
+ * Values are explicit, so `OnPush` and `Default` keep values they had before other strategies were added.
  */
 export const enum ChangeDetectionStrategy {
+  /**
+   * `OnPush` means that the change detector's mode will be set to `CheckOnce` during hydration.
+   */
+  OnPush = 0,
+
+  /**
+   * `Default` means that the change detector's mode will be set to `CheckAlways` during hydration.
+   */
+  Default = 1,
+
   /**
    * `CheckedOnce` means that after calling detectChanges the mode of the change detector
    * will become `Checked`.
+   *
+   * Component view is checked once after each input change ( or when marked for check ) and then it's skipped again.
    */
-  // CheckOnce,
+  CheckOnce = 2,
 
   /**
    * `Checked` means that the change detector should be skipped until its mode changes to
    * `CheckOnce`.
+   *
+   * Used as component strategy the view is not rendered until it's marked for check for the first time.
    */
-  // Checked,
+  Checked = 3,
 
   /**
    * `CheckAlways` means that after calling detectChanges the mode of the change detector
    * will remain `CheckAlways`.
+   *
+   * Same as `Default`.
    */
-  // CheckAlways,
+  CheckAlways = 4,
 
   /**
    * `Detached` means that the change detector sub tree is not a part of the main tree and
    * should be skipped.
+   *
+   * Component view is rendered within the first digest and then it's updated only via `ChangeDetectorRef.detectChanges()`.
    */
-  // Detached,
-
-  /**
-   * `OnPush` means that the change detector's mode will be set to `CheckOnce` during hydration.
-   */
-  OnPush,
-
-  /**
-   * `Default` means that the change detector's mode will be set to `CheckAlways` during hydration.
-   */
-  Default,
+  Detached = 5
 }
 
 /**
  * List of possible {@link ChangeDetectionStrategy} values.
  */
 export var CHANGE_DETECTION_STRATEGY_VALUES = [
-  // ChangeDetectionStrategy.CheckOnce,
-  // ChangeDetectionStrategy.Checked,
-  // ChangeDetectionStrategy.CheckAlways,
-  // ChangeDetectionStrategy.Detached,
   ChangeDetectionStrategy.OnPush,
-  ChangeDetectionStrategy.Default
+  ChangeDetectionStrategy.Default,
+  ChangeDetectionStrategy.CheckOnce,
+  ChangeDetectionStrategy.Checked,
+  ChangeDetectionStrategy.CheckAlways,
+  ChangeDetectionStrategy.Detached
 ];
 
 /**
@@ -87,5 +97,7 @@ export var CHANGE_DETECTOR_STATE_VALUES = [
 ];
 
 export function isDefaultChangeDetectionStrategy( changeDetectionStrategy: ChangeDetectionStrategy ): boolean {
-  return isBlank( changeDetectionStrategy ) || changeDetectionStrategy === ChangeDetectionStrategy.Default;
+  return isBlank( changeDetectionStrategy )
+    || changeDetectionStrategy === ChangeDetectionStrategy.Default
+    || changeDetectionStrategy === ChangeDetectionStrategy.CheckAlways;
 }
@@ -0,0 +1,44 @@
+import { BaseException } from '../../facade/exceptions';
+import { stringify } from '../../facade/lang';
+
+/**
+ * An error thrown if application changes model breaking the top-down data flow.
+ *
+ * This exception is only thrown in dev mode, when {@link ChangeDetectorRef#checkNoChanges} is called
+ * or after every root digest if check was enabled via {@link enableCheckNoChanges}.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Component({
+ *   selector: 'parent',
+ *   template: `<child [prop]="$ctrl.parentProp"></child>`,
+ *   directives: [forwardRef(() => Child)]
+ * })
+ * class Parent {
+ *   parentProp = "init";
+ * }
+ *
+ * @Directive({selector: 'child', inputs: ['prop']})
+ * class Child {
+ *   constructor(public parent: Parent) {}
+ *
+ *   set prop(v) {
+ *     // this updates the parent property, which is disallowed during change detection
+ *     // this will result in ExpressionChangedAfterItHasBeenCheckedException
+ *     this.parent.parentProp = "updated";
+ *   }
+ * }
+ * ```
+ */
+export class ExpressionChangedAfterItHasBeenCheckedException extends BaseException {
+
+  constructor( ownerName: string, exp: string, oldValue: any, currValue: any ) {
+    super( `
+      ${ ownerName }:
+      ===========================
+      Expression '${ exp }' has changed after it was checked. Previous value: '${ stringify( oldValue ) }'. Current value: '${ stringify( currValue ) }'
+    ` );
+  }
+
+}
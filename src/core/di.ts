@@ -1,5 +1,8 @@
 export * from './di/decorators';
 export * from './di/metadata';
-export { OpaqueToken } from './di/opaque_token';
+export { OpaqueToken, InjectionToken } from './di/opaque_token';
 export { forwardRef, ForwardRefFn } from './di/forward_ref';
+export { setKeyStrategy, KeyStrategy } from './di/key';
 export { provide, getInjectableName, ProviderType } from './di/provider';
+export { ReflectiveInjector } from './di/reflective_injector';
+export { enableProviderCollisionWarnings } from './di/reflective_provider';
@@ -2,6 +2,7 @@ import {
   InjectMetadata,
   OptionalMetadata,
   InjectableMetadata,
+  InjectableProviderMetadata,
   SelfMetadata,
   HostMetadata,
   SkipSelfMetadata
@@ -32,6 +33,14 @@ export interface InjectableMetadataFactory {
   new (_id?:string): InjectableMetadata;
 }
 
+/**
+ * Factory for creating {@link InjectableProviderMetadata}.
+ */
+export interface InjectableProviderMetadataFactory {
+  (_id?:string): any;
+  new (_id?:string): InjectableProviderMetadata;
+}
+
 /**
  * Factory for creating {@link SelfMetadata}.
  */
@@ -71,6 +80,13 @@ export const Optional: OptionalMetadataFactory = makeParamDecorator(OptionalMeta
  */
 export const Injectable: InjectableMetadataFactory = makeDecorator(InjectableMetadata) as InjectableMetadataFactory;
 
+/**
+ * Factory for creating {@link InjectableProviderMetadata}.
+ */
+export const InjectableProvider: InjectableProviderMetadataFactory = makeDecorator(
+  InjectableProviderMetadata
+) as InjectableProviderMetadataFactory;
+
 /**
  * Factory for creating {@link SelfMetadata}.
  */
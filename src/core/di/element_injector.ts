@@ -0,0 +1,192 @@
+import { isPresent, isBlank, isFunction } from '../../facade/lang';
+import { StringMapWrapper } from '../../facade/collections';
+import { ScopedProvider } from './reflective_provider';
+import { _isOptionalToken } from './provider';
+
+/**
+ * jqLite data key under which is the element injector stored on host element
+ * @internal
+ */
+export const ELEMENT_INJECTOR_KEY = '$ngmElementInjector';
+
+const _NOT_FOUND = {};
+
+/**
+ * Component scoped injector which emulates Angular 2 hierarchical injectors on top of angular 1 $injector.
+ *
+ * - every component/directive instance which has `providers` or `viewProviders` gets its own element injector,
+ * so every instance gets fresh instances of those services
+ * - `providers` are visible to the component, its view children and its content children
+ * - `viewProviders` are visible only to the component and its view children
+ * - if token is not found within element injector tree, it is resolved from root angular 1 $injector
+ *
+ * @internal
+ */
+export class ElementInjector {
+
+  /**
+   * creates element injector if directive has any scoped providers, otherwise returns parent element injector
+   * @param parent
+   * @param $injector
+   * @param hostScope isolate scope of component, blank for attribute directives
+   * @param contextScope scope within which is the host element linked
+   * @param providers
+   * @param viewProviders
+   * @returns {ElementInjector}
+   */
+  static create(
+    parent: ElementInjector,
+    $injector: ng.auto.IInjectorService,
+    hostScope: ng.IScope,
+    contextScope: ng.IScope,
+    providers: {[name: string]: ScopedProvider} = {},
+    viewProviders: {[name: string]: ScopedProvider} = {}
+  ): ElementInjector {
+
+    if ( !StringMapWrapper.size( providers ) && !StringMapWrapper.size( viewProviders ) ) {
+      return parent;
+    }
+
+    return new ElementInjector( parent, $injector, hostScope, contextScope, providers, viewProviders );
+
+  }
+
+  private _instances: {[name: string]: any} = {};
+  private _constructing: string[] = [];
+
+  constructor(
+    private _parent: ElementInjector,
+    private _$injector: ng.auto.IInjectorService,
+    private _hostScope: ng.IScope,
+    private _contextScope: ng.IScope,
+    private _providers: {[name: string]: ScopedProvider},
+    private _viewProviders: {[name: string]: ScopedProvider}
+  ) {}
+
+  get parent(): ElementInjector { return this._parent }
+
+  /**
+   * returns $injector.invoke locals for all `injectables` which are provided by this or ancestor element injectors
+   * @param injectables angular 1 $inject array
+   * @param contextScope scope within which the requesting directive lives, it decides if viewProviders are visible
+   * @param isHost true if requesting directive is the one which owns this injector
+   * @returns {{}}
+   */
+  getLocals( injectables: string[] = [], contextScope: ng.IScope, isHost = false ): {[name: string]: any} {
+
+    return injectables.reduce( ( acc, injectable ) => {
+
+      const instance = this._resolve( injectable, contextScope, isHost );
+      if ( instance !== _NOT_FOUND ) {
+        acc[ injectable ] = instance;
+      }
+      return acc;
+
+    }, {} as {[name: string]: any} );
+
+  }
+
+  /**
+   * calls ngOnDestroy on all scoped service instances created by this injector
+   */
+  destroy(): void {
+
+    StringMapWrapper.forEach( this._instances, ( instance: any ) => {
+      if ( isPresent( instance ) && isFunction( instance.ngOnDestroy ) ) {
+        instance.ngOnDestroy();
+      }
+    } );
+    this._instances = {};
+
+  }
+
+  private _resolve( injectable: string, contextScope: ng.IScope, isHost: boolean ): any {
+
+    const token = _isOptionalToken( injectable )
+      ? injectable.substring( 1 )
+      : injectable;
+
+    const isViewVisible = isHost || this._isViewChild( contextScope );
+
+    if ( isViewVisible && this._viewProviders.hasOwnProperty( token ) ) {
+      return this._getInstance( token, this._viewProviders[ token ], true );
+    }
+    if ( this._providers.hasOwnProperty( token ) ) {
+      return this._getInstance( token, this._providers[ token ], false );
+    }
+
+    return isPresent( this._parent )
+      ? this._parent._resolve( injectable, contextScope, false )
+      : _NOT_FOUND;
+
+  }
+
+  private _getInstance( token: string, provider: ScopedProvider, isViewProvider: boolean ): any {
+
+    if ( this._instances.hasOwnProperty( token ) ) {
+      return this._instances[ token ];
+    }
+
+    if ( this._constructing.indexOf( token ) !== -1 ) {
+      throw new Error( `
+        Element injector:
+        =======================================================
+        cyclic dependency between scoped providers: ${ [ ...this._constructing, token ].join( ' -> ' ) }
+      ` );
+    }
+
+    this._constructing.push( token );
+    try {
+      this._instances[ token ] = this._instantiate( provider, isViewProvider );
+    } finally {
+      this._constructing.pop();
+    }
+
+    return this._instances[ token ];
+
+  }
+
+  private _instantiate( { method, value }: ScopedProvider, isViewProvider: boolean ): any {
+
+    if ( method === 'value' ) {
+      return value;
+    }
+
+    // dependencies of scoped providers are resolved from the host element level,
+    // so only viewProviders can see other viewProviders of the same component
+    const locals = this.getLocals( value.$inject, this._contextScope, isViewProvider );
+
+    if ( method === 'service' ) {
+      return this._$injector.instantiate( value, locals );
+    }
+
+    return this._$injector.invoke( value, null, locals );
+
+  }
+
+  /**
+   * view children are linked within scopes which prototypically inherit from the host component isolate scope,
+   * transcluded content children scopes inherit from the outer scope instead
+   * @param contextScope
+   * @returns {boolean}
+   * @private
+   */
+  private _isViewChild( contextScope: ng.IScope ): boolean {
+
+    if ( isBlank( this._hostScope ) ) {
+      return false;
+    }
+
+    let scope = contextScope;
+    while ( isPresent( scope ) ) {
+      if ( scope === this._hostScope ) {
+        return true;
+      }
+      scope = Object.getPrototypeOf( scope );
+    }
+
+    return false;
+
+  }
+
+}
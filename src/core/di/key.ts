@@ -8,6 +8,7 @@ import {OpaqueToken} from './opaque_token';
 import {ListWrapper} from '../../facade/collections';
 import {isType} from '../../facade/lang';
 import {getTypeName} from '../../facade/lang';
+import {assertionsEnabled, isFunction, isPresent, getFuncName} from '../../facade/lang';
 
 /**
  * @TODO
@@ -54,15 +55,46 @@ import {getTypeName} from '../../facade/lang';
 //  static get numberOfKeys(): number { return _globalKeyRegistry.numberOfKeys; }
 //}
 
+/**
+ * Strategy of generating ids for decorated classes without explicit id ( `@Injectable()` )
+ * - mode `counter` ( default ): `className#n`, where `n` depends on decoration order
+ * - mode `stable`: id returned by `hash` function, so ids don't change between builds/lazy loaded chunks.
+ * `hash` can return for example module path + export name of the class. Class name is not used, because minifiers
+ * change it. It throws if there is no `hash` or it doesn't return id for the class, so use explicit `@Injectable('myId')`
+ * for such classes. In dev mode it throws if two different classes would map to the same id
+ */
+export type KeyStrategy = {
+  mode: string,
+  hash?: ( token: Type ) => string
+};
+
 /**
  * @internal
  */
 export class KeyRegistry {
 
+  static COUNTER = 'counter';
+  static STABLE = 'stable';
+
   private static _suffix = `#`;
 
   private _allKeys: string[] = ListWrapper.create();
   private _idCounter: number = 0;
+  private _strategy: KeyStrategy = { mode: KeyRegistry.COUNTER };
+  private _tokensByKey: {[key: string]: Type} = {};
+
+  /**
+   * sets strategy for keys created from now on
+   * @param strategy
+   */
+  setStrategy( strategy: KeyStrategy ): void {
+    if ( [ KeyRegistry.COUNTER, KeyRegistry.STABLE ].indexOf( strategy.mode ) === -1 ) {
+      throw new Error( `KeyRegistry#setStrategy:
+                        ================
+                        unknown key strategy mode \`${ strategy.mode }\`, use one of: ${ KeyRegistry.COUNTER },${ KeyRegistry.STABLE }` );
+    }
+    this._strategy = strategy;
+  }
 
   //get( token: string | OpaqueToken | Type ): string {
   //  // Return it if it is already a string like `'$http'` or `'$state'`
@@ -97,6 +129,11 @@ export class KeyRegistry {
                         you'v tried to create a key for \`${ token }\`
                         creating and getting key tokens is avaialable only for Type` );
     }
+
+    if ( this._strategy.mode === KeyRegistry.STABLE ) {
+      return this._getStableKey( token );
+    }
+
     const newKey = `${ getTypeName( token ) }${ KeyRegistry._suffix }${ this._uniqueId() }`;
     this._allKeys.push( newKey );
 
@@ -104,6 +141,8 @@ export class KeyRegistry {
 
   }
 
+  get mode(): string { return this._strategy.mode }
+
   get numberOfKeys(): number { return ListWrapper.size( this._allKeys ) }
 
   get allKeys(): Object { return ListWrapper.clone( this._allKeys ) }
@@ -117,6 +156,40 @@ export class KeyRegistry {
   _reset() {
     ListWrapper.clear( this._allKeys );
     this._idCounter = 0;
+    this._strategy = { mode: KeyRegistry.COUNTER };
+    this._tokensByKey = {};
+  }
+
+  private _getStableKey( token: Type ): string {
+
+    const { hash } = this._strategy;
+    const newKey = isFunction( hash ) ? hash( token ) : null;
+
+    if ( !newKey ) {
+      throw new Error( `KeyRegistry#get:
+                        ================
+                        stable key strategy needs explicit id for \`${ getFuncName( token ) }\`,
+                        provide it via @Injectable('myId') or use hash function which returns id for the class` );
+    }
+
+    const registeredToken = this._tokensByKey[ newKey ];
+
+    if ( registeredToken === token ) {
+      return newKey;
+    }
+
+    if ( isPresent( registeredToken ) && assertionsEnabled() ) {
+      throw new Error( `KeyRegistry#get:
+                        ================
+                        classes \`${ getFuncName( registeredToken ) }\` and \`${ getFuncName( token ) }\` map to the same id \`${ newKey }\`,
+                        provide explicit id via @Injectable('myId') or use hash function which distinguishes them` );
+    }
+
+    this._tokensByKey[ newKey ] = token;
+    this._allKeys.push( newKey );
+
+    return newKey;
+
   }
 
   /**
@@ -140,3 +213,23 @@ export class KeyRegistry {
 }
 
 export const globalKeyRegistry = new KeyRegistry();
+
+/**
+ * Sets strategy how are ids generated for `@Injectable()` decorated classes without explicit id.
+ * It has to be called before any decorated class is loaded, so call it in separate module imported as first.
+ *
+ * ```typescript
+ * // key-strategy.ts
+ * import { setKeyStrategy } from 'ng-metadata/core';
+ * // `moduleId` static property provided by your build
+ * setKeyStrategy( { mode: 'stable', hash: ( Type ) => Type.moduleId } );
+ *
+ * // main.ts
+ * import './key-strategy';
+ * import { AppComponent } from './app.component';
+ * ```
+ * @param strategy
+ */
+export function setKeyStrategy( strategy: KeyStrategy ): void {
+  globalKeyRegistry.setStrategy( strategy );
+}
@@ -132,6 +132,39 @@ export class InjectableMetadata {
   set id( newID: string ) { this._id = newID}
 }
 
+/**
+ * Marks a class as Angular 1 configurable provider, which is registered via `$provide.provider`.
+ *
+ * - class instance is the provider available within config phase, so its methods are the config phase API
+ * - class constructor can inject only other providers or constants
+ * - `$get` method creates the service instance, its dependencies are declared via `@Inject()` the same way as
+ * constructor dependencies of other services
+ * - undecorated config classes/functions get the provider injected by `@Inject(GreeterProvider)`
+ *
+ * ```typescript
+ * @InjectableProvider()
+ * class GreeterProvider {
+ *   private greeting = 'Hello';
+ *   setGreeting( greeting: string ) { this.greeting = greeting; }
+ *   $get( @Inject( '$log' ) $log: ng.ILogService ) {
+ *     return { greet: ( name: string ) => $log.info( `${ this.greeting } ${ name }` ) };
+ *   }
+ * }
+ *
+ * class GreeterConfig {
+ *   constructor( @Inject( GreeterProvider ) greeterProvider: GreeterProvider ) {
+ *     greeterProvider.setGreeting( 'Hi' );
+ *   }
+ * }
+ *
+ * @Injectable()
+ * class Welcome {
+ *   constructor( @Inject( GreeterProvider ) greeter ) {}
+ * }
+ * ```
+ */
+export class InjectableProviderMetadata extends InjectableMetadata {}
+
 /**
  * Specifies that an {@link Injector} should retrieve a dependency only from itself.
  *
@@ -25,3 +25,48 @@ export class OpaqueToken {
   get desc(): string { return this._desc }
   toString(): string { return `Token ${this._desc}`; }
 }
+
+/**
+ * Creates a typed token that can be used in a DI Provider.
+ *
+ * Unlike {@link OpaqueToken} every instance gets unique registration name, so two tokens with the same
+ * description never collide, and the token carries type `T` of the injected value.
+ *
+ * Token can optionally provide itself via `factory`, which is used if there is no explicit provider
+ * registered for the token.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * interface AppConfig { apiUrl: string }
+ *
+ * const APP_CONFIG = new InjectionToken<AppConfig>( 'appConfig', { factory: () => ({ apiUrl: '/api' }) } );
+ *
+ * @Injectable()
+ * class Api {
+ *   constructor( @Inject( APP_CONFIG ) private config: AppConfig ) {}
+ * }
+ * ```
+ */
+export class InjectionToken<T> extends OpaqueToken {
+
+  private static _idCounter = 0;
+
+  private _name: string;
+
+  constructor( desc: string, private _options: { factory?: () => T } = {} ) {
+    super( desc );
+    this._name = `${ desc }#${ ++InjectionToken._idCounter }`;
+  }
+
+  /**
+   * unique name under which is the token registered within angular 1 $injector.
+   * It's the description suffixed with `#<id>` of the instance, so it never collides with string token
+   * or {@link OpaqueToken} of the same description
+   */
+  get name(): string { return this._name }
+
+  get factory(): () => T { return this._options.factory }
+
+  toString(): string { return `InjectionToken ${this.desc}`; }
+}
@@ -8,31 +8,33 @@ import {
   stringify,
   getFuncName,
   normalizeBool,
-  isArray
+  isArray,
+  isFunction
 } from '../../facade/lang';
 import { reflector } from '../reflection/reflection';
-import { OpaqueToken } from './opaque_token';
+import { OpaqueToken, InjectionToken } from './opaque_token';
 import {
   OutputMetadata,
   HostBindingMetadata,
   HostListenerMetadata,
   InputMetadata
 } from '../directives/metadata_directives';
-import { InjectMetadata, SkipSelfMetadata, SelfMetadata, HostMetadata } from './metadata';
+import { InjectMetadata, SkipSelfMetadata, SelfMetadata, HostMetadata, OptionalMetadata } from './metadata';
+import { AttributeMetadata } from '../directives/metadata_di';
 import { pipeProvider } from '../pipes/pipe_provider';
 import { directiveProvider } from '../directives/directive_provider';
 import { ListWrapper } from '../../facade/collections';
 import { resolveForwardRef } from './forward_ref';
 import { getErrorMsg } from '../../facade/exceptions';
-import { isPipe, isOpaqueToken, isDirectiveLike, isService } from './provider_util';
+import { isPipe, isOpaqueToken, isDirectiveLike, isService, isInjectionToken, isInjectableProvider } from './provider_util';
 import { isComponent } from './provider_util';
 import { isInjectMetadata } from './provider_util';
 
 
 export type PropMetaInst =  InputMetadata | OutputMetadata | HostBindingMetadata | HostListenerMetadata;
-export type ParamMetaInst = HostMetadata | InjectMetadata | SelfMetadata | SkipSelfMetadata;
-export type ProviderType = Type | string | OpaqueToken;
-export type ProviderAliasOptions = {useClass?: Type,useValue?: any,useFactory?: Function, deps?: Object[]};
+export type ParamMetaInst = HostMetadata | InjectMetadata | SelfMetadata | SkipSelfMetadata | OptionalMetadata;
+export type ProviderType = Type | string | OpaqueToken | InjectionToken<any>;
+export type ProviderAliasOptions = {useClass?: Type,useValue?: any,useFactory?: Function,useExisting?: any, deps?: Object[]};
 
 export class Provider {
   /**
@@ -218,9 +220,19 @@ class ProviderBuilder{
 
   static createFromType(
     type: ProviderType,
-    { useClass, useValue, useFactory, deps }: ProviderAliasOptions
+    { useClass, useValue, useFactory, useExisting, deps }: ProviderAliasOptions
   ): [string,Type] {
 
+    // ...provide('myAlias',{useExisting: MyService })
+    if ( isPresent( useExisting ) ) {
+      const aliasToken = getInjectableName( type );
+      const existingToken = getInjectableName( resolveForwardRef( useExisting ) );
+      return [
+        aliasToken,
+        _createAliasFactory( existingToken )
+      ];
+    }
+
     // ...provide('myFactory',{useFactory: () => () => { return new Foo(); } })
     if ( isPresent( useFactory ) ) {
       const factoryToken = getInjectableName(type);
@@ -242,12 +254,16 @@ class ProviderBuilder{
       ];
     }
 
-    const injectableType = isString( type ) || isOpaqueToken( type )
+    // ...provide('myService',{useClass: MyService })
+    // ...provide(AbstractLogger,{useClass: ConsoleLogger })
+    const isAliasedClass = isString( type ) || isOpaqueToken( type ) || isPresent( useClass );
+
+    const injectableType = isAliasedClass
       ? resolveForwardRef(useClass as Type)
       : resolveForwardRef(type as Type);
 
-    const overrideName = isString( type ) || isOpaqueToken( type )
-      ? getInjectableName(type)
+    const overrideName = isAliasedClass
+      ? getInjectableName(resolveForwardRef(type as Type))
       : '';
 
     if ( !isType( injectableType ) ) {
@@ -270,6 +286,7 @@ class ProviderBuilder{
     // NOTE: we are not checking anymore if user annotated the class or not,
     // we cannot do that anymore at the costs for nic config functions registration
     if ( ListWrapper.isEmpty( annotations ) ) {
+      _annotateConfigDependencies( injectableType );
       return [ injectableType ] as any;
     }
 
@@ -292,6 +309,16 @@ class ProviderBuilder{
 
     }
 
+    // provider constructor is instantiated within config phase, so it can inject only other providers
+    if ( isInjectableProvider( rootAnnotation ) ) {
+      injectableType.$inject = _configDependenciesFor( injectableType );
+      _getProviderGetter( injectableType ).$inject = _providerGetterDependenciesFor( injectableType );
+      return [
+        overrideName || rootAnnotation.id,
+        injectableType
+      ];
+    }
+
     injectableType.$inject = _dependenciesFor( injectableType );
 
     if ( isPipe( rootAnnotation ) ) {
@@ -321,9 +348,86 @@ class ProviderBuilder{
  */
 export function provide(
   type: ProviderType,
-  { useClass, useValue, useFactory, deps }: ProviderAliasOptions = {}
+  { useClass, useValue, useFactory, useExisting, deps }: ProviderAliasOptions = {}
   ): [string,Type] {
-  return ProviderBuilder.createFromType( type, { useClass, useValue, useFactory, deps } );
+  return ProviderBuilder.createFromType( type, { useClass, useValue, useFactory, useExisting, deps } );
+}
+
+/**
+ * creates angular 1 factory which just returns instance of existing token,
+ * so alias and existing token share the very same instance
+ * @param existingToken
+ * @returns {Function}
+ * @private
+ * @internal
+ */
+export function _createAliasFactory( existingToken: string ): Type {
+  const aliasFactory = ( existing ) => existing;
+  aliasFactory.$inject = [ existingToken ];
+  (aliasFactory as any).$$aliasOf = existingToken;
+  return aliasFactory;
+}
+
+/**
+ * creates angular 1 factory which aggregates all `multi: true` contributions registered for one token into an array.
+ * Contribution names are pushed to its `$inject` during registration, so the array keeps registration order
+ * @returns {Function}
+ * @private
+ * @internal
+ */
+export function _createMultiFactory(): Type {
+  const multiFactory = ( ...contributions: any[] ) => contributions;
+  multiFactory.$inject = [];
+  (multiFactory as any).$$multi = true;
+  return multiFactory;
+}
+
+/**
+ * checks if factory was created by `_createMultiFactory`
+ * @param factory
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _isMultiFactory( factory: any ): boolean {
+  return isFunction( factory ) && factory.$$multi === true;
+}
+
+/**
+ * creates angular 1 factory from self providing `InjectionToken` factory, which is used if there is no explicit
+ * provider registered for the token
+ * @param token
+ * @returns {Function}
+ * @private
+ * @internal
+ */
+export function _createTokenDefaultFactory( token: InjectionToken<any> ): Type {
+  const defaultFactory = () => token.factory();
+  defaultFactory.$inject = [];
+  (defaultFactory as any).$$tokenDefault = true;
+  return defaultFactory;
+}
+
+/**
+ * checks if factory was created by `_createTokenDefaultFactory`
+ * @param factory
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _isTokenDefaultFactory( factory: any ): boolean {
+  return isFunction( factory ) && factory.$$tokenDefault === true;
+}
+
+/**
+ * returns the token which is aliased by factory created via `useExisting`, otherwise undefined
+ * @param factory
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _getAliasedToken( factory: any ): string {
+  return isFunction( factory ) ? factory.$$aliasOf : undefined;
 }
 
 /**
@@ -355,6 +459,142 @@ export function _dependenciesFor(typeOrFunc: Type): string[] {
 
 }
 
+/**
+ * suffix which angular 1 appends to name registered via `$provide.provider` for config phase injectable
+ */
+const PROVIDER_NAME_SUFFIX = 'Provider';
+
+/**
+ * creates $inject array for constructors which are invoked within config phase ( undecorated config classes and
+ * `@InjectableProvider` classes ). `@InjectableProvider` class tokens are resolved to its config phase provider name
+ * @param typeOrFunc
+ * @returns {string[]}
+ * @private
+ * @internal
+ */
+export function _configDependenciesFor( typeOrFunc: Type ): string[] {
+
+  const params = reflector.parameters( typeOrFunc );
+
+  if ( isBlank( params ) ) return [];
+
+  if ( params.some( ( param ) => isBlank( param ) || ListWrapper.isEmpty( param ) ) ) {
+
+    throw new Error(
+      getErrorMsg(
+        typeOrFunc,
+        `you cannot have holes in constructor DI injection`
+      )
+    );
+
+  }
+
+  return params
+    .map( ( metadata: ParamMetaInst[] ) => {
+      const [paramMetadata] = metadata.filter( isType );
+      const [injectMetadata] = metadata.filter( isInjectMetadata ) as InjectMetadata[];
+      const token = isPresent( injectMetadata ) ? resolveForwardRef( injectMetadata.token ) : paramMetadata;
+      const injectableName = getInjectableName( token );
+
+      return _isInjectableProviderType( token )
+        ? `${ injectableName }${ PROVIDER_NAME_SUFFIX }`
+        : injectableName;
+    } );
+
+}
+
+/**
+ * creates $inject array for `$get` method of `@InjectableProvider` class from its `@Inject()` parameter metadata
+ * @param providerType
+ * @returns {string[]}
+ * @private
+ * @internal
+ */
+export function _providerGetterDependenciesFor( providerType: Type ): string[] {
+
+  const $get = _getProviderGetter( providerType );
+  const tokens: any[] = $get.$inject || [];
+
+  if ( tokens.length < $get.length || tokens.some( isBlank ) ) {
+    throw new Error(
+      getErrorMsg(
+        providerType,
+        `all $get method parameters have to be annotated via @Inject()`
+      )
+    );
+  }
+
+  return tokens.map( ( token ) => getInjectableName( resolveForwardRef( token ) ) );
+
+}
+
+/**
+ * sets $inject for undecorated config class/function, if all its parameters are annotated via @Inject().
+ * Otherwise it's left to angular 1 ( manual $inject or parameter names )
+ * @param configType
+ * @private
+ */
+function _annotateConfigDependencies( configType: Type ): void {
+
+  const params = reflector.parameters( configType ) || [];
+  const isFullyAnnotated = params.length > 0
+    && params.every( ( param ) => isPresent( param ) && !ListWrapper.isEmpty( param ) );
+
+  if ( isFullyAnnotated ) {
+    configType.$inject = _configDependenciesFor( configType );
+  }
+
+}
+
+function _isInjectableProviderType( token: any ): boolean {
+  if ( !isType( token ) ) {
+    return false;
+  }
+  const [annotation] = reflector.annotations( token );
+  return isPresent( annotation ) && isInjectableProvider( annotation );
+}
+
+function _getProviderGetter( providerType: Type ): Function {
+
+  const $get = providerType.prototype.$get;
+
+  if ( !isFunction( $get ) ) {
+    throw new Error(
+      getErrorMsg(
+        providerType,
+        `@InjectableProvider() class has to implement $get method which creates the service instance`
+      )
+    );
+  }
+
+  return $get;
+
+}
+
+/**
+ * returns all raw DI tokens ( not injectable names ) used within constructor via @Inject() or type annotation
+ * @param typeOrFunc
+ * @returns {any[]}
+ * @private
+ * @internal
+ */
+export function _parameterTokensFor( typeOrFunc: Type ): any[] {
+
+  const params = reflector.parameters( typeOrFunc );
+
+  if ( isBlank( params ) ) return [];
+
+  return params
+    .filter( isArray )
+    .map( ( metadata: ParamMetaInst[] ) => {
+      const [paramMetadata] = metadata.filter( isType );
+      const [injectMetadata] = metadata.filter( isInjectMetadata ) as InjectMetadata[];
+      return isPresent( injectMetadata ) ? resolveForwardRef( injectMetadata.token ) : paramMetadata;
+    } )
+    .filter( isPresent );
+
+}
+
 /**
  * should extract service/values/directives/pipes token from constructor @Inject() paramMetadata
  * @param metadata
@@ -363,6 +603,12 @@ export function _dependenciesFor(typeOrFunc: Type): string[] {
  */
 export function _extractToken( metadata: ParamMetaInst[] ): string {
 
+  // @Attribute() is not resolved via $injector but from directive $attrs
+  const [attributeMetadata] = metadata.filter( param => param instanceof AttributeMetadata ) as AttributeMetadata[];
+  if ( isPresent( attributeMetadata ) ) {
+    return `${ ATTRIBUTE_TOKEN_PREFIX }${ attributeMetadata.attributeName }`;
+  }
+
   // this is token obtained via design:paramtypes via Reflect.metadata
   const [paramMetadata] = metadata.filter( isType );
   // this is token obtained from @Inject() usage  for DI
@@ -374,16 +620,96 @@ export function _extractToken( metadata: ParamMetaInst[] ): string {
 
   const { token=undefined } = injectMetadata || {};
   const injectable = resolveForwardRef( token ) || paramMetadata;
+  const injectableName = getInjectableName( injectable );
 
-  return getInjectableName( injectable );
+  return _isOptionalServiceInjection( metadata )
+    ? `${ OPTIONAL_TOKEN_PREFIX }${ injectableName }`
+    : injectableName;
 
 }
 
+/**
+ * prefix of angular 1 injectable name for dependency injected via `@Optional()`,
+ * it is resolved by factory created via `_createOptionalFactory`
+ */
+const OPTIONAL_TOKEN_PREFIX = '?';
+
+/**
+ * checks if constructor param is service injected via `@Optional()`.
+ * Directive injections via @Optional() are always used together with one of @Host/@Self/@SkipSelf
+ * and are resolved as `require` instead
+ * @param metadata
+ * @returns {boolean}
+ * @private
+ */
+function _isOptionalServiceInjection( metadata: ParamMetaInst[] ): boolean {
+  return metadata.some( param => param instanceof OptionalMetadata )
+    && !metadata.some( param => {
+      return param instanceof HostMetadata || param instanceof SelfMetadata || param instanceof SkipSelfMetadata;
+    } );
+}
+
+/**
+ * checks if injectable name was created for dependency injected via `@Optional()`
+ * @param injectableName
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _isOptionalToken( injectableName: string ): boolean {
+  return isString( injectableName ) && injectableName.charAt( 0 ) === OPTIONAL_TOKEN_PREFIX;
+}
+
+/**
+ * prefix of angular 1 injectable name for host element attribute injected via `@Attribute()`,
+ * it is resolved as local by `directiveControllerFactory`
+ */
+const ATTRIBUTE_TOKEN_PREFIX = '@';
+
+/**
+ * checks if injectable name was created for attribute injected via `@Attribute()`
+ * @param injectableName
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _isAttributeToken( injectableName: string ): boolean {
+  return isString( injectableName ) && injectableName.charAt( 0 ) === ATTRIBUTE_TOKEN_PREFIX;
+}
+
+/**
+ * returns host element attribute name from injectable name created for `@Attribute()`
+ * @param attributeToken
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _getAttributeName( attributeToken: string ): string {
+  return attributeToken.substring( ATTRIBUTE_TOKEN_PREFIX.length );
+}
+
+/**
+ * creates angular 1 factory for dependency injected via `@Optional()`,
+ * which returns `null` if there is no provider registered for the token
+ * @param optionalToken
+ * @returns {Function}
+ * @private
+ * @internal
+ */
+export function _createOptionalFactory( optionalToken: string ): Type {
+  const token = optionalToken.substring( OPTIONAL_TOKEN_PREFIX.length );
+  const optionalFactory = ( $injector: ng.auto.IInjectorService ) => {
+    return $injector.has( token ) ? $injector.get( token ) : null;
+  };
+  optionalFactory.$inject = [ '$injector' ];
+  return optionalFactory;
+}
+
 /**
  *  A utility function that can be used to get the angular 1 injectable's name. Needed for some cases, since
  *  injectable names are auto-created.
  *
- *  Works for string/OpaqueToken/Type
+ *  Works for string/OpaqueToken/InjectionToken/Type
  *  Note: Type must be decorated otherwise it throws
  *
  *  @example
@@ -407,6 +733,12 @@ export function getInjectableName( injectable: ProviderType ): string {
     return injectable;
   }
 
+  // const fooToken = new InjectionToken<Foo>('foo')
+  // @Inject(fooToken) foo
+  if ( isInjectionToken( injectable ) ) {
+    return injectable.name;
+  }
+
   // const fooToken = new OpaqueToken('foo')
   // @Inject(fooToken) foo
   if ( isOpaqueToken(injectable) ) {
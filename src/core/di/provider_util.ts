@@ -3,8 +3,8 @@ import { DirectiveMetadata, ComponentMetadata } from '../directives/metadata_dir
 import { PipeMetadata } from '../pipes/metadata';
 
 import { Provider } from './provider';
-import { OpaqueToken } from './opaque_token';
-import { InjectableMetadata, InjectMetadata } from './metadata';
+import { OpaqueToken, InjectionToken } from './opaque_token';
+import { InjectableMetadata, InjectableProviderMetadata, InjectMetadata } from './metadata';
 
 export type ProviderLiteral = {
   provide: any,
@@ -27,6 +27,9 @@ export function createProvider( obj: ProviderLiteral ): Provider {
 export function isOpaqueToken( obj: any ): obj is OpaqueToken {
   return obj instanceof OpaqueToken;
 }
+export function isInjectionToken( obj: any ): obj is InjectionToken<any> {
+  return obj instanceof InjectionToken;
+}
 
 export function isDirectiveLike( annotation: any ): annotation is DirectiveMetadata|ComponentMetadata {
   return isString( annotation.selector ) && annotation instanceof DirectiveMetadata;
@@ -44,6 +47,9 @@ function _hasTemplate( annotation: any ): boolean {
 export function isService(annotation: any): annotation is InjectableMetadata {
   return annotation instanceof InjectableMetadata;
 }
+export function isInjectableProvider( annotation: any ): annotation is InjectableProviderMetadata {
+  return annotation instanceof InjectableProviderMetadata;
+}
 export function isPipe(annotation: any): annotation is PipeMetadata {
   return isString(annotation.name) && annotation instanceof PipeMetadata;
 }
@@ -0,0 +1,357 @@
+import { isBlank, isPresent, isType, isArray, isFunction, getFuncName, stringify } from '../../facade/lang';
+import { ListWrapper } from '../../facade/collections';
+import { reflector } from '../reflection/reflection';
+import { resolveForwardRef } from './forward_ref';
+import { Provider, ParamMetaInst, getInjectableName } from './provider';
+import { getErrorMsg } from '../../facade/exceptions';
+import {
+  isProviderLiteral,
+  createProvider,
+  isService,
+  isDirectiveLike,
+  isInjectableProvider,
+  isInjectionToken,
+  isOpaqueToken,
+  isInjectMetadata
+} from './provider_util';
+import { OptionalMetadata, SelfMetadata, SkipSelfMetadata, HostMetadata } from './metadata';
+
+/**
+ * dependency of resolved provider together with its lookup modifiers
+ */
+export type ReflectiveDependency = {
+  token: any,
+  name: string,
+  optional: boolean,
+  self: boolean,
+  skipSelf: boolean
+};
+
+/**
+ * recipe how to create instance of resolved provider
+ */
+export type ReflectiveFactory = {
+  factory: Function,
+  dependencies: ReflectiveDependency[]
+};
+
+/**
+ * provider resolved for `ReflectiveInjector`, multi provider has recipe for every contribution
+ */
+export type ResolvedReflectiveProvider = {
+  displayName: string,
+  multi: boolean,
+  factories: ReflectiveFactory[]
+};
+
+const _THROW_IF_NOT_FOUND = {};
+
+/**
+ * Standalone injector which creates and caches instances from the same metadata as `bundle`,
+ * without angular 1 $injector or angular global.
+ *
+ * Usable for unit tests on Node, web workers or shared business logic libraries.
+ *
+ * - supports `@Injectable` classes and provider literals ( useClass,useValue,useFactory,useExisting,multi )
+ * - child injectors create their own instances of providers registered within them, other tokens are resolved
+ * from parent injectors
+ * - supports `@Optional`, `@Self` and `@SkipSelf` constructor parameter modifiers
+ *
+ * ```typescript
+ * const injector = ReflectiveInjector.resolveAndCreate( [ UserService, { provide: API_URL, useValue: '/api' } ] );
+ * const child = injector.resolveAndCreateChild( [ { provide: API_URL, useValue: '/mock-api' } ] );
+ *
+ * injector.get( UserService );
+ * ```
+ */
+export class ReflectiveInjector {
+
+  /**
+   * resolves array of providers and creates injector from them
+   * @param providers
+   * @param parent
+   * @returns {ReflectiveInjector}
+   */
+  static resolveAndCreate( providers: any[] = [], parent: ReflectiveInjector = null ): ReflectiveInjector {
+    return new ReflectiveInjector( _resolveReflectiveProviders( providers ), parent );
+  }
+
+  private _instances: {[name: string]: any} = {};
+  private _constructing: string[] = [];
+
+  constructor(
+    private _providers: {[name: string]: ResolvedReflectiveProvider},
+    private _parent: ReflectiveInjector = null
+  ) {}
+
+  get parent(): ReflectiveInjector { return this._parent }
+
+  /**
+   * resolves array of providers and creates child injector from them
+   * @param providers
+   * @returns {ReflectiveInjector}
+   */
+  resolveAndCreateChild( providers: any[] = [] ): ReflectiveInjector {
+    return ReflectiveInjector.resolveAndCreate( providers, this );
+  }
+
+  /**
+   * returns instance for the token from this injector or its ancestors
+   * @param token
+   * @param notFoundValue returned if there is no provider for the token, otherwise it throws
+   * @returns {any}
+   */
+  get( token: any, notFoundValue: any = _THROW_IF_NOT_FOUND ): any {
+
+    const resolvedToken = resolveForwardRef( token );
+    const dependency: ReflectiveDependency = {
+      token: resolvedToken,
+      name: _getDependencyName( resolvedToken ),
+      optional: notFoundValue !== _THROW_IF_NOT_FOUND,
+      self: false,
+      skipSelf: false
+    };
+    const instance = this._resolveDependency( dependency, [] );
+
+    return isBlank( instance ) && dependency.optional
+      ? notFoundValue
+      : instance;
+
+  }
+
+  private _resolveDependency( dependency: ReflectiveDependency, path: string[] ): any {
+
+    const { token, name, optional, self, skipSelf } = dependency;
+
+    if ( token === ReflectiveInjector ) {
+      return this;
+    }
+
+    let injector = skipSelf ? this._parent : this;
+    while ( isPresent( injector ) ) {
+      if ( injector._providers.hasOwnProperty( name ) ) {
+        return injector._getInstance( name, path );
+      }
+      if ( self ) {
+        break;
+      }
+      injector = injector._parent;
+    }
+
+    // self providing InjectionToken instance is created once within root injector
+    if ( !self && isInjectionToken( token ) && isPresent( token.factory ) ) {
+      const root = this._getRoot();
+      if ( !root._instances.hasOwnProperty( name ) ) {
+        root._instances[ name ] = token.factory();
+      }
+      return root._instances[ name ];
+    }
+
+    if ( optional ) {
+      return null;
+    }
+
+    throw new Error( _getErrorMsg( `no provider for ${ _getDisplayName( token ) }! ( ${ [ ...path, _getDisplayName( token ) ].join( ' -> ' ) } )` ) );
+
+  }
+
+  private _getInstance( name: string, path: string[] ): any {
+
+    if ( this._instances.hasOwnProperty( name ) ) {
+      return this._instances[ name ];
+    }
+
+    const provider = this._providers[ name ];
+    const currentPath = [ ...path, provider.displayName ];
+
+    if ( this._constructing.indexOf( name ) !== -1 ) {
+      throw new Error( _getErrorMsg( `cannot instantiate cyclic dependency! ( ${ currentPath.join( ' -> ' ) } )` ) );
+    }
+
+    this._constructing.push( name );
+    try {
+      const instances = provider.factories.map( ( recipe ) => this._instantiate( recipe, currentPath ) );
+      this._instances[ name ] = provider.multi ? instances : instances[ 0 ];
+    } finally {
+      this._constructing.pop();
+    }
+
+    return this._instances[ name ];
+
+  }
+
+  private _instantiate( { factory, dependencies }: ReflectiveFactory, path: string[] ): any {
+    const deps = dependencies.map( ( dependency ) => this._resolveDependency( dependency, path ) );
+    return factory( ...deps );
+  }
+
+  private _getRoot(): ReflectiveInjector {
+    let injector: ReflectiveInjector = this;
+    while ( isPresent( injector._parent ) ) {
+      injector = injector._parent;
+    }
+    return injector;
+  }
+
+}
+
+/**
+ * resolves providers to StringMap of recipes by injectable name
+ * - last registration of the same name wins, multi providers are collected in registration order
+ * @param providers
+ * @returns {{[name: string]: ResolvedReflectiveProvider}}
+ * @private
+ */
+function _resolveReflectiveProviders( providers: any[] ): {[name: string]: ResolvedReflectiveProvider} {
+
+  return ListWrapper.flattenDeep( providers )
+    .reduce( ( acc, providerType ) => {
+
+      const { name, displayName, multi, recipe } = _resolveReflectiveProvider( providerType );
+      const registered: ResolvedReflectiveProvider = acc[ name ];
+
+      if ( isPresent( registered ) && registered.multi !== multi ) {
+        throw new Error( _getErrorMsg(
+          `multi providers and regular providers cannot be mixed for the same token "${ displayName }"`
+        ) );
+      }
+
+      acc[ name ] = {
+        displayName,
+        multi,
+        factories: multi && isPresent( registered ) ? [ ...registered.factories, recipe ] : [ recipe ]
+      };
+      return acc;
+
+    }, {} as {[name: string]: ResolvedReflectiveProvider} );
+
+}
+
+function _resolveReflectiveProvider( providerType: any ): {
+  name: string,
+  displayName: string,
+  multi: boolean,
+  recipe: ReflectiveFactory
+} {
+
+  if ( isProviderLiteral( providerType ) || providerType instanceof Provider ) {
+
+    const provider: Provider = providerType instanceof Provider ? providerType : createProvider( providerType );
+    const token = resolveForwardRef( provider.token );
+
+    return {
+      name: getInjectableName( token ),
+      displayName: _getDisplayName( token ),
+      multi: provider.multi,
+      recipe: _resolveProviderRecipe( provider )
+    };
+
+  }
+
+  if ( isType( providerType ) ) {
+
+    const [annotation] = reflector.annotations( providerType );
+
+    if ( isPresent( annotation ) && isService( annotation )
+      && !isDirectiveLike( annotation ) && !isInjectableProvider( annotation ) ) {
+      return {
+        name: getInjectableName( providerType ),
+        displayName: _getDisplayName( providerType ),
+        multi: false,
+        recipe: _resolveClassRecipe( providerType )
+      };
+    }
+
+  }
+
+  throw new Error( _getErrorMsg(
+    `InvalidProviderError(${ stringify( providerType ) }): only @Injectable classes and provider literals are supported`
+  ) );
+
+}
+
+function _resolveProviderRecipe( provider: Provider ): ReflectiveFactory {
+
+  if ( isPresent( provider.useClass ) ) {
+    return _resolveClassRecipe( resolveForwardRef( provider.useClass ) );
+  }
+
+  if ( isPresent( provider.useExisting ) ) {
+    const existing = resolveForwardRef( provider.useExisting );
+    return {
+      factory: ( instance: any ) => instance,
+      dependencies: [ _createDependency( [ existing ] ) ]
+    };
+  }
+
+  if ( isFunction( provider.useFactory ) ) {
+    return {
+      factory: provider.useFactory,
+      dependencies: ( provider.dependencies || [] )
+        .map( ( dep: any ) => _createDependency( isArray( dep ) ? dep : [ dep ] ) )
+    };
+  }
+
+  return {
+    factory: () => provider.useValue,
+    dependencies: []
+  };
+
+}
+
+function _resolveClassRecipe( type: Type ): ReflectiveFactory {
+
+  const params = reflector.parameters( type ) || [];
+
+  if ( params.some( ( param ) => isBlank( param ) || ListWrapper.isEmpty( param ) ) ) {
+    throw new Error( getErrorMsg( type, `you cannot have holes in constructor DI injection` ) );
+  }
+
+  return {
+    factory: ( ...deps: any[] ) => new (Function.prototype.bind.apply( type, [ null, ...deps ] ))(),
+    dependencies: params.map( _createDependency )
+  };
+
+}
+
+function _createDependency( metadata: ParamMetaInst[]|any[] ): ReflectiveDependency {
+
+  const [injectMetadata] = metadata.filter( isInjectMetadata );
+  const [typeMetadata] = metadata.filter( ( meta ) => !_isParamModifier( meta ) && !isInjectMetadata( meta ) );
+  const token = resolveForwardRef( isPresent( injectMetadata ) ? injectMetadata.token : typeMetadata );
+
+  return {
+    token,
+    name: _getDependencyName( token ),
+    optional: metadata.some( ( meta ) => meta instanceof OptionalMetadata ),
+    self: metadata.some( ( meta ) => meta instanceof SelfMetadata ),
+    skipSelf: metadata.some( ( meta ) => meta instanceof SkipSelfMetadata )
+  };
+
+}
+
+function _isParamModifier( meta: any ): boolean {
+  return meta instanceof OptionalMetadata
+    || meta instanceof SelfMetadata
+    || meta instanceof SkipSelfMetadata
+    || meta instanceof HostMetadata;
+}
+
+function _getDependencyName( token: any ): string {
+  return token === ReflectiveInjector ? '' : getInjectableName( token );
+}
+
+function _getDisplayName( token: any ): string {
+  if ( isType( token ) ) {
+    return getFuncName( token );
+  }
+  return isOpaqueToken( token ) ? token.desc : stringify( token );
+}
+
+function _getErrorMsg( msg: string ): string {
+  return `
+        Reflective injector:
+        =======================================================
+        ${ msg }
+      `;
+}
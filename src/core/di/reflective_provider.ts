@@ -1,10 +1,34 @@
-import { isType, isArray, isString, getFuncName, isBlank } from '../../facade/lang';
+import {
+  isType, isArray, isString, isFunction, getFuncName, isBlank, isPresent, stringify, assertionsEnabled
+} from '../../facade/lang';
 
 import { reflector } from '../reflection/reflection';
 
-import { Provider, provide } from './provider';
-import { isPipe, isDirectiveLike, isService, isProviderLiteral, createProvider, ProviderLiteral } from './provider_util';
+import {
+  Provider,
+  provide,
+  _getAliasedToken,
+  _createMultiFactory,
+  _isMultiFactory,
+  _isOptionalToken,
+  _createOptionalFactory,
+  _createTokenDefaultFactory,
+  _isTokenDefaultFactory,
+  _parameterTokensFor,
+  getInjectableName
+} from './provider';
+import {
+  isPipe,
+  isDirectiveLike,
+  isService,
+  isInjectableProvider,
+  isProviderLiteral,
+  createProvider,
+  ProviderLiteral,
+  isInjectionToken
+} from './provider_util';
 import { isDirective } from './provider_util';
+import { ListWrapper } from '../../facade/collections';
 
 /**
  * process provider literals and return map for ngModule consumption
@@ -31,13 +55,9 @@ export function resolveReflectiveProvider( provider: Provider ): {method: string
     return { method, name, value };
   }
   if (provider.useExisting) {
-    const [name,value] = provide( provider.useExisting );
+    const [name,value] = provide( token, { useExisting: provider.useExisting } );
     const method = 'factory';
-
-    throw new Error('useExisting is unimplemented');
-    // target = (v) => v;
-    // annotate(target, 'factory', {name});
-    // annotate(target, 'inject', [toInjectorName(provider.useExisting)]);
+    return { method, name, value };
   }
 
 }
@@ -85,6 +105,14 @@ export function _getNgModuleMetadataByType( injectable: Type ): { providerName:
     }
   }
 
+  if ( isInjectableProvider( annotation ) ) {
+    return {
+      providerName: '$provide',
+      providerMethod: 'provider',
+      moduleMethod: 'provider'
+    }
+  }
+
   if ( isService( annotation ) ) {
     return {
       providerName: '$provide',
@@ -101,12 +129,14 @@ export function _getNgModuleMetadataByType( injectable: Type ): { providerName:
  * - works for nested arrays like angular 2 does ;)
  * @param ngModule
  * @param providers
+ * @param owner component/directive which declared providers, used for name collision diagnostics
  * @returns {ng.IModule}
  * @private
  */
 export function _normalizeProviders(
   ngModule: ng.IModule,
-  providers: Array<string|Type|ProviderLiteral|any[]>
+  providers: Array<string|Type|ProviderLiteral|any[]>,
+  owner: Type = null
 ): ng.IModule {
 
   providers.forEach( ( providerType ) => {
@@ -122,7 +152,20 @@ export function _normalizeProviders(
     if ( isProviderLiteral( providerType ) ) {
       const provider = createProvider( providerType );
       const { method, name, value } = resolveReflectiveProvider( provider );
-      if ( !_isTypeRegistered( name, ngModule, '$provide', method ) ) {
+      if ( method === 'service' ) {
+        _registerOptionalDependencies( ngModule, value.$inject );
+        _registerInjectionTokenDefaults( ngModule, _parameterTokensFor( value ) );
+      }
+      _registerInjectionTokenDefaults( ngModule, [ provider.useExisting, ...(provider.dependencies || []) ] );
+      if ( provider.multi ) {
+        _registerMultiProvider( ngModule, { method, name, value } );
+        return;
+      }
+      _assertNotMultiProvider( name, ngModule );
+      _assertNoCyclicAlias( name, value, ngModule );
+      // component scoped providers are registered globally as well, so they can't share a token with different source
+      _assertNoNameCollision( ngModule, '$provide', name, _getProviderLiteralSource( provider ), owner, _getProviderLiteralDescription( provider ) );
+      if ( !_isTypeRegistered( name, ngModule, '$provide', method ) || _isRegisteredOnlyAsTokenDefault( name, ngModule ) ) {
         ngModule[ method ]( name, value );
       }
       return;
@@ -141,6 +184,14 @@ export function _normalizeProviders(
         return;
       }
 
+      _registerOptionalDependencies( ngModule, providerType.$inject );
+      _registerInjectionTokenDefaults( ngModule, _parameterTokensFor( providerType ) );
+
+      if ( providerName === '$provide' ) {
+        _assertNotMultiProvider( name, ngModule );
+      }
+      _assertNoNameCollision( ngModule, providerName, name, providerType, owner );
+
       if ( !_isTypeRegistered( name, ngModule, providerName, providerMethod ) ) {
         // @TODO register via this once requires are resolved for 3 types of attr directive from template
         // _registerTypeProvider( ngModule, providerType, { moduleMethod, name, value } );
@@ -151,7 +202,7 @@ export function _normalizeProviders(
 
     // un flattened array, unwrap and parse next array level of providers
     if (isArray(providerType)) {
-      _normalizeProviders( ngModule, providerType );
+      _normalizeProviders( ngModule, providerType, owner );
     } else {
       throw new Error(`InvalidProviderError(${providerType})`);
     }
@@ -161,6 +212,65 @@ export function _normalizeProviders(
   return ngModule;
 }
 
+/**
+ * provider resolved for component scoped element injector
+ */
+export type ScopedProvider = { method: string, value: any };
+
+/**
+ * process `providers`/`viewProviders` of @Component/@Directive to StringMap of providers by injectable name,
+ * which are instantiated per component instance by its element injector
+ * - only services and provider literals are scoped, pipes/directives/configurable providers/angular 1 modules
+ * are registered just globally
+ * - multi providers are always resolved from the root injector
+ * @param providers
+ * @returns {{[name: string]: ScopedProvider}}
+ * @private
+ */
+export function _resolveScopedProviders(
+  providers: Array<string|Type|ProviderLiteral|any[]> = []
+): {[name: string]: ScopedProvider} {
+
+  return ListWrapper.flattenDeep( providers )
+    .filter( _isScopedProvider )
+    .reduce( ( acc, providerType ) => {
+
+      if ( isProviderLiteral( providerType ) ) {
+        const { method, name, value } = resolveReflectiveProvider( createProvider( providerType ) );
+        acc[ name ] = { method, value };
+        return acc;
+      }
+
+      const [name,value] = provide( providerType );
+      acc[ name ] = { method: 'service', value };
+      return acc;
+
+    }, {} as {[name: string]: ScopedProvider} );
+
+}
+
+/**
+ * checks if provider from component `providers`/`viewProviders` is instantiated per component by its element injector
+ * @param providerType
+ * @returns {boolean}
+ * @private
+ */
+function _isScopedProvider( providerType: string|Type|ProviderLiteral ): boolean {
+
+  if ( isProviderLiteral( providerType ) ) {
+    return !createProvider( providerType ).multi;
+  }
+
+  if ( isType( providerType ) ) {
+    const [annotation] = reflector.annotations( providerType );
+    return isPresent( annotation ) && isService( annotation )
+      && !isDirectiveLike( annotation ) && !isPipe( annotation ) && !isInjectableProvider( annotation );
+  }
+
+  return false;
+
+}
+
 /**
  * check if `findRegisteredType` is registered within ngModule, so we don't have duplicates
  * @param findRegisteredType
@@ -190,6 +300,324 @@ export function _isTypeRegistered(
   } )
 }
 
+/**
+ * ngModule property under which are stored sources of registered names for collision diagnostics
+ */
+const REGISTRATION_SOURCES_KEY = '$$ngmRegistrationSources';
+
+let _providerCollisionWarningsEnabled: boolean = false;
+
+/**
+ * Enables `console.warn` about provider name collisions in production mode.
+ *
+ * In development mode `bundle` throws if different Type or value is registered under already registered name.
+ * In production mode such collision is silently ignored ( first registration wins ), unless this is called.
+ */
+export function enableProviderCollisionWarnings(): void {
+  _providerCollisionWarningsEnabled = true;
+}
+
+/**
+ * records which Type/value was registered under `name` and by which component was it declared.
+ * Re-registration of the same source is fine, but different source under already registered name would be silently
+ * ignored by `_isTypeRegistered` checks, so it throws in dev mode and warns in production mode
+ * if {@link enableProviderCollisionWarnings} was called
+ * @param ngModule
+ * @param providerName angular 1 provider which registers the name ( $provide, $compileProvider, $filterProvider )
+ * @param name
+ * @param source Type or provider literal use* value
+ * @param owner component/directive which declared the provider, null for `bundle` otherProviders
+ * @param description source description used within error message
+ * @private
+ */
+export function _assertNoNameCollision(
+  ngModule: ng.IModule,
+  providerName: string,
+  name: string,
+  source: any,
+  owner: Type = null,
+  description: string = getFuncName( source )
+): void {
+
+  const registrationSources: {[key: string]: { source: any, owner: Type, description: string }} =
+    (ngModule as any)[ REGISTRATION_SOURCES_KEY ] || ((ngModule as any)[ REGISTRATION_SOURCES_KEY ] = {});
+  const key = `${ providerName }:${ name }`;
+  const registered = registrationSources[ key ];
+
+  if ( isBlank( registered ) ) {
+    registrationSources[ key ] = { source, owner, description };
+    return;
+  }
+
+  if ( registered.source === source ) {
+    return;
+  }
+
+  const errorMsg = `
+        Provider registration: "${ name }":
+        =======================================================
+        name collision: ${ _getSourceDescription( registered.description, registered.owner ) } is already registered under this name,
+        ${ _getSourceDescription( description, owner ) } would be ignored
+      `;
+
+  if ( assertionsEnabled() ) {
+    throw new Error( errorMsg );
+  }
+
+  if ( _providerCollisionWarningsEnabled ) {
+    console.warn( errorMsg );
+  }
+
+}
+
+function _getProviderLiteralSource( provider: Provider ): any {
+  if ( provider.useClass ) { return provider.useClass }
+  if ( provider.useFactory ) { return provider.useFactory }
+  if ( provider.useExisting ) { return provider.useExisting }
+  return provider.useValue;
+}
+
+function _getProviderLiteralDescription( provider: Provider ): string {
+  const token = isType( provider.token ) ? getFuncName( provider.token ) : stringify( provider.token );
+  if ( provider.useClass ) { return `${ token } useClass: ${ getFuncName( provider.useClass ) }` }
+  if ( provider.useFactory ) { return `${ token } useFactory: ${ getFuncName( provider.useFactory ) || 'anonymous' }` }
+  if ( provider.useExisting ) { return `${ token } useExisting: ${ stringify( provider.useExisting ) }` }
+  return `${ token } useValue`;
+}
+
+function _getSourceDescription( description: string, owner: Type ): string {
+  const declaredBy = isPresent( owner ) ? `declared by ${ getFuncName( owner ) }` : 'registered via bundle otherProviders';
+  return `${ description } ( ${ declaredBy } )`;
+}
+
+/**
+ * registers factories for dependencies injected via `@Optional()`, which resolve to `null` if there is no provider
+ * for the token
+ * @param ngModule
+ * @param injectables
+ * @private
+ */
+export function _registerOptionalDependencies( ngModule: ng.IModule, injectables: string[] = [] ): void {
+
+  injectables
+    .filter( _isOptionalToken )
+    .forEach( ( optionalToken ) => {
+      if ( !_isTypeRegistered( optionalToken, ngModule, '$provide', 'factory' ) ) {
+        ngModule.factory( optionalToken, _createOptionalFactory( optionalToken ) );
+      }
+    } );
+
+}
+
+/**
+ * registers self providing factories of `InjectionToken`s, if there is no explicit provider registered for them.
+ * Explicit providers registered later override these defaults
+ * @param ngModule
+ * @param tokens
+ * @private
+ */
+export function _registerInjectionTokenDefaults( ngModule: ng.IModule, tokens: any[] = [] ): void {
+
+  tokens
+    .filter( ( token ) => isInjectionToken( token ) && isPresent( token.factory ) )
+    .forEach( ( token ) => {
+      const name = getInjectableName( token );
+      if ( !_getRegisteredProviders( name, ngModule ).length ) {
+        ngModule.factory( name, _createTokenDefaultFactory( token ) );
+      }
+    } );
+
+}
+
+function _isRegisteredOnlyAsTokenDefault( name: string, ngModule: ng.IModule ): boolean {
+  const registered = _getRegisteredProviders( name, ngModule );
+  return registered.length > 0 && registered.every( _isTokenDefaultFactory );
+}
+
+/**
+ * registers `multi: true` provider contribution under unique name and adds it to the aggregating factory of the token,
+ * so injecting the token yields array of all contributions in registration order
+ * @param ngModule
+ * @param method
+ * @param name
+ * @param value
+ * @private
+ */
+export function _registerMultiProvider(
+  ngModule: ng.IModule,
+  { method, name, value }: { method: string, name: string, value: any }
+): void {
+
+  // self providing InjectionToken default is overridden by multi provider
+  const registered = _getRegisteredProviders( name, ngModule ).filter( ( provider ) => !_isTokenDefaultFactory( provider ) );
+  let multiFactory = registered.filter( _isMultiFactory )[ 0 ];
+
+  if ( isBlank( multiFactory ) ) {
+
+    if ( registered.length ) {
+      throw new Error( _getMixedMultiProviderErrorMsg( name ) );
+    }
+
+    multiFactory = _createMultiFactory();
+    ngModule.factory( name, multiFactory );
+
+  }
+
+  const contributionName = `${ name }#multi${ multiFactory.$inject.length }`;
+
+  _assertNoCyclicAlias( contributionName, value, ngModule );
+  ngModule[ method ]( contributionName, value );
+  multiFactory.$inject.push( contributionName );
+
+}
+
+/**
+ * throws if there is already registered multi provider for `name`, because multi and regular providers cannot be mixed
+ * @param name
+ * @param ngModule
+ * @private
+ */
+export function _assertNotMultiProvider( name: string, ngModule: ng.IModule ): void {
+
+  if ( _getRegisteredProviders( name, ngModule ).some( _isMultiFactory ) ) {
+    throw new Error( _getMixedMultiProviderErrorMsg( name ) );
+  }
+
+}
+
+function _getRegisteredProviders( name: string, ngModule: ng.IModule ): any[] {
+  const invokeQueue: any[] = (ngModule as any)._invokeQueue;
+  return invokeQueue
+    .filter( ( [type,fnName,[registeredName]]:[string,string,[string,any]] ) => {
+      return type === '$provide' && registeredName === name;
+    } )
+    .map( ( [type,fnName,[registeredName,registeredProvider]]:[string,string,[string,any]] ) => registeredProvider );
+}
+
+function _getMixedMultiProviderErrorMsg( name: string ): string {
+  return `
+        Provider registration: "${ name }":
+        =======================================================
+        multi providers and regular providers cannot be mixed for the same token
+      `;
+}
+
+/**
+ * follows chain of `useExisting` aliases registered within ngModule and throws if `aliasValue` would close a cycle
+ * like A -> B -> A, which angular 1 would report only at runtime as cryptic $injector:cdep
+ * @param aliasName
+ * @param aliasValue
+ * @param ngModule
+ * @private
+ */
+export function _assertNoCyclicAlias( aliasName: string, aliasValue: any, ngModule: ng.IModule ): void {
+
+  const invokeQueue: any[] = (ngModule as any)._invokeQueue;
+  const aliases: {[name: string]: string} = invokeQueue
+    .filter( ( [type,fnName]:[string,string] ) => type === '$provide' && fnName === 'factory' )
+    .reduce( ( acc, [type,fnName,[name,factory]]:[string,string,[string,any]] ) => {
+      const aliasedToken = _getAliasedToken( factory );
+      if ( isPresent( aliasedToken ) ) {
+        acc[ name ] = aliasedToken;
+      }
+      return acc;
+    }, {} as {[name: string]: string} );
+
+  const chain = [ aliasName ];
+  let existing = _getAliasedToken( aliasValue );
+
+  while ( isPresent( existing ) ) {
+
+    chain.push( existing );
+
+    if ( existing === aliasName ) {
+      throw new Error( `
+        Provider registration: "${ aliasName }":
+        =======================================================
+        cyclic useExisting alias detected: ${ chain.join( ' -> ' ) }
+      ` );
+    }
+
+    // chain ended in a cycle which doesn't include the new alias, it will be reported by its own registration
+    if ( chain.indexOf( existing ) !== chain.length - 1 ) {
+      return;
+    }
+
+    existing = aliases[ existing ];
+
+  }
+
+}
+
+/**
+ * walks `$inject` arrays of all services/factories registered within ngModule and throws if they depend on each other,
+ * which angular 1 would report only at runtime as cryptic $injector:cdep with minified DI names
+ * - `forwardRef` and provider literal `deps` are already resolved within `$inject`
+ * - dependencies injected via `@Optional()` are followed to the token they resolve to
+ * @param ngModule
+ * @private
+ */
+export function _assertNoCyclicDependencies( ngModule: ng.IModule ): void {
+
+  const invokeQueue: any[] = (ngModule as any)._invokeQueue;
+  // angular 1 uses the last registration of the name
+  const providers = invokeQueue
+    .filter( ( [type]:[string] ) => type === '$provide' )
+    .reduce( ( acc, [type,fnName,[name,value]]:[string,string,[string,any]] ) => {
+      acc[ name ] = { method: fnName, value };
+      return acc;
+    }, {} as {[name: string]: ScopedProvider} );
+
+  const resolved: {[name: string]: boolean} = {};
+  const path: string[] = [];
+
+  const visit = ( name: string ) => {
+
+    if ( !providers.hasOwnProperty( name ) || resolved[ name ] ) {
+      return;
+    }
+
+    const cycleStart = path.indexOf( name );
+    if ( cycleStart !== -1 ) {
+      const chain = [ ...path.slice( cycleStart ), name ]
+        .map( ( chainName ) => _getProviderDisplayName( chainName, providers[ chainName ] ) );
+      throw new Error( `
+        Bundle "${ ngModule.name }":
+        =======================================================
+        circular dependency detected: ${ chain.join( ' -> ' ) }
+      ` );
+    }
+
+    path.push( name );
+    _getProviderDependencies( providers[ name ] )
+      .map( ( dependency ) => _isOptionalToken( dependency ) ? dependency.substring( 1 ) : dependency )
+      .forEach( visit );
+    path.pop();
+
+    resolved[ name ] = true;
+
+  };
+
+  Object.keys( providers ).forEach( visit );
+
+}
+
+function _getProviderDependencies( { method, value }: ScopedProvider ): string[] {
+  if ( method === 'provider' ) {
+    return isFunction( value ) && isFunction( value.prototype.$get ) ? value.prototype.$get.$inject || [] : [];
+  }
+  if ( method !== 'service' && method !== 'factory' ) {
+    return [];
+  }
+  if ( isArray( value ) ) {
+    return value.slice( 0, -1 );
+  }
+  return isFunction( value ) && isArray( value.$inject ) ? value.$inject : [];
+}
+
+function _getProviderDisplayName( name: string, { method, value }: ScopedProvider ): string {
+  return method === 'service' && isFunction( value ) ? getFuncName( value ) : name;
+}
 
 /**
  * we need to register 3 types of attribute directives, if we are registering directive,
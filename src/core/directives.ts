@@ -1,3 +1,4 @@
 export * from './directives/decorators';
 export * from './directives/metadata_di';
 export * from './directives/metadata_directives';
+export { ViewEncapsulation } from './directives/styles/constants';
@@ -4,6 +4,8 @@ import { isComponentDirective } from '../directives_utils';
 
 import { SimpleChange, ChangeDetectionUtil } from '../../change_detection/change_detection_util';
 import { changesQueueService } from '../../change_detection/changes_queue';
+import { _markForCheck } from '../../change_detection/change_detector_ref';
+import { isDefaultChangeDetectionStrategy } from '../../change_detection/constants';
 
 import { StringMapWrapper } from '../../../facade/collections';
 import { global, noop, isString, isBoolean, isFunction } from '../../../facade/lang';
@@ -42,7 +44,8 @@ export function _createDirectiveBindings(
    BOOLEAN_ATTR[value.toLocaleLowerCase()] = value;
    });*/
 
-  const isBindingImmutable = isComponentDirective( metadata ) && ChangeDetectionUtil.isOnPushChangeDetectionStrategy( metadata.changeDetection );
+  const isOnPush = isComponentDirective( metadata ) && ChangeDetectionUtil.isOnPushChangeDetectionStrategy( metadata.changeDetection );
+  const isCheckedOnInputChange = isComponentDirective( metadata ) && !isDefaultChangeDetectionStrategy( metadata.changeDetection );
   const scope = hasIsolateScope
     ? ngScope.$parent
     : ngScope;
@@ -69,7 +72,7 @@ export function _createDirectiveBindings(
 
     const removeWatch = hasTwoWayBinding
       ? _createTwoWayBinding( propName, attrName, exp )
-      : _createOneWayBinding( propName, attrName, exp, isBindingImmutable );
+      : _createOneWayBinding( propName, attrName, exp, isOnPush );
     _internalWatchers.push( removeWatch );
 
   } );
@@ -111,6 +114,7 @@ export function _createDirectiveBindings(
       }
       recordChanges( propName, newValue, oldValue );
       ctrl[ propName ] = isImmutable ? angular.copy(newValue) : newValue;
+      markForCheck();
     }, parentGet.literal );
 
   }
@@ -135,6 +139,7 @@ export function _createDirectiveBindings(
         if (!compare(parentValue, lastValue)) {
           // parent changed and it has precedence
           ctrl[propName] = parentValue;
+          markForCheck();
         } else {
           // if the parent can be assigned then do so
           parentSet(scope, parentValue = ctrl[propName]);
@@ -195,6 +200,7 @@ export function _createDirectiveBindings(
         const oldValue = ctrl[ propName ];
         recordChanges( propName, value, oldValue );
         ctrl[ propName ] = value;
+        markForCheck();
       }
     } );
 
@@ -236,6 +242,13 @@ export function _createDirectiveBindings(
     }
   }
 
+  // OnPush/CheckOnce component view is detached from digest, so it has to be checked when @Input changes
+  function markForCheck(): void {
+    if ( isCheckedOnInputChange ) {
+      _markForCheck( ngScope );
+    }
+  }
+
   function triggerOnChangesHook(): void {
     ctrl.ngOnChanges( changes );
     // Now clear the changes so that we schedule onChanges when more changes arrive
@@ -0,0 +1,152 @@
+import { global, isString, isBlank, isPresent, resolveDirectiveNameFromSelector } from '../../../facade/lang';
+import { StringMapWrapper } from '../../../facade/collections';
+
+/**
+ * selectors of elements into which is content transcluded by angular, used also by @ContentChild(ren) queries
+ */
+export const TRANSCLUDE_HOST_SELECTORS = [ 'ng-transclude', '[ng-transclude]' ];
+
+/**
+ * matches `<ng-content></ng-content>` and `<ng-content select="card-header"></ng-content>`
+ */
+const NG_CONTENT_RE = /<ng-content(\s[^>]*)?>\s*<\/ng-content>/gi;
+const SELECT_ATTR_RE = /\sselect\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const ELEMENT_SELECTOR_RE = /^[a-z][\w-]*$/i;
+
+export type ContentSlot = { select: string, slotName: string };
+
+/**
+ * checks if inline component template contains any `<ng-content>` projection point
+ * @param template
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _hasContentProjection( template: string ): boolean {
+
+  return isString( template ) && _parseContentSlots( template ).length > 0;
+
+}
+
+/**
+ * creates value of DDO transclude property from `<ng-content>` projection points:
+ * - `false` if there is no `<ng-content>`
+ * - `true` if there is only default `<ng-content></ng-content>`
+ * - angular 1.5 multi-slot transclusion map if there is any `<ng-content select="card-header">`,
+ * slots are optional same as in Angular 2: `{cardHeader: '?card-header'}`, it throws with older angular
+ *
+ * Content which doesn't match any slot is projected into default `<ng-content>`
+ * @param template
+ * @returns {boolean|{[slotName:string]:string}}
+ * @private
+ * @internal
+ */
+export function _createTransclusion( template: string ): boolean | {[slotName: string]: string} {
+
+  if ( !isString( template ) ) {
+    return false;
+  }
+
+  const slots = _parseContentSlots( template );
+
+  if ( slots.length === 0 ) {
+    return false;
+  }
+
+  const selectSlots = slots.filter( ( { select } ) => !isBlank( select ) );
+
+  if ( selectSlots.length === 0 ) {
+    return true;
+  }
+
+  _assertMultiSlotTransclusionSupport( selectSlots[ 0 ] );
+
+  return selectSlots.reduce( ( transcludeMap, { select, slotName } ) => {
+    return StringMapWrapper.assign( transcludeMap, { [slotName]: `?${ select }` } );
+  }, {} as {[slotName: string]: string} );
+
+}
+
+/**
+ * replaces `<ng-content>` projection points by angular `<ng-transclude>`:
+ * - `<ng-content></ng-content>` -> `<ng-transclude></ng-transclude>`
+ * - `<ng-content select="card-header"></ng-content>` -> `<ng-transclude ng-transclude-slot="cardHeader"></ng-transclude>`
+ * @param template
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _replaceContentProjection( template: string ): string {
+
+  return template.replace( NG_CONTENT_RE, ( ngContent: string, attrs: string = '' ) => {
+
+    const { slotName } = _parseContentSlot( attrs );
+
+    return isBlank( slotName )
+      ? `<ng-transclude></ng-transclude>`
+      : `<ng-transclude ng-transclude-slot="${ slotName }"></ng-transclude>`;
+
+  } );
+
+}
+
+/**
+ * get all `<ng-content>` projection points from template
+ * @param template
+ * @returns {ContentSlot[]}
+ * @private
+ * @internal
+ */
+export function _parseContentSlots( template: string ): ContentSlot[] {
+
+  const slots: ContentSlot[] = [];
+  let match: RegExpExecArray;
+
+  NG_CONTENT_RE.lastIndex = 0;
+  while ( match = NG_CONTENT_RE.exec( template ) ) {
+    slots.push( _parseContentSlot( match[ 1 ] ) );
+  }
+
+  return slots;
+
+}
+
+// angular 1.4 would treat transclusion map as plain `transclude: true`, so slots would be silently ignored
+function _assertMultiSlotTransclusionSupport( { select }: ContentSlot ): void {
+
+  const version = isPresent( global.angular ) ? global.angular.version : null;
+
+  if ( isBlank( version ) || version.major > 1 || version.minor >= 5 ) {
+    return;
+  }
+
+  throw new Error( `
+    Content projection:
+    =======================================================
+    <ng-content select="${ select }"> needs angular 1.5+ multi-slot transclusion, but angular ${ version.full } is used.
+    Use only default <ng-content></ng-content> or upgrade angular
+  ` );
+
+}
+
+function _parseContentSlot( attrs: string = '' ): ContentSlot {
+
+  const [,doubleQuoted,singleQuoted] = attrs.match( SELECT_ATTR_RE ) || [] as string[];
+  const select = ( doubleQuoted || singleQuoted || '' ).trim();
+
+  if ( !select ) {
+    return { select: null, slotName: null };
+  }
+
+  if ( !ELEMENT_SELECTOR_RE.test( select ) ) {
+    throw new Error( `
+      Content projection:
+      =======================================================
+      <ng-content select="${ select }"> is not supported, only element names can be used as select,
+      e.g. <ng-content select="card-header"></ng-content>
+    ` );
+  }
+
+  return { select, slotName: resolveDirectiveNameFromSelector( select ) };
+
+}
@@ -1,13 +1,33 @@
 import { StringMapWrapper } from '../../../facade/collections';
 import { EventEmitter } from '../../../facade/async';
 import { DirectiveMetadata, ComponentMetadata } from '../metadata_directives';
-import { ChangeDetectorRef } from '../../change_detection/change_detector_ref';
+import { ChangeDetectorRef, _setupChangeDetection, _markAsErrored } from '../../change_detection/change_detector_ref';
 import { _createDirectiveBindings } from '../binding/binding_factory';
-import { isAttrDirective } from '../directives_utils';
+import { isAttrDirective, isComponentDirective } from '../directives_utils';
 import { isFunction, isJsObject, isArray, getFuncName, isString } from '../../../facade/lang';
 import { StringWrapper } from '../../../facade/primitives';
 import { DirectiveCtrl, NgmDirective } from '../constants';
 import { REQUIRE_PREFIX_REGEXP } from './constants';
+import { ElementInjector, ELEMENT_INJECTOR_KEY } from '../../di/element_injector';
+import { ScopedProvider } from '../../di/reflective_provider';
+import { _isAttributeToken, _getAttributeName, getInjectableName } from '../../di/provider';
+import { TemplateRef } from '../../linker/template_ref';
+import { ViewContainerRef } from '../../linker/view_container_ref';
+import { ElementRef } from '../../linker/element_ref';
+import { _getRenderer } from '../../render/dom_renderer';
+
+/**
+ * lifecycle hooks which are called during change detection
+ */
+const LIFECYCLE_HOOKS = [
+  'ngOnChanges',
+  'ngOnInit',
+  'ngDoCheck',
+  'ngAfterContentInit',
+  'ngAfterContentChecked',
+  'ngAfterViewInit',
+  'ngAfterViewChecked'
+];
 
 export function directiveControllerFactory<T extends DirectiveCtrl,U extends Type>(
   caller: T,
@@ -21,7 +41,11 @@ export function directiveControllerFactory<T extends DirectiveCtrl,U extends Typ
   },
   requireMap: StringMap,
   _ddo: NgmDirective,
-  metadata: DirectiveMetadata | ComponentMetadata
+  metadata: DirectiveMetadata | ComponentMetadata,
+  scopedProviders: {
+    providers?: {[name: string]: ScopedProvider},
+    viewProviders?: {[name: string]: ScopedProvider}
+  } = {}
 ): T & U {
 
   const { $scope, $element, $attrs } = locals;
@@ -30,13 +54,24 @@ export function directiveControllerFactory<T extends DirectiveCtrl,U extends Typ
     $interpolate: $injector.get<ng.IInterpolateService>( '$interpolate' ),
     $rootScope: $injector.get<ng.IRootScopeService>( '$rootScope' )
   };
-  const _localServices = {
-    changeDetectorRef: ChangeDetectorRef.create( $scope )
-  };
+  const _localServices = StringMapWrapper.assign(
+    {
+      changeDetectorRef: ChangeDetectorRef.create( $scope ),
+      elementRef: ElementRef.create( $element ),
+      renderer: _getRenderer( $injector )
+    },
+    getLinkerLocals( controller.$inject, $injector, locals )
+  );
 
   // Create an instance of the controller without calling its constructor
   const instance: T & U = Object.create( controller.prototype );
 
+  // component scope is checked by its change detection strategy and its change detector state is tracked
+  if ( isComponentDirective( metadata ) ) {
+    _setupChangeDetection( $scope, metadata.changeDetection );
+    _trackLifecycleHookErrors( instance, $scope );
+  }
+
   // NOTE: this is not needed because we are creating bindings manually because of
   // angular behaviour https://github.com/ngParty/ng-metadata/issues/53
   // ===================================================================
@@ -65,12 +100,22 @@ export function directiveControllerFactory<T extends DirectiveCtrl,U extends Typ
 
   const $requires = getEmptyRequiredControllers( requireMap );
 
+  // resolve component scoped providers/viewProviders from element injector tree
+  const _scopedServices = getScopedServices( controller, $injector, locals, metadata, scopedProviders );
+
+  // resolve static host element attributes injected via @Attribute()
+  const _attributes = getAttributeLocals( controller.$inject, $attrs );
+
   // $injector.invoke will delete any @Input/@Attr/@Output which were resolved within _createDirectiveBindings
   // and which have set default values in constructor. We need to store them and reassign after this invoke
   const initialInstanceBindingValues = getInitialBindings( instance );
 
   // Finally, invoke the constructor using the injection array and the captured locals
-  $injector.invoke( controller, instance, StringMapWrapper.assign( locals, _localServices, $requires ) );
+  $injector.invoke(
+    controller,
+    instance,
+    StringMapWrapper.assign( locals, _attributes, _scopedServices, _localServices, $requires )
+  );
 
   // reassign back the initial binding values, just in case if we used default values
   StringMapWrapper.assign( instance, initialInstanceBindingValues );
@@ -101,7 +146,11 @@ export function directiveControllerFactory<T extends DirectiveCtrl,U extends Typ
       // and which have set default values in constructor. We need to store them and reassign after this invoke
       const initialInstanceBindingValues = getInitialBindings( instance );
 
-      $injector.invoke( controller, instance, StringMapWrapper.assign( locals, _localServices, $requires ) );
+      $injector.invoke(
+        controller,
+        instance,
+        StringMapWrapper.assign( locals, _attributes, _scopedServices, _localServices, $requires )
+      );
 
       // reassign back the initial binding values, just in case if we used default values
       StringMapWrapper.assign( instance, initialInstanceBindingValues );
@@ -129,6 +178,33 @@ export function directiveControllerFactory<T extends DirectiveCtrl,U extends Typ
 }
 
 
+/**
+ * wraps implemented lifecycle hooks of component instance, so change detector goes to `Errored` state
+ * if any of them throws
+ * @param instance
+ * @param $scope
+ */
+function _trackLifecycleHookErrors( instance: any, $scope: ng.IScope ): void {
+
+  LIFECYCLE_HOOKS
+    .filter( ( hookName ) => isFunction( instance[ hookName ] ) )
+    .forEach( ( hookName ) => {
+
+      const hook: Function = instance[ hookName ];
+
+      instance[ hookName ] = function ( ...args: any[] ) {
+        try {
+          return hook.apply( this, args );
+        } catch ( error ) {
+          _markAsErrored( $scope );
+          throw error;
+        }
+      };
+
+    } );
+
+}
+
 /**
  * Note: $$postDigest will not trigger another digest cycle.
  * So any modification to $scope inside $$postDigest will not get reflected in the DOM
@@ -147,6 +223,108 @@ function $postDigestWatch( scope: ng.IScope, cb: Function ): Function {
   return removeDoCheckWatcher;
 }
 
+/**
+ * creates element injector for directive with scoped providers and resolves all constructor injectables
+ * which are provided by element injector tree, as $injector.invoke locals
+ * @param controller
+ * @param $injector
+ * @param locals
+ * @param metadata
+ * @param scopedProviders
+ * @returns {{}}
+ */
+function getScopedServices(
+  controller: Type,
+  $injector: ng.auto.IInjectorService,
+  { $scope, $element }: { $scope: ng.IScope, $element: ng.IAugmentedJQuery },
+  metadata: DirectiveMetadata | ComponentMetadata,
+  { providers, viewProviders }: {
+    providers?: {[name: string]: ScopedProvider},
+    viewProviders?: {[name: string]: ScopedProvider}
+  }
+): {[name: string]: any} {
+
+  const isComponent = !isAttrDirective( metadata );
+  // components have isolate scope, so we need the one within which is the host element linked
+  const contextScope = isComponent ? $scope.$parent : $scope;
+  const parentInjector: ElementInjector = $element.inheritedData( ELEMENT_INJECTOR_KEY );
+  const elementInjector = ElementInjector.create(
+    parentInjector,
+    $injector,
+    isComponent ? $scope : null,
+    contextScope,
+    providers,
+    viewProviders
+  );
+
+  if ( !elementInjector ) {
+    return {};
+  }
+
+  const isHost = elementInjector !== parentInjector;
+  if ( isHost ) {
+    $element.data( ELEMENT_INJECTOR_KEY, elementInjector );
+    $scope.$on( '$destroy', () => elementInjector.destroy() );
+  }
+
+  return elementInjector.getLocals( controller.$inject, contextScope, isHost );
+
+}
+
+/**
+ * returns $injector.invoke locals for all constructor params decorated with `@Attribute()`.
+ * Values are read just once from host element attributes, so there are no watchers registered for them
+ * @param injectables
+ * @param $attrs
+ * @returns {{}}
+ */
+function getAttributeLocals( injectables: string[] = [], $attrs: ng.IAttributes ): {[name: string]: string} {
+
+  return injectables
+    .filter( _isAttributeToken )
+    .reduce( ( acc, injectable ) => {
+
+      const attributeName = $attrs.$normalize( _getAttributeName( injectable ) );
+      acc[ injectable ] = $attrs.hasOwnProperty( attributeName ) ? $attrs[ attributeName ] : null;
+      return acc;
+
+    }, {} as {[name: string]: string} );
+
+}
+
+/**
+ * returns $injector.invoke locals for TemplateRef and ViewContainerRef, only if they are injected.
+ * Both are created from element transclusion of structural directive, so $element is the comment anchor
+ * @param injectables
+ * @param $injector
+ * @param locals
+ * @returns {{}}
+ */
+function getLinkerLocals(
+  injectables: string[] = [],
+  $injector: ng.auto.IInjectorService,
+  { $scope, $element, $transclude }: { $scope: ng.IScope, $element: ng.IAugmentedJQuery, $transclude: ng.ITranscludeFunction }
+): {[name: string]: TemplateRef|ViewContainerRef} {
+
+  const linkerLocals = {} as {[name: string]: TemplateRef|ViewContainerRef};
+  const templateRefName = getInjectableName( TemplateRef );
+  const viewContainerRefName = getInjectableName( ViewContainerRef );
+
+  if ( injectables.indexOf( templateRefName ) !== -1 ) {
+    linkerLocals[ templateRefName ] = TemplateRef.create( $scope, $transclude );
+  }
+  if ( injectables.indexOf( viewContainerRefName ) !== -1 ) {
+    linkerLocals[ viewContainerRefName ] = ViewContainerRef.create(
+      $element,
+      $injector.get<ng.animate.IAnimateService>( '$animate' ),
+      $scope
+    );
+  }
+
+  return linkerLocals;
+
+}
+
 function getInitialBindings( instance ): {[propName: string]: any} {
   const initialBindingValues = {};
   StringMapWrapper.forEach( instance, ( value: any, propName: string ) => {
@@ -1,6 +1,12 @@
-import { makeDecorator, makePropDecorator, TypeDecorator } from '../util/decorators';
+import { makeDecorator, makePropDecorator, makeParamDecorator, TypeDecorator } from '../util/decorators';
 import { Type } from '../../facade/lang';
-import { ContentChildrenMetadata, ContentChildMetadata, ViewChildrenMetadata, ViewChildMetadata } from './metadata_di';
+import {
+  ContentChildrenMetadata,
+  ContentChildMetadata,
+  ViewChildrenMetadata,
+  ViewChildMetadata,
+  AttributeMetadata
+} from './metadata_di';
 import {
   ComponentMetadata,
   DirectiveMetadata,
@@ -12,6 +18,7 @@ import {
   LegacyDirectiveDefinition
 } from './metadata_directives';
 import { ChangeDetectionStrategy } from '../change_detection/constants';
+import { ViewEncapsulation } from './styles/constants';
 
 
 /**
@@ -88,6 +95,7 @@ export interface ComponentMetadataFactory {
     template?: string,
     styleUrls?: string[],
     styles?: string[],
+    encapsulation?: ViewEncapsulation,
     directives?: Array<Type | any[]>,
     pipes?: Array<Type | any[]>,
     legacy?: LegacyDirectiveDefinition
@@ -108,6 +116,7 @@ export interface ComponentMetadataFactory {
     template?: string,
     styleUrls?: string[],
     styles?: string[],
+    encapsulation?: ViewEncapsulation,
     directives?: Array<Type | any[]>,
     pipes?: Array<Type | any[]>,
     legacy?: LegacyDirectiveDefinition
@@ -115,36 +124,44 @@ export interface ComponentMetadataFactory {
 }
 
 
+/**
+ * {@link AttributeMetadata} factory function.
+ */
+export interface AttributeMetadataFactory {
+  (name: string): any;
+  new (name: string): AttributeMetadata;
+}
+
 /**
  * Factory for {@link ContentChildren}.
  */
 export interface ContentChildrenMetadataFactory {
-  (selector: Type | string, {descendants}?: {descendants?: boolean}): any;
-  new (selector: Type | string, {descendants}?: {descendants?: boolean}): ContentChildrenMetadata;
+  (selector: Type | string, {descendants, read}?: {descendants?: boolean, read?: any}): any;
+  new (selector: Type | string, {descendants, read}?: {descendants?: boolean, read?: any}): ContentChildrenMetadata;
 }
 
 /**
  * Factory for {@link ContentChild}.
  */
 export interface ContentChildMetadataFactory {
-  (selector: Type | string): any;
-  new (selector: Type | string): ContentChildMetadataFactory;
+  (selector: Type | string, {read}?: {read?: any}): any;
+  new (selector: Type | string, {read}?: {read?: any}): ContentChildMetadataFactory;
 }
 
 /**
  * Factory for {@link ViewChildren}.
  */
 export interface ViewChildrenMetadataFactory {
-  (selector: Type | string): any;
-  new (selector: Type | string): ViewChildrenMetadata;
+  (selector: Type | string, {read}?: {read?: any}): any;
+  new (selector: Type | string, {read}?: {read?: any}): ViewChildrenMetadata;
 }
 
 /**
  * Factory for {@link ViewChild}.
  */
 export interface ViewChildMetadataFactory {
-  (selector: Type | string): any;
-  new (selector: Type | string): ViewChildMetadataFactory;
+  (selector: Type | string, {read}?: {read?: any}): any;
+  new (selector: Type | string, {read}?: {read?: any}): ViewChildMetadataFactory;
 }
 
 /**
@@ -199,6 +216,8 @@ export const Component: ComponentMetadataFactory = makeDecorator(ComponentMetada
 
 export const Directive: DirectiveMetadataFactory = makeDecorator(DirectiveMetadata) as DirectiveMetadataFactory;
 
+export const Attribute: AttributeMetadataFactory = makeParamDecorator(AttributeMetadata);
+
 export const ContentChildren: ContentChildrenMetadataFactory = makePropDecorator(ContentChildrenMetadata);
 
 export const ContentChild: ContentChildMetadataFactory = makePropDecorator(ContentChildMetadata);
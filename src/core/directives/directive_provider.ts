@@ -1,5 +1,15 @@
 import { DirectiveResolver } from '../linker/directive_resolver';
-import { assign, isFunction, noop, resolveDirectiveNameFromSelector, stringify, isJsObject } from '../../facade/lang';
+import {
+  assign,
+  isFunction,
+  isPresent,
+  noop,
+  resolveDirectiveNameFromSelector,
+  stringify,
+  isJsObject,
+  isString
+} from '../../facade/lang';
+import { StringWrapper } from '../../facade/primitives';
 import { StringMapWrapper } from '../../facade/collections';
 import { resolveImplementedLifeCycleHooks, ImplementedLifeCycleHooks } from '../linker/directive_lifecycles_reflector';
 import { ChildrenChangeHook } from '../linker/directive_lifecycle_interfaces';
@@ -8,8 +18,20 @@ import { directiveControllerFactory } from './controller/controller_factory';
 import { _getParentCheckNotifiers, _setupQuery } from './query/children_resolver';
 import { _parseHost } from './host/host_parser';
 import { _setHostStaticAttributes, _setHostBindings, _setHostListeners } from './host/host_resolver';
+import { _getRenderer } from '../render/dom_renderer';
 import { _setupDestroyHandler } from './directives_utils';
 import { NgmDirective, DirectiveCtrl } from './constants';
+import { _resolveScopedProviders } from '../di/reflective_provider';
+import { ViewEncapsulation, ComponentStyles } from './styles/constants';
+import {
+  _createComponentStyles,
+  _setEncapsulationAttributes,
+  _insertComponentStyles
+} from './styles/styles_resolver';
+import { _hasTemplateRefs, _parseTemplateRefs } from './refs/refs_resolver';
+import { _hasContentProjection, _createTransclusion } from './content/content_resolver';
+import { _isStructuralDirective, STRUCTURAL_DIRECTIVE_DDO } from './structural/structural_resolver';
+import { _preprocessTemplate, _registerTemplateUrl } from './template/template_resolver';
 
 /**
  * @internal
@@ -38,6 +60,18 @@ export class DirectiveProvider {
    * }
    * ```
    *
+   * directives which inject TemplateRef are structural and they are element transcluded like `ngIf`:
+   * ```
+   * {
+   * require: ['directiveName'],
+   * controller: ClassDirective,
+   * transclude: 'element',
+   * priority: 600,
+   * terminal: true,
+   * link: postLinkFn
+   * }
+   * ```
+   *
    * it produces component for classes decorated with @Component with following DDO:
    * ```
    * {
@@ -47,7 +81,7 @@ export class DirectiveProvider {
    * template: 'component template string',
    * scope:{},
    * bindToController:{},
-   * transclude: false,
+   * transclude: false | true | { slotName: '?slot-element' },
    * link: postLinkFn
    * }
    * ```
@@ -60,6 +94,10 @@ export class DirectiveProvider {
     const directiveName = resolveDirectiveNameFromSelector( metadata.selector );
     const requireMap = this.directiveResolver.getRequiredDirectivesMap( type );
     const lfHooks = resolveImplementedLifeCycleHooks(type);
+    const scopedProviders = {
+      providers: _resolveScopedProviders( metadata.providers ),
+      viewProviders: _resolveScopedProviders( (metadata as ComponentMetadata).viewProviders )
+    };
     const _ddo = {
       controller: _controller,
       link: {
@@ -70,6 +108,7 @@ export class DirectiveProvider {
       require: this._createRequires( requireMap, directiveName ),
       _ngOnInitBound: noop
     } as NgmDirective;
+    let componentStyles: ComponentStyles = null;
 
     // Component controllers must be created from a factory. Checkout out
     // util/directive-controller.js for more information about what's going on here
@@ -77,7 +116,17 @@ export class DirectiveProvider {
     function _controller($scope: any, $element: any, $attrs: any, $transclude: any, $injector: any): any{
 
       const locals = { $scope, $element, $attrs, $transclude };
-      return directiveControllerFactory( this, type, $injector, locals, requireMap, _ddo, metadata );
+
+      if ( isPresent( componentStyles ) ) {
+        _insertComponentStyles( $injector, componentStyles );
+      }
+
+      return directiveControllerFactory( this, type, $injector, locals, requireMap, _ddo, metadata, scopedProviders );
+    }
+
+    // structural directive renders its host element via TemplateRef and ViewContainerRef
+    if ( _isStructuralDirective( type ) ) {
+      StringMapWrapper.assign( _ddo, STRUCTURAL_DIRECTIVE_DDO );
     }
 
     // specific DDO augmentation for @Component
@@ -95,12 +144,17 @@ export class DirectiveProvider {
         throw new Error( 'cannot have both template and templateUrl' );
       }
       if ( metadata.template ) {
-        componentSpecificDDO.template = metadata.template;
+        // <ng-content> projection points are turned into angular ( multi-slot ) transclusion
+        // and `*directive` template sugar into structural directive attributes
+        componentSpecificDDO.template = _preprocessTemplate( metadata.template );
+        componentSpecificDDO.transclude = _createTransclusion( metadata.template ) || DirectiveProvider._transclude;
       }
       if ( metadata.templateUrl ) {
         componentSpecificDDO.templateUrl = `${assetsPath}${metadata.templateUrl}`;
       }
 
+      componentStyles = _createComponentStyles( StringWrapper.kebabCase( directiveName ), metadata, assetsPath );
+
       StringMapWrapper.assign( _ddo, componentSpecificDDO );
 
     }
@@ -117,6 +171,27 @@ export class DirectiveProvider {
       }
     }
 
+    // template preprocessing ( emulated view encapsulation, template reference variables ) needs to be done
+    // before angular compiles template elements, DDO compile is called when the template is already inserted into host
+    const isEncapsulated = isPresent( componentStyles ) && componentStyles.encapsulation === ViewEncapsulation.Emulated;
+    const hasTemplateRefs = _hasTemplateRefs( metadata );
+
+    if ( isEncapsulated || hasTemplateRefs ) {
+      const compile = _ddo.compile;
+      _ddo.compile = function templateCompile( tElement, tAttrs, transclude ) {
+        if ( hasTemplateRefs ) {
+          _parseTemplateRefs( tElement );
+        }
+        if ( isEncapsulated ) {
+          _setEncapsulationAttributes( tElement, componentStyles );
+        }
+
+        return isFunction( compile )
+          ? compile.call( this, tElement, tAttrs, transclude )
+          : this.link;
+      }
+    }
+
     // allow link defined as static method on Type override the created one
     // you should not use this very often
     // Note: if you use this any @Host property decorators or lifeCycle hooks wont work
@@ -127,7 +202,22 @@ export class DirectiveProvider {
     // legacy property overrides all generated DDO stuff
     const ddo = this._createDDO( _ddo, metadata.legacy );
 
-    function directiveFactory() { return ddo }
+    const hasLegacyTransclusion = isPresent( StringMapWrapper.getValueFromPath( metadata, 'legacy.transclude' ) );
+
+    function directiveFactory( $templateCache?: ng.ITemplateCacheService ) {
+      // templateUrl is preprocessed by $templateRequest decorator, transclusion for its <ng-content> has to be known
+      // before the template is loaded, so it's resolved from already cached template
+      if ( isPresent( $templateCache ) ) {
+        if ( !hasLegacyTransclusion ) {
+          ddo.transclude = _createTransclusion( $templateCache.get<string>( ddo.templateUrl as string ) ) || ddo.transclude;
+        }
+        _registerTemplateUrl( ddo.templateUrl as string, ddo.transclude );
+      }
+      return ddo;
+    }
+    if ( isString( ddo.templateUrl ) ) {
+      (directiveFactory as any).$inject = [ '$templateCache' ];
+    }
 
     // ==========================
     // ngComponentRouter Support:
@@ -213,13 +303,15 @@ export class DirectiveProvider {
               ` )
     }
     if ( metadata instanceof ComponentMetadata ) {
-      if ( (lfHooks.ngAfterContentInit || lfHooks.ngAfterContentChecked) && !StringMapWrapper.getValueFromPath( metadata,
-          'legacy.transclude' ) ) {
+      const hasTransclusion = StringMapWrapper.getValueFromPath( metadata, 'legacy.transclude' )
+        || _hasContentProjection( metadata.template );
+      if ( (lfHooks.ngAfterContentInit || lfHooks.ngAfterContentChecked) && !hasTransclusion ) {
         throw new Error( `
               Hooks Impl for ${ stringify( type ) }:
               ===================================
               You cannot implement AfterContentInit lifecycle, without allowed transclusion.
-              turn transclusion on within decorator like this: @Component({legacy:{transclude:true}})
+              use <ng-content></ng-content> within component template
+              or turn transclusion on within decorator like this: @Component({legacy:{transclude:true}})
               ` )
       }
     }
@@ -244,16 +336,18 @@ export class DirectiveProvider {
 
       const _watchers = [];
       const [ctrl,...requiredCtrls] = controller;
+      // host is rendered via the same Renderer which can be injected to directive
+      const renderer = _getRenderer( element.injector() );
 
-      _setHostStaticAttributes( element, hostProcessed.hostStatic );
+      _setHostStaticAttributes( element, hostProcessed.hostStatic, renderer );
 
       // setup @HostBindings
       _watchers.push(
-        ..._setHostBindings( scope, element, ctrl, hostProcessed.hostBindings )
+        ..._setHostBindings( scope, element, ctrl, hostProcessed.hostBindings, renderer )
       );
 
       // setup @HostListeners
-      _setHostListeners( scope, element, ctrl, hostProcessed.hostListeners );
+      _setHostListeners( scope, element, ctrl, hostProcessed.hostListeners, renderer );
 
       // @ContentChild/@ContentChildren/@ViewChild/@ViewChildren related logic
       const parentCheckedNotifiers = _getParentCheckNotifiers( ctrl, requiredCtrls );
@@ -1,14 +1,22 @@
 import { HostBindingsProcessed, HostListenersProcessed } from './constants';
 import { StringMapWrapper } from '../../../facade/collections';
 import { StringWrapper } from '../../../facade/primitives';
+import { Renderer } from '../../render/api';
 /**
  *
  * @param element
  * @param staticAttributes
+ * @param renderer
  * @private
  */
-export function _setHostStaticAttributes( element: ng.IAugmentedJQuery, staticAttributes: StringMap ): void {
-  element.attr( staticAttributes );
+export function _setHostStaticAttributes(
+  element: ng.IAugmentedJQuery,
+  staticAttributes: StringMap,
+  renderer: Renderer
+): void {
+  StringMapWrapper.forEach( staticAttributes, ( value: string, attrName: string ) => {
+    renderer.setElementAttribute( element[ 0 ], attrName, value );
+  } );
 }
 
 /**
@@ -17,6 +25,7 @@ export function _setHostStaticAttributes( element: ng.IAugmentedJQuery, staticAt
  * @param element
  * @param ctrl
  * @param hostBindings
+ * @param renderer
  * @returns {Array}
  * @internal
  * @private
@@ -25,7 +34,8 @@ export function _setHostBindings(
   scope: ng.IScope,
   element: ng.IAugmentedJQuery,
   ctrl: any,
-  hostBindings: HostBindingsProcessed
+  hostBindings: HostBindingsProcessed,
+  renderer: Renderer
 ): Function[] {
 
   // setup @HostBindings
@@ -57,13 +67,13 @@ export function _setHostBindings(
             ( newValue )=> {
 
               if ( type === 'classes' ) {
-                element.toggleClass( keyToSet, newValue )
+                renderer.setElementClass( element[ 0 ], keyToSet, newValue )
               }
               if ( type === 'attributes' ) {
-                element.attr( keyToSet, newValue )
+                renderer.setElementAttribute( element[ 0 ], keyToSet, newValue )
               }
               if ( type === 'properties' ) {
-                StringMapWrapper.setValueInPath( element[ 0 ], keyToSet, newValue )
+                renderer.setElementProperty( element[ 0 ], keyToSet, newValue )
               }
             }
           )
@@ -84,6 +94,7 @@ export function _setHostBindings(
  * @param element
  * @param ctrl
  * @param hostListeners
+ * @param renderer
  * @internal
  * @private
  */
@@ -91,7 +102,8 @@ export function _setHostListeners(
   scope: ng.IScope,
   element: ng.IAugmentedJQuery,
   ctrl: any,
-  hostListeners: HostListenersProcessed
+  hostListeners: HostListenersProcessed,
+  renderer: Renderer
 ): void {
 
   StringMapWrapper.forEach( hostListeners, _registerHostListener );
@@ -101,12 +113,11 @@ export function _setHostListeners(
     const [methodName,...methodParams] = cbArray;
     const { event, target } = _getTargetAndEvent( eventKey, element );
 
-    // console.log( event );
-    target.on( event, eventHandler );
+    const unlisten = renderer.listen( target[ 0 ], event, eventHandler );
 
     // global event
     if ( target !== element ) {
-      scope.$on( '$destroy', () => target.off( event as any, eventHandler ) );
+      scope.$on( '$destroy', () => unlisten() );
     }
 
     function eventHandler( evt ) {
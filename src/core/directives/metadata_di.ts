@@ -2,6 +2,48 @@ import { Type, stringify, isString } from '../../facade/lang';
 import { resolveForwardRef } from '../di/forward_ref';
 import { DependencyMetadata } from '../di/metadata';
 
+/**
+ * Specifies that a constant attribute value should be injected.
+ *
+ * The directive can inject constant string literals of host element attributes.
+ * Value is read once from `$attrs` when the directive is instantiated, so there are no watchers created for it
+ * and it is not part of `ngOnChanges`.
+ *
+ * ### Example
+ *
+ * Suppose we have an `<input>` element and want to know its `type`.
+ *
+ * ```html
+ * <input type="text">
+ * ```
+ *
+ * A decorator can inject string literal `text` like so:
+ *
+ * ```typescript
+ * @Directive({
+ *   selector: 'input'
+ * })
+ * class InputDirective {
+ *   constructor(@Attribute('type') type: string) {
+ *     // type would be 'text' in this example
+ *   }
+ * }
+ * ```
+ */
+export class AttributeMetadata extends DependencyMetadata {
+  constructor( public attributeName: string ) { super(); }
+
+  get token(): AttributeMetadata {
+    // Normally one would default a token to a type of an injected value but here
+    // the type of a variable is "string" and we can't use primitive type as a return value
+    // so we use instance of Attribute instead. This doesn't matter much in practice as arguments
+    // with @Attribute annotation are resolved from $attrs by directive controller factory.
+    return this;
+  }
+
+  toString(): string { return `@Attribute(${stringify(this.attributeName)})`; }
+}
+
 /**
  * Declares an injectable parameter to be a live list of directives or variable
  * bindings from the content children of a directive.
@@ -116,14 +158,16 @@ export class QueryMetadata extends DependencyMetadata {
    */
   descendants: boolean;
   first: boolean;
+  private _read: any;
 
   constructor(
     private _selector: Type | string,
-    {descendants = false, first = false}: {descendants?: boolean, first?: boolean} = {}
+    {descendants = false, first = false, read = null}: {descendants?: boolean, first?: boolean, read?: any} = {}
   ) {
     super();
     this.descendants = descendants;
     this.first = first;
+    this._read = read;
   }
 
   /**
@@ -136,6 +180,16 @@ export class QueryMetadata extends DependencyMetadata {
    */
   get selector() { return resolveForwardRef(this._selector); }
 
+  /**
+   * what is read from every queried element:
+   * - `ElementRef` - the element itself
+   * - directive/component `Type` - controller of that directive on the element
+   * - `string` - controller of directive with the same `exportAs` on the element
+   *
+   * if not set, controller of queried Type or jqLite element for string selector is read
+   */
+  get read() { return resolveForwardRef(this._read); }
+
   /**
    * whether this is querying for a variable binding or a directive.
    */
@@ -173,10 +227,21 @@ export class QueryMetadata extends DependencyMetadata {
  *   }
  * }
  * ```
+ *
+ * `descendants` defaults to `true` ( unlike Angular 2 ), so all content descendants are queried same as before
+ * the option was introduced. Use `{ descendants: false }` to query only direct children of `<ng-content>`,
+ * so items of nested lists/trees are not included:
+ *
+ * ```
+ * @ContentChildren(TreeNodeComponent, { descendants: false }) nodes: QueryList<TreeNodeComponent>;
+ * ```
  */
 export class ContentChildrenMetadata extends QueryMetadata {
-  constructor( _selector: Type | string, { descendants = false}: {descendants?: boolean} = {} ) {
-    super( _selector, { descendants: descendants } );
+  constructor(
+    _selector: Type | string,
+    { descendants = true, read = null }: {descendants?: boolean, read?: any} = {}
+  ) {
+    super( _selector, { descendants: descendants, read: read } );
   }
 }
 
@@ -201,8 +266,8 @@ export class ContentChildrenMetadata extends QueryMetadata {
  * ```
  */
 export class ContentChildMetadata extends QueryMetadata {
-  constructor( _selector: Type | string ) {
-    super( _selector, { descendants: true, first: true } );
+  constructor( _selector: Type | string, { read = null }: {read?: any} = {} ) {
+    super( _selector, { descendants: true, first: true, read: read } );
   }
 }
 
@@ -244,9 +309,9 @@ export class ContentChildMetadata extends QueryMetadata {
 export class ViewQueryMetadata extends QueryMetadata {
   constructor(
     _selector: Type | string,
-    {descendants = false, first = false}: {descendants?: boolean, first?: boolean} = {}
+    {descendants = false, first = false, read = null}: {descendants?: boolean, first?: boolean, read?: any} = {}
   ) {
-    super( _selector, { descendants: descendants, first: first } );
+    super( _selector, { descendants: descendants, first: first, read: read } );
   }
 
   /**
@@ -279,8 +344,8 @@ export class ViewQueryMetadata extends QueryMetadata {
  * ```
  */
 export class ViewChildrenMetadata extends ViewQueryMetadata {
-  constructor( _selector: Type | string ) {
-    super( _selector, { descendants: true } );
+  constructor( _selector: Type | string, { read = null }: {read?: any} = {} ) {
+    super( _selector, { descendants: true, read: read } );
   }
 }
 
@@ -307,7 +372,7 @@ export class ViewChildrenMetadata extends ViewQueryMetadata {
  * ```
  */
 export class ViewChildMetadata extends ViewQueryMetadata {
-  constructor(_selector: Type | string) {
-    super(_selector, {descendants: true, first: true});
+  constructor( _selector: Type | string, { read = null }: {read?: any} = {} ) {
+    super( _selector, { descendants: true, first: true, read: read } );
   }
 }
@@ -1,6 +1,7 @@
 import { Type } from '../../facade/lang';
 import { InjectableMetadata } from '../di/metadata';
 import { ChangeDetectionStrategy } from '../change_detection/constants';
+import { ViewEncapsulation } from './styles/constants';
 
 export type RouteConfig = RouteDefinition[];
 export type RouteDefinition = {
@@ -938,13 +939,31 @@ export class ComponentMetadata extends DirectiveMetadata {
   template: string;
   styleUrls: string[];
   styles: string[];
+
+  /**
+   * Specify how the template and the styles should be encapsulated.
+   * The default is {@link ViewEncapsulation#Emulated `ViewEncapsulation.Emulated`}, so `styles` and `styleUrls`
+   * apply only to the component host element and its template.
+   * With {@link ViewEncapsulation#None `ViewEncapsulation.None`} styles are inserted as global styles.
+   *
+   * ```
+   * @Component({
+   *   selector: 'my-hello',
+   *   template: `<h1>Hello</h1>`,
+   *   styles: [ `:host { display: block } h1 { color: red }` ],
+   *   encapsulation: ViewEncapsulation.Emulated
+   * })
+   * class MyHelloComponent {}
+   * ```
+   */
+  encapsulation: ViewEncapsulation;
   directives: Array<Type | any[]>;
   pipes: Array<Type | any[]>;
 
   constructor({
     selector, inputs, attrs, outputs, host, exportAs, moduleId, providers, viewProviders,
     changeDetection = ChangeDetectionStrategy.Default, queries, templateUrl, template,
-    styleUrls, styles, directives, pipes, legacy
+    styleUrls, styles, encapsulation = ViewEncapsulation.Emulated, directives, pipes, legacy
   }: {
     selector?: string,
     inputs?: string[],
@@ -961,6 +980,7 @@ export class ComponentMetadata extends DirectiveMetadata {
     template?: string,
     styleUrls?: string[],
     styles?: string[],
+    encapsulation?: ViewEncapsulation,
     directives?: Array<Type | any[]>,
     pipes?: Array<Type | any[]>,
     legacy?: LegacyDirectiveDefinition
@@ -983,6 +1003,7 @@ export class ComponentMetadata extends DirectiveMetadata {
     this.template = template;
     this.styleUrls = styleUrls;
     this.styles = styles;
+    this.encapsulation = encapsulation;
     this.directives = directives;
     this.pipes = pipes;
     this.moduleId = moduleId;
@@ -1,4 +1,15 @@
-import { global, isString, noop, isType, isJsObject, getFuncName, isFunction } from '../../../facade/lang';
+import {
+  global,
+  isString,
+  noop,
+  isType,
+  isJsObject,
+  getFuncName,
+  isFunction,
+  isBlank,
+  isPresent
+} from '../../../facade/lang';
+import { StringWrapper } from '../../../facade/primitives';
 import { ListWrapper, StringMapWrapper } from '../../../facade/collections';
 import { ChildrenChangeHook } from '../../linker/directive_lifecycle_interfaces';
 import { reflector } from '../../reflection/reflection';
@@ -13,6 +24,25 @@ import {
   ContentChildrenMetadata
 } from '../metadata_di';
 import { DirectiveCtrl } from '../constants';
+import { TRANSCLUDE_HOST_SELECTORS } from '../content/content_resolver';
+import { QueryList } from '../../linker/query_list';
+import { ElementRef } from '../../linker/element_ref';
+import {
+  _resolveExportAs,
+  _resolveTemplateRef,
+  _parseRefsAttr,
+  REF_DIRECTIVE_ATTR,
+  TemplateRef
+} from '../refs/refs_resolver';
+
+/**
+ * prefix of explicit CSS selector query `@ViewChild('css:div')`, which skips template reference lookup
+ */
+const CSS_QUERY_PREFIX = 'css:';
+/**
+ * matches comma separated list of template reference variable names `myInput` or `first, second`
+ */
+const QUERY_REF_NAMES_RE = /^\s*[a-zA-Z_$][\w$]*(\s*,\s*[a-zA-Z_$][\w$]*)*\s*$/;
 
 
 /**
@@ -94,6 +124,15 @@ export function _setupQuery(
   // if they are rendered dynamically/async
   ctrl._ngOnChildrenChanged = _ngOnChildrenChanged.bind(ctrl);
 
+  // complete QueryList changes streams, so subscribers don't leak
+  scope.$on( '$destroy', () => {
+    StringMapWrapper.forEach( queries, ( meta: QueryMetadata|ViewQueryMetadata, key: string ) => {
+      if ( ctrl[ key ] instanceof QueryList ) {
+        ctrl[ key ].destroy();
+      }
+    } );
+  } );
+
 
   /**
    * get all callbacks which will be executed withing $scope.$evalAsync,
@@ -138,19 +177,22 @@ export function _setupQuery(
     return _onChildrenChangedCbMap;
 
     function _resolveViewChild( element: ng.IAugmentedJQuery, ctrl: any, key: string, meta: QueryMetadata|ViewQueryMetadata ) {
-      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.view, true );
+      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.view, true, { read: meta.read } );
     }
 
     function _resolveContentChild( element: ng.IAugmentedJQuery, ctrl: any, key: string, meta: QueryMetadata|ViewQueryMetadata ) {
-      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.content, true );
+      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.content, true, { read: meta.read } );
     }
 
     function _resolveViewChildren(element: ng.IAugmentedJQuery, ctrl: any, key: string, meta: QueryMetadata|ViewQueryMetadata) {
-      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.view );
+      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.view, false, { read: meta.read } );
     }
 
     function _resolveContentChildren(element: ng.IAugmentedJQuery, ctrl: any, key: string, meta: QueryMetadata|ViewQueryMetadata) {
-      return _resolveChildrenFactory( element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.content );
+      return _resolveChildrenFactory(
+        element, ctrl, key, meta.selector, DOM_RESOLVER_TYPES.content, false,
+        { read: meta.read, descendants: meta.descendants }
+      );
     }
 
   }
@@ -158,15 +200,23 @@ export function _setupQuery(
 }
 /**
  * resolving DOM instances by provided @ContentChild(ref)/@ViewChild(ref)
- * - if querying for string, we handle it as a selector and return jqLite instances
+ * - if querying for string, we handle it as a CSS selector and return jqLite instances. Only if the string is a list
+ * of template reference variable names `'myInput'`|`'first, second'` and there are elements with matching references,
+ * we return value of the reference ( component/directive controller or DOM element ) instead
+ * - `'css:selector'` is always handled as a CSS selector
  * - if querying for Type( directive | component ) we get proper selector and controller from
  * provided Type reference, query the DOM and return that controller instance if exists, otherwise null
+ * - @ContentChildren/@ViewChildren results are set to {@link QueryList}, which notifies its `changes` subscribers
+ * - `read` overrides what is read from queried elements, see {@link _readChild}
+ * - `descendants: false` limits content query to direct children of `ng-transclude`
  * @param element
  * @param ctrl
  * @param key
  * @param cssSelector
  * @param type
  * @param firstOnly
+ * @param read
+ * @param descendants
  * @returns {function(): void}
  * @private
  */
@@ -176,10 +226,14 @@ export function _resolveChildrenFactory(
   key: string,
   cssSelector: string|Type,
   type: string,
-  firstOnly: boolean = false
+  firstOnly: boolean = false,
+  { read = null, descendants = true }: { read?: any, descendants?: boolean } = {}
 ) {
 
   const { selector, childCtrlName } = _getSelectorAndCtrlName( cssSelector );
+  const refNames = _getQueryRefNames( cssSelector );
+  // same QueryList instance is kept on controller, so subscriptions to its changes survive query recompute
+  const queryList = new QueryList<any>();
 
   return _childResolver;
 
@@ -188,30 +242,139 @@ export function _resolveChildrenFactory(
     if ( firstOnly ) {
 
       ctrl[ key ] = null;
-      const child = _getChildElements( element, selector, type, firstOnly );
-      const childInstance = isString( cssSelector )
-        ? child
-        : getControllerOnElement( child, childCtrlName );
-      ctrl[ key ] = childInstance;
+      const [refChild] = _getRefChildren();
+      const child = isPresent( refChild )
+        ? refChild
+        : _getChildElements( element, selector, type, firstOnly, descendants );
+      ctrl[ key ] = _readChild( child, cssSelector, childCtrlName, read );
 
     } else {
 
-      ctrl[ key ] = [];
-      const children = _getChildElements( element, selector, type );
-      if ( isString( cssSelector ) ) {
-        ctrl[ key ] = children;
-        return;
-      }
-      for ( let i = 0; i < children.length; i++ ) {
+      const results = [];
+      const refChildren = _getRefChildren();
+      const children = refChildren.length
+        ? refChildren
+        : _toList( _getChildElements( element, selector, type, false, descendants ) );
+      for ( const child of children ) {
+
+        results.push( _readChild( child, cssSelector, childCtrlName, read ) );
 
-        ctrl[ key ].push(
-          getControllerOnElement( (children.eq( i ) as ng.IAugmentedJQuery ), childCtrlName )
-        );
       }
 
+      queryList.reset( results );
+      ctrl[ key ] = queryList;
+      queryList.notifyOnChanges();
+
+    }
+  }
+
+  // every element with template reference has the ref attribute, so we need to filter those with queried names
+  function _getRefChildren(): ng.IAugmentedJQuery[] {
+    if ( !refNames.length ) {
+      return [];
     }
+    return _toList( _getChildElements( element, `[${ REF_DIRECTIVE_ATTR }]`, type, false, descendants ) )
+      .filter( ( child ) => isPresent( _findQueriedRef( child, refNames ) ) );
+  }
+
+}
+
+/**
+ * parses template reference variable names from string query selector:
+ * - `'myInput'`, `'first, second'` may be template reference variable names, they are used only if there are elements
+ * with matching references, otherwise they are handled as CSS selector ( `'div'`, `'h6'` )
+ * - `'css:div'` is explicit CSS selector
+ * - any other string can't be reference name, so it's handled as CSS selector ( `'.item'`, `'[my-attr]'`, `'my-item'` )
+ * @param selector
+ * @returns {string[]} empty if the selector is not a reference query
+ * @private
+ */
+export function _getQueryRefNames( selector: string|Type ): string[] {
+
+  if ( !isString( selector ) || !QUERY_REF_NAMES_RE.test( selector ) ) {
+    return [];
   }
 
+  return (selector as string).split( ',' ).map( ( name ) => name.trim() );
+
+}
+
+/**
+ * finds the first template reference on element which matches one of queried names.
+ * Attribute names are lowercased by html parser, so names are compared case insensitive
+ * @param $child
+ * @param refNames
+ * @returns {TemplateRef}
+ * @private
+ */
+function _findQueriedRef( $child: ng.IAugmentedJQuery, refNames: string[] ): TemplateRef {
+
+  const queriedNames = refNames.map( ( name ) => name.toLowerCase() );
+  const [ref] = _parseRefsAttr( $child.attr( REF_DIRECTIVE_ATTR ) )
+    .filter( ( { name } ) => ListWrapper.contains( queriedNames, name.toLowerCase() ) );
+
+  return ref;
+
+}
+
+function _toList( $elements: ng.IAugmentedJQuery ): ng.IAugmentedJQuery[] {
+
+  const list = [];
+  for ( let i = 0; i < $elements.length; i++ ) {
+    list.push( $elements.eq( i ) );
+  }
+  return list;
+
+}
+
+/**
+ * reads query result from queried element:
+ * - `read` is not set: value of template reference if querying for reference names, jqLite element if querying for
+ * CSS selector, otherwise controller of queried Type
+ * - `read` is `ElementRef`: {@link ElementRef} of the element
+ * - `read` is `string`: controller of directive with the same `exportAs` on the element
+ * - `read` is `Type`: controller of that directive/component on the element
+ * @param $child
+ * @param cssSelector
+ * @param childCtrlName
+ * @param read
+ * @returns {any}
+ * @private
+ */
+export function _readChild( $child: ng.IAugmentedJQuery, cssSelector: string|Type, childCtrlName: string, read: any ): any {
+
+  if ( isBlank( read ) ) {
+
+    if ( !isString( cssSelector ) ) {
+      return getControllerOnElement( $child, childCtrlName );
+    }
+
+    // element queried by CSS selector doesn't have matching reference
+    const refNames = _getQueryRefNames( cssSelector );
+    const ref = isPresent( $child ) && refNames.length ? _findQueriedRef( $child, refNames ) : null;
+
+    if ( isPresent( ref ) ) {
+      return _resolveTemplateRef( $child, ref );
+    }
+
+    return isPresent( $child ) ? $child : null;
+
+  }
+
+  if ( !$child || !$child.length ) {
+    return null;
+  }
+
+  if ( read === ElementRef ) {
+    return ElementRef.create( $child );
+  }
+
+  if ( isString( read ) ) {
+    return _resolveExportAs( $child, read );
+  }
+
+  return getControllerOnElement( $child, getInjectableName( read ) );
+
 }
 
 /**
@@ -220,6 +383,7 @@ export function _resolveChildrenFactory(
  * @param selector
  * @param type
  * @param firstOnly
+ * @param descendants if `false` only direct children of `ng-transclude` are queried within content
  * @returns {IAugmentedJQuery}
  * @private
  */
@@ -227,7 +391,8 @@ export function _getChildElements(
   $element: ng.IAugmentedJQuery,
   selector: string,
   type: string,
-  firstOnly: boolean = false
+  firstOnly: boolean = false,
+  descendants: boolean = true
 ): ng.IAugmentedJQuery {
 
   let querySelector = '';
@@ -236,10 +401,16 @@ export function _getChildElements(
     // Note: we are guarding only for first nested child inside ng-transclude
     // this would be to complicated and DOM heavy to select only selectors outside ng-transclude
     // - it should be author responsibility to not include Component view directive within <ng-transclude> and querying for them
-    querySelector = `:not(ng-transclude):not([ng-transclude]) > ${ selector }`;
+    const notTranscluded = TRANSCLUDE_HOST_SELECTORS.map( ( hostSelector ) => `:not(${ hostSelector })` ).join( '' );
+    querySelector = `${ notTranscluded } > ${ selector }`;
+  }
+  if ( type === 'content' && !descendants ) {
+    return _getDirectContentChildren( $element, selector, firstOnly );
   }
   if ( type === 'content' ) {
-    querySelector = `ng-transclude ${ selector }, [ng-transclude] ${ selector }`;
+    // content projected into any <ng-content select> slot lives within <ng-transclude ng-transclude-slot>,
+    // so slotted content children are queried same way as default slot children
+    querySelector = TRANSCLUDE_HOST_SELECTORS.map( ( hostSelector ) => `${ hostSelector } ${ selector }` ).join( ', ' );
   }
   const queryMethod = firstOnly
     ? 'querySelector'
@@ -249,6 +420,48 @@ export function _getChildElements(
 }
 
 
+/**
+ * query only direct children of `ng-transclude` hosts which belong to the element.
+ * Nested components within content have their own `ng-transclude`, so their content children are skipped
+ * @param $element
+ * @param selector
+ * @param firstOnly
+ * @returns {IAugmentedJQuery}
+ * @private
+ */
+function _getDirectContentChildren(
+  $element: ng.IAugmentedJQuery,
+  selector: string,
+  firstOnly: boolean
+): ng.IAugmentedJQuery {
+
+  const querySelector = TRANSCLUDE_HOST_SELECTORS.map( ( hostSelector ) => `${ hostSelector } > ${ selector }` ).join( ', ' );
+  const candidates: Element[] = Array.prototype.slice.call( $element[ 0 ].querySelectorAll( querySelector ) );
+  const children = candidates.filter( ( child ) => !_hasTranscludeHostAncestor( child.parentNode.parentNode, $element[ 0 ] ) );
+
+  return global.angular.element( firstOnly ? children.slice( 0, 1 ) : children );
+
+}
+
+function _hasTranscludeHostAncestor( node: Node, root: Node ): boolean {
+
+  while ( node && node !== root ) {
+    if ( _isTranscludeHost( node as Element ) ) {
+      return true;
+    }
+    node = node.parentNode;
+  }
+
+  return false;
+
+}
+
+function _isTranscludeHost( element: Element ): boolean {
+  return element.nodeType === 1 && (
+    element.nodeName.toLowerCase() === 'ng-transclude' || element.hasAttribute( 'ng-transclude' )
+  );
+}
+
 export function _getSelectorAndCtrlName( childSelector: string|Type ): {selector:string,childCtrlName:string} {
 
   const selector = _getSelector( childSelector );
@@ -266,7 +479,13 @@ export function _getSelectorAndCtrlName( childSelector: string|Type ): {selector
  */
 export function _getSelector( selector: string|Type ): string {
 
-  if ( isString( selector ) ) { return selector }
+  if ( isString( selector ) ) {
+
+    return StringWrapper.startsWith( selector, CSS_QUERY_PREFIX )
+      ? selector.substring( CSS_QUERY_PREFIX.length ).trim()
+      : selector;
+
+  }
 
   if ( isType( selector ) ) {
 
@@ -0,0 +1,204 @@
+import { isBlank, isPresent, isString } from '../../../facade/lang';
+import { StringMapWrapper } from '../../../facade/collections';
+import { reflector } from '../../reflection/reflection';
+import { DirectiveMetadata, ComponentMetadata } from '../metadata_directives';
+import { isComponent } from '../../di/provider_util';
+
+/**
+ * name of internal directive which assigns template reference variables to scope,
+ * it's registered by `bundle` together with components
+ */
+export const REF_DIRECTIVE_NAME = 'ngmRef';
+
+/**
+ * attribute created from `#name`/`ref-name` during component template compile
+ */
+export const REF_DIRECTIVE_ATTR = 'ngm-ref';
+
+/**
+ * matches template reference variable attribute `#name` or `ref-name`
+ */
+const REF_ATTR_RE = /^(?:#|ref-)(.+)$/;
+const REF_TEMPLATE_RE = /\s(?:#|ref-)[\w-]+/;
+const CONTROLLER_DATA_RE = /^\$(.+)Controller$/;
+
+export type TemplateRef = { name: string, exportAs: string };
+
+/**
+ * checks if component template may contain any template reference variable,
+ * so we can skip DOM processing during compile and ref directive registration.
+ * Templates loaded via templateUrl are unknown until compile, so they always may contain refs
+ * @param metadata
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _hasTemplateRefs( metadata: DirectiveMetadata ): boolean {
+
+  if ( !isComponent( metadata ) ) {
+    return false;
+  }
+
+  const { template, templateUrl } = metadata as ComponentMetadata;
+  return isPresent( templateUrl ) || ( isString( template ) && REF_TEMPLATE_RE.test( template ) );
+
+}
+
+/**
+ * replaces all `#name="exportAs"` and `ref-name="exportAs"` attributes within component template
+ * by `ngm-ref="name:exportAs"`, so refs are linked by {@link REF_DIRECTIVE_NAME} directive.
+ * It has to be called from DDO compile, before angular compiles template children.
+ *
+ * Attribute names are lowercased by html parser, so `#my-tabs` is available as `myTabs`.
+ * @param tElement
+ * @private
+ * @internal
+ */
+export function _parseTemplateRefs( tElement: ng.IAugmentedJQuery ): void {
+
+  const elements: Element[] = Array.prototype.slice.call( tElement[ 0 ].querySelectorAll( '*' ) );
+
+  elements.forEach( ( element ) => {
+
+    const refs = Array.prototype.slice.call( element.attributes )
+      .filter( ( attr: Attr ) => REF_ATTR_RE.test( attr.name ) )
+      .map( ( attr: Attr ) => {
+        element.removeAttribute( attr.name );
+        const [,name] = attr.name.match( REF_ATTR_RE );
+        return attr.value ? `${ _toCamelCase( name ) }:${ attr.value }` : _toCamelCase( name );
+      } );
+
+    if ( refs.length ) {
+      element.setAttribute( REF_DIRECTIVE_ATTR, refs.join( ',' ) );
+    }
+
+  } );
+
+}
+
+/**
+ * parses value of `ngm-ref` attribute
+ * @param refsAttr
+ * @returns {TemplateRef[]}
+ * @private
+ * @internal
+ */
+export function _parseRefsAttr( refsAttr: string = '' ): TemplateRef[] {
+
+  return refsAttr
+    .split( ',' )
+    .filter( Boolean )
+    .map( ( ref ) => {
+      const [name, exportAs = null] = ref.trim().split( ':' );
+      return { name, exportAs };
+    } );
+
+}
+
+/**
+ * resolves value of template reference variable:
+ * - `#name="exportAs"` is directive controller with the same `exportAs`, or angular 1 directive controller by name
+ * - `#name` is component controller if element is component host, otherwise DOM element
+ * @param $element
+ * @param ref
+ * @returns {any}
+ * @private
+ * @internal
+ */
+export function _resolveTemplateRef( $element: ng.IAugmentedJQuery, { name, exportAs }: TemplateRef ): any {
+
+  if ( isBlank( exportAs ) ) {
+    const [component] = _getElementControllers( $element )
+      .filter( ( { metadata } ) => isPresent( metadata ) && isComponent( metadata ) );
+    return isPresent( component ) ? component.instance : $element[ 0 ];
+  }
+
+  const exported = _resolveExportAs( $element, exportAs );
+  if ( isPresent( exported ) ) {
+    return exported;
+  }
+
+  throw new Error( `
+    Template reference:
+    =======================================================
+    cannot assign "#${ name }", there is no directive with exportAs "${ exportAs }" on <${ _getTagName( $element ) }>
+  ` );
+
+}
+
+/**
+ * gets controller of directive with provided `exportAs` on the element, or angular 1 directive controller by name
+ * @param $element
+ * @param exportAs
+ * @returns {any} controller instance or `null` if there is no such directive on the element
+ * @private
+ * @internal
+ */
+export function _resolveExportAs( $element: ng.IAugmentedJQuery, exportAs: string ): any {
+
+  const controllers = _getElementControllers( $element );
+
+  const [exported] = controllers.filter( ( { metadata } ) => isPresent( metadata ) && metadata.exportAs === exportAs );
+  if ( isPresent( exported ) ) {
+    return exported.instance;
+  }
+
+  const [legacyController] = controllers.filter( ( controller ) => controller.name === exportAs );
+  if ( isPresent( legacyController ) ) {
+    return legacyController.instance;
+  }
+
+  return null;
+
+}
+
+/**
+ * directive factory of {@link REF_DIRECTIVE_NAME}.
+ * Refs are assigned to the scope within which the element is linked, so they are visible to whole component template
+ * or to one repeated item when used within `ng-repeat`
+ * @returns {ng.IDirective}
+ * @private
+ * @internal
+ */
+export function _refDirectiveFactory(): ng.IDirective {
+
+  return {
+    restrict: 'A',
+    link: postLink
+  };
+
+  function postLink( scope: ng.IScope, element: ng.IAugmentedJQuery, attrs: ng.IAttributes ) {
+    _parseRefsAttr( attrs[ REF_DIRECTIVE_NAME ] ).forEach( ( ref ) => {
+      scope[ ref.name ] = _resolveTemplateRef( element, ref );
+    } );
+  }
+
+}
+
+function _getElementControllers( $element: ng.IAugmentedJQuery ): {
+  name: string,
+  instance: any,
+  metadata: DirectiveMetadata
+}[] {
+
+  const data = $element.data() || {};
+
+  return StringMapWrapper.keys( data )
+    .filter( ( key ) => CONTROLLER_DATA_RE.test( key ) && isPresent( data[ key ] ) )
+    .map( ( key ) => {
+      const [,name] = key.match( CONTROLLER_DATA_RE );
+      const instance = data[ key ];
+      const [metadata] = reflector.annotations( instance.constructor )
+        .filter( ( annotation ) => annotation instanceof DirectiveMetadata );
+      return { name, instance, metadata };
+    } );
+
+}
+
+function _getTagName( $element: ng.IAugmentedJQuery ): string {
+  return isPresent( $element[ 0 ] ) ? String( $element[ 0 ].nodeName ).toLowerCase() : '';
+}
+
+function _toCamelCase( name: string ): string {
+  return name.replace( /-(\w)/g, ( all, letter ) => letter.toUpperCase() );
+}
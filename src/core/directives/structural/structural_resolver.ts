@@ -0,0 +1,77 @@
+import { isArray, isString } from '../../../facade/lang';
+import { ListWrapper } from '../../../facade/collections';
+import { getInjectableName } from '../../di/provider';
+import { TemplateRef } from '../../linker/template_ref';
+
+/**
+ * matches start tag with all its attributes, attribute values can contain `>`
+ */
+const START_TAG_RE = /<[\w-]+(?:\s+[^\s=>"'\/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>"']+))?)*\s*\/?>/g;
+/**
+ * matches every attribute of start tag, template sugar attribute of structural directive is `*my-unless="expr"`
+ */
+const ATTR_RE = /(\s+)([^\s=>"'\/]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>"']+))?/g;
+const TEMPLATE_SUGAR_ATTR_RE = /^\*([\w-]+)$/;
+
+/**
+ * DDO of structural directive, its host element is transcluded same way as `ngIf` does it,
+ * so the element is replaced by comment and it is rendered only via `ViewContainerRef`
+ */
+export const STRUCTURAL_DIRECTIVE_DDO = Object.freeze( {
+  transclude: 'element',
+  priority: 600,
+  terminal: true,
+  $$tlb: true
+} );
+
+/**
+ * directive is structural if it injects {@link TemplateRef}
+ * @param type
+ * @returns {boolean}
+ * @private
+ * @internal
+ */
+export function _isStructuralDirective( type: Type ): boolean {
+
+  const injectables: string[] = (type as any).$inject;
+
+  return isArray( injectables ) && ListWrapper.contains( injectables, getInjectableName( TemplateRef ) );
+
+}
+
+/**
+ * replaces template sugar of structural directives within inline component template:
+ * - `<li *my-unless="$ctrl.hidden">` -> `<li my-unless [my-unless]="$ctrl.hidden">`
+ * - `<li *my-unless>` -> `<li my-unless>`
+ *
+ * so angular matches the directive by its attribute and expression is bound one way to directive input.
+ * @param template
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _replaceTemplateSugar( template: string ): string {
+
+  if ( !isString( template ) ) {
+    return template;
+  }
+
+  return template.replace( START_TAG_RE, ( startTag: string ) => {
+
+    return startTag.replace( ATTR_RE, ( attr: string, whitespace: string, name: string, value?: string ) => {
+
+      const sugarMatch = name.match( TEMPLATE_SUGAR_ATTR_RE );
+      if ( !sugarMatch ) {
+        return attr;
+      }
+
+      const [,directiveAttr] = sugarMatch;
+      return value
+        ? `${ whitespace }${ directiveAttr } [${ directiveAttr }]=${ value }`
+        : `${ whitespace }${ directiveAttr }`;
+
+    } );
+
+  } );
+
+}
@@ -0,0 +1,62 @@
+/**
+ * Defines template and style encapsulation options available for Component's {@link Component}.
+ *
+ * See {@link ComponentMetadata#encapsulation}.
+ */
+export const enum ViewEncapsulation {
+  /**
+   * Emulate `Native` scoping of styles by adding an attribute containing surrogate id to the Host
+   * Element and pre-processing the style rules provided via
+   * {@link ComponentMetadata#styles styles} or {@link ComponentMetadata#styleUrls styleUrls}, and adding the new Host Element
+   * attribute to all selectors.
+   *
+   * This is the default option.
+   */
+  Emulated,
+
+  /**
+   * Use the native encapsulation mechanism of the renderer.
+   *
+   * For the DOM this means using [Shadow DOM](https://w3c.github.io/webcomponents/spec/shadow/) and
+   * creating a ShadowRoot for Component's Host Element.
+   */
+  // Native,
+
+  /**
+   * Don't provide any template or style encapsulation.
+   */
+  None
+}
+
+/**
+ * List of possible {@link ViewEncapsulation} values.
+ */
+export var VIEW_ENCAPSULATION_VALUES = [
+  ViewEncapsulation.Emulated,
+  // ViewEncapsulation.Native,
+  ViewEncapsulation.None
+];
+
+/**
+ * attribute prefix stamped on component host element for emulated encapsulation
+ */
+export const HOST_ATTR_PREFIX = '_nghost';
+
+/**
+ * attribute prefix stamped on all component template elements for emulated encapsulation
+ */
+export const CONTENT_ATTR_PREFIX = '_ngcontent';
+
+/**
+ * attribute of `<style>` element within `<head>` which identifies styles of the component
+ */
+export const STYLE_ELEMENT_ATTR = 'ngm-styles';
+
+export type ComponentStyles = {
+  id: string,
+  encapsulation: ViewEncapsulation,
+  hostAttr: string,
+  contentAttr: string,
+  styles: string[],
+  styleUrls: string[]
+};
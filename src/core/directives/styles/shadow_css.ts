@@ -0,0 +1,274 @@
+import { StringWrapper } from '../../../facade/primitives';
+
+/**
+ * This is a limited shim for ShadowDOM css styling, ported from Angular 2 compiler.
+ *
+ * Rules are rewritten so they apply only to the elements of one component:
+ *
+ * - every compound selector gets content attribute:
+ * `div > .item` -> `div[_ngcontent-my-cmp] > .item[_ngcontent-my-cmp]`
+ * - `:host` is replaced by host attribute:
+ * `:host` -> `[_nghost-my-cmp]`, `:host(.active) h1` -> `.active[_nghost-my-cmp] h1[_ngcontent-my-cmp]`
+ * - selector parts after `/deep/` or `>>>` are not scoped, so they apply also to child components:
+ * `.list /deep/ li` -> `.list[_ngcontent-my-cmp] li`
+ * - rules within `@media`, `@supports` and `@document` are scoped,
+ * other at-rules ( `@keyframes`, `@font-face`, `@page` ... ) are left untouched
+ *
+ * @param cssText
+ * @param contentAttr attribute stamped on all elements of component template
+ * @param hostAttr attribute stamped on component host element
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _shimCssText( cssText: string, contentAttr: string, hostAttr: string ): string {
+
+  return _scopeRules( _stripComments( cssText ), contentAttr, hostAttr );
+
+}
+
+const COMMENT_RE = /\/\*[\s\S]*?\*\//g;
+const DEEP_RE = /\s*(?:\/deep\/|>>>)\s*/;
+const HOST_RE = /:host(?:\(((?:\([^)(]*\)|[^)(]*)+?)\))?/g;
+const HOST_WITH_ARGS_RE = /:host\(((?:\([^)(]*\)|[^)(]*)+?)\)/;
+const SCOPED_AT_RULES = [ '@media', '@supports', '@document' ];
+const COMBINATORS = [ ' ', '\n', '\t', '\r', '>', '+', '~' ];
+
+function _stripComments( cssText: string ): string {
+  return cssText.replace( COMMENT_RE, '' );
+}
+
+function _scopeRules( cssText: string, contentAttr: string, hostAttr: string ): string {
+
+  return _processRules( cssText, ( selector: string, content: string ) => {
+
+    const trimmedSelector = selector.trim();
+
+    if ( trimmedSelector.charAt( 0 ) !== '@' ) {
+      const scopedSelector = _scopeSelector( trimmedSelector, contentAttr, hostAttr );
+      return `${ _getLeadingWhitespace( selector ) }${ scopedSelector } {${ content }}`;
+    }
+
+    const isScopedAtRule = SCOPED_AT_RULES.some( ( atRule ) => StringWrapper.startsWith( trimmedSelector, atRule ) );
+
+    return isScopedAtRule
+      ? `${ selector }{${ _scopeRules( content, contentAttr, hostAttr ) }}`
+      : `${ selector }{${ content }}`;
+
+  } );
+
+}
+
+/**
+ * walks css rules and replaces every `selector { content }` block by result of callback,
+ * statements without block ( `@import`, `@charset` ) are kept as they are
+ * @param cssText
+ * @param ruleCallback
+ * @returns {string}
+ */
+function _processRules( cssText: string, ruleCallback: ( selector: string, content: string ) => string ): string {
+
+  let result = '';
+  let index = 0;
+
+  while ( index < cssText.length ) {
+
+    const blockStart = cssText.indexOf( '{', index );
+    const statementEnd = cssText.indexOf( ';', index );
+
+    if ( blockStart === -1 ) {
+      result += cssText.substring( index );
+      break;
+    }
+
+    if ( statementEnd !== -1 && statementEnd < blockStart ) {
+      result += cssText.substring( index, statementEnd + 1 );
+      index = statementEnd + 1;
+      continue;
+    }
+
+    const blockEnd = _findBlockEnd( cssText, blockStart );
+
+    result += ruleCallback( cssText.substring( index, blockStart ), cssText.substring( blockStart + 1, blockEnd ) );
+    index = blockEnd + 1;
+
+  }
+
+  return result;
+
+}
+
+function _findBlockEnd( cssText: string, blockStart: number ): number {
+
+  let depth = 0;
+
+  for ( let i = blockStart; i < cssText.length; i++ ) {
+    const char = cssText.charAt( i );
+    if ( char === '{' ) {
+      depth++;
+    }
+    if ( char === '}' ) {
+      depth--;
+      if ( depth === 0 ) {
+        return i;
+      }
+    }
+  }
+
+  return cssText.length;
+
+}
+
+function _scopeSelector( selector: string, contentAttr: string, hostAttr: string ): string {
+
+  return _splitSelectorList( selector )
+    .reduce( ( acc, part ) => [ ...acc, ..._expandHostArgs( part ) ], [] as string[] )
+    .map( ( part ) => _scopeComplexSelector( part, contentAttr, hostAttr ) )
+    .join( ', ' );
+
+}
+
+/**
+ * `:host(.a, .b) h1` is the same as `:host(.a) h1, :host(.b) h1`
+ * @param selector
+ * @returns {string[]}
+ */
+function _expandHostArgs( selector: string ): string[] {
+
+  const match = selector.match( HOST_WITH_ARGS_RE );
+  if ( !match ) {
+    return [ selector ];
+  }
+
+  const hostArgs = _splitSelectorList( match[ 1 ] );
+  if ( hostArgs.length < 2 ) {
+    return [ selector ];
+  }
+
+  return hostArgs.map( ( hostArg ) => selector.replace( match[ 0 ], `:host(${ hostArg })` ) );
+
+}
+
+function _scopeComplexSelector( selector: string, contentAttr: string, hostAttr: string ): string {
+
+  const [scopedPart, ...deepParts] = selector.split( DEEP_RE );
+  const scoped = _mapCompoundSelectors( scopedPart, ( compound ) => _scopeCompoundSelector( compound, contentAttr, hostAttr ) );
+
+  return [ scoped, ...deepParts ].join( ' ' ).trim();
+
+}
+
+function _scopeCompoundSelector( compound: string, contentAttr: string, hostAttr: string ): string {
+
+  if ( compound.indexOf( ':host' ) !== -1 ) {
+    return compound.replace( HOST_RE, ( _, hostArg = '' ) => {
+      const selector = hostArg.trim();
+      // `:host(:hover)` -> `[attr]:hover`, `:host(.active)` -> `.active[attr]`
+      return selector.charAt( 0 ) === ':'
+        ? `[${ hostAttr }]${ selector }`
+        : `${ selector }[${ hostAttr }]`;
+    } );
+  }
+
+  // attribute has to be added before pseudo classes/elements, `a:hover` -> `a[attr]:hover`
+  const pseudoIndex = _indexOfOutsideBrackets( compound, ':' );
+  return pseudoIndex === -1
+    ? `${ compound }[${ contentAttr }]`
+    : `${ compound.substring( 0, pseudoIndex ) }[${ contentAttr }]${ compound.substring( pseudoIndex ) }`;
+
+}
+
+/**
+ * calls mapper on every compound selector of complex selector, combinators are left as they are
+ * @param selector
+ * @param mapper
+ * @returns {string}
+ */
+function _mapCompoundSelectors( selector: string, mapper: ( compound: string ) => string ): string {
+
+  let result = '';
+  let compound = '';
+  let depth = 0;
+
+  for ( let i = 0; i < selector.length; i++ ) {
+
+    const char = selector.charAt( i );
+
+    if ( char === '[' || char === '(' ) {
+      depth++;
+    }
+    if ( char === ']' || char === ')' ) {
+      depth--;
+    }
+
+    if ( depth === 0 && COMBINATORS.indexOf( char ) !== -1 ) {
+      result += compound ? mapper( compound ) : '';
+      result += char;
+      compound = '';
+      continue;
+    }
+
+    compound += char;
+
+  }
+
+  return result + (compound ? mapper( compound ) : '');
+
+}
+
+function _splitSelectorList( selector: string ): string[] {
+
+  const parts: string[] = [];
+  let part = '';
+  let depth = 0;
+
+  for ( let i = 0; i < selector.length; i++ ) {
+
+    const char = selector.charAt( i );
+
+    if ( char === '[' || char === '(' ) {
+      depth++;
+    }
+    if ( char === ']' || char === ')' ) {
+      depth--;
+    }
+
+    if ( depth === 0 && char === ',' ) {
+      parts.push( part.trim() );
+      part = '';
+      continue;
+    }
+
+    part += char;
+
+  }
+
+  return [ ...parts, part.trim() ].filter( Boolean );
+
+}
+
+function _indexOfOutsideBrackets( selector: string, searchChar: string ): number {
+
+  let depth = 0;
+
+  for ( let i = 0; i < selector.length; i++ ) {
+    const char = selector.charAt( i );
+    if ( char === '[' || char === '(' ) {
+      depth++;
+    }
+    if ( char === ']' || char === ')' ) {
+      depth--;
+    }
+    if ( depth === 0 && char === searchChar ) {
+      return i;
+    }
+  }
+
+  return -1;
+
+}
+
+function _getLeadingWhitespace( value: string ): string {
+  const [whitespace] = value.match( /^\s*/ );
+  return whitespace;
+}
@@ -0,0 +1,118 @@
+import { isPresent } from '../../../facade/lang';
+import { ComponentMetadata } from '../metadata_directives';
+import {
+  ViewEncapsulation,
+  ComponentStyles,
+  HOST_ATTR_PREFIX,
+  CONTENT_ATTR_PREFIX,
+  STYLE_ELEMENT_ATTR
+} from './constants';
+import { _shimCssText } from './shadow_css';
+
+/**
+ * creates styles configuration for component, returns null if component has no styles
+ * @param id unique component id used for encapsulation attributes
+ * @param metadata
+ * @param assetsPath path resolved from moduleId, `styleUrls` are relative to it
+ * @returns {ComponentStyles}
+ * @private
+ * @internal
+ */
+export function _createComponentStyles( id: string, metadata: ComponentMetadata, assetsPath: string ): ComponentStyles {
+
+  const { styles = [], styleUrls = [], encapsulation = ViewEncapsulation.Emulated } = metadata;
+
+  if ( !styles.length && !styleUrls.length ) {
+    return null;
+  }
+
+  const isEmulated = encapsulation === ViewEncapsulation.Emulated;
+
+  return {
+    id,
+    encapsulation,
+    hostAttr: isEmulated ? `${ HOST_ATTR_PREFIX }-${ id }` : null,
+    contentAttr: isEmulated ? `${ CONTENT_ATTR_PREFIX }-${ id }` : null,
+    styles,
+    styleUrls: styleUrls.map( ( styleUrl ) => `${ assetsPath }${ styleUrl }` )
+  };
+
+}
+
+/**
+ * stamps host element and all elements of component template with encapsulation attributes.
+ * It has to be called from DDO compile, so template is already inserted, but its children are not yet compiled
+ * @param tElement
+ * @param componentStyles
+ * @private
+ * @internal
+ */
+export function _setEncapsulationAttributes( tElement: ng.IAugmentedJQuery, componentStyles: ComponentStyles ): void {
+
+  const { encapsulation, hostAttr, contentAttr } = componentStyles;
+
+  if ( encapsulation !== ViewEncapsulation.Emulated ) {
+    return;
+  }
+
+  tElement.find( '*' ).attr( contentAttr, '' );
+  tElement.attr( hostAttr, '' );
+
+}
+
+/**
+ * inserts component styles into document `<head>` just once,
+ * styles loaded from `styleUrls` are appended to the same `<style>` element when they are fetched
+ * @param $injector
+ * @param componentStyles
+ * @private
+ * @internal
+ */
+export function _insertComponentStyles( $injector: ng.auto.IInjectorService, componentStyles: ComponentStyles ): void {
+
+  const { id, styles, styleUrls } = componentStyles;
+  const document: Document = $injector.get<ng.IDocumentService>( '$document' )[ 0 ] as any;
+  const head = document.head || document.getElementsByTagName( 'head' )[ 0 ];
+
+  if ( isPresent( head.querySelector( `style[${ STYLE_ELEMENT_ATTR }="${ id }"]` ) ) ) {
+    return;
+  }
+
+  const styleElement = document.createElement( 'style' );
+  styleElement.setAttribute( STYLE_ELEMENT_ATTR, id );
+  styleElement.textContent = _compileStyles( styles, componentStyles );
+  head.appendChild( styleElement );
+
+  if ( !styleUrls.length ) {
+    return;
+  }
+
+  const $q = $injector.get<ng.IQService>( '$q' );
+  const $templateRequest = $injector.get<ng.ITemplateRequestService>( '$templateRequest' );
+
+  $q.all( styleUrls.map( ( styleUrl ) => $templateRequest( styleUrl ) ) )
+    .then( ( loadedStyles: string[] ) => {
+      styleElement.textContent = _compileStyles( [ ...styles, ...loadedStyles ], componentStyles );
+    } );
+
+}
+
+/**
+ * joins styles to one css text, for emulated encapsulation it scopes the rules by encapsulation attributes
+ * @param styles
+ * @param componentStyles
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _compileStyles( styles: string[], { encapsulation, hostAttr, contentAttr }: ComponentStyles ): string {
+
+  return styles
+    .map( ( cssText ) => {
+      return encapsulation === ViewEncapsulation.Emulated
+        ? _shimCssText( cssText, contentAttr, hostAttr )
+        : cssText;
+    } )
+    .join( '\n' );
+
+}
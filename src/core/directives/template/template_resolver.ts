@@ -0,0 +1,92 @@
+import { isString } from '../../../facade/lang';
+import { _hasContentProjection, _replaceContentProjection } from '../content/content_resolver';
+import { _replaceTemplateSugar } from '../structural/structural_resolver';
+
+/**
+ * DDO transclude property of components with `templateUrl` by template url.
+ * Angular needs to know transclusion before the template is loaded, so `<ng-content>` within templateUrl
+ * can be projected only if the transclusion was resolved from already cached template, loading not cached template
+ * with `<ng-content>` throws
+ */
+const _templateUrlTransclusions: {[templateUrl: string]: boolean | {[slotName: string]: string} | string} = {};
+
+/**
+ * preprocesses component template before angular compiles it:
+ * - `<ng-content>` projection points are turned into angular ( multi-slot ) transclusion
+ * - `*directive` template sugar into structural directive attributes
+ * @param template
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _preprocessTemplate( template: string ): string {
+
+  return _replaceTemplateSugar( _replaceContentProjection( template ) );
+
+}
+
+/**
+ * registers component templateUrl, so the template is preprocessed when it's loaded via `$templateRequest`
+ * @param templateUrl
+ * @param transclude DDO transclude property of the component
+ * @private
+ * @internal
+ */
+export function _registerTemplateUrl(
+  templateUrl: string,
+  transclude: boolean | {[slotName: string]: string} | string
+): void {
+
+  _templateUrlTransclusions[ templateUrl ] = transclude;
+
+}
+
+/**
+ * `$templateRequest` decorator which preprocesses templates of components with `templateUrl` same way as inline
+ * templates are preprocessed
+ * @param $delegate
+ * @returns {ng.ITemplateRequestService}
+ * @private
+ * @internal
+ */
+export function _templateRequestDecorator( $delegate: ng.ITemplateRequestService ): ng.ITemplateRequestService {
+
+  function templateRequest( tpl: string, ignoreRequestError?: boolean ): ng.IPromise<string> {
+
+    return $delegate( tpl, ignoreRequestError )
+      .then( ( template: string ) => _isComponentTemplateUrl( tpl ) ? _preprocessTemplateUrl( tpl, template ) : template );
+
+  }
+
+  // angular tracks pending template requests on the original service
+  Object.defineProperty( templateRequest, 'totalPendingRequests', {
+    get() { return $delegate.totalPendingRequests }
+  } );
+
+  return templateRequest as ng.ITemplateRequestService;
+
+}
+_templateRequestDecorator.$inject = [ '$delegate' ];
+
+function _isComponentTemplateUrl( tpl: string ): boolean {
+
+  return isString( tpl ) && _templateUrlTransclusions.hasOwnProperty( tpl );
+
+}
+
+function _preprocessTemplateUrl( templateUrl: string, template: string ): string {
+
+  // content would be silently lost, so it's enforced in production mode as well
+  if ( _hasContentProjection( template ) && !_templateUrlTransclusions[ templateUrl ] ) {
+    throw new Error( `
+      Content projection:
+      =======================================================
+      <ng-content> within templateUrl "${ templateUrl }" cannot be projected, because angular needs to know transclusion
+      before the template is loaded. Put the template into $templateCache before the app is bootstrapped
+      ( e.g. via your build ) or use inline template
+    ` );
+  }
+
+  return _preprocessTemplate( template );
+
+}
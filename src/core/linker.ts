@@ -8,3 +8,10 @@ export {
   OnChanges,
   DoCheck
 } from './linker/directive_lifecycle_interfaces';
+export { TemplateRef } from './linker/template_ref';
+export { ViewContainerRef } from './linker/view_container_ref';
+export { EmbeddedViewRef } from './linker/view_ref';
+export { ElementRef } from './linker/element_ref';
+export { ComponentResolver } from './linker/component_resolver';
+export { ComponentFactory, ComponentRef, ComponentCreateOptions } from './linker/component_factory';
+export { QueryList } from './linker/query_list';
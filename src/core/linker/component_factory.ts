@@ -0,0 +1,270 @@
+import { global, isBlank, isFunction, noop } from '../../facade/lang';
+import { StringMapWrapper, ListWrapper } from '../../facade/collections';
+import { StringWrapper } from '../../facade/primitives';
+import { getErrorMsg } from '../../facade/exceptions';
+import { getInjectableName } from '../di/provider';
+import { ComponentMetadata } from '../directives/metadata_directives';
+import { BINDING_MODE } from '../directives/binding/constants';
+import { _parseFields, AttrProp } from '../directives/binding/binding_parser';
+import { ElementRef } from './element_ref';
+import { EmbeddedViewRef } from './view_ref';
+
+/**
+ * host scope properties to which are host element attributes bound
+ */
+const HOST_INPUTS = '$ngmInputs';
+const HOST_OUTPUTS = '$ngmOutputs';
+
+export interface ComponentCreateOptions {
+  /**
+   * scope from which is the component host scope created, `$rootScope` is used by default
+   */
+  scope?: ng.IScope,
+  /**
+   * initial values of component `@Input`s, only inputs provided here can be updated via {@link ComponentRef#setInput}
+   */
+  inputs?: {[propName: string]: any},
+  /**
+   * handlers of component `@Output`s, they are called with emitted value
+   */
+  outputs?: {[propName: string]: ( $event?: any ) => any},
+  /**
+   * element to which is the component host element appended
+   */
+  parentElement?: Element | ng.IAugmentedJQuery
+}
+
+/**
+ * Represents an instance of a Component created via a {@link ComponentFactory}.
+ *
+ * `ComponentRef` provides access to the Component Instance as well other objects related to this
+ * Component Instance and allows you to destroy the Component Instance via the {@link #destroy} method.
+ */
+export class ComponentRef<C> {
+
+  private _location: ElementRef;
+
+  constructor(
+    private _hostView: EmbeddedViewRef,
+    private _componentType: Type,
+    private _hostScope: ng.IScope,
+    private _detachFn: ( componentRef: ComponentRef<C> ) => void
+  ) {
+    this._location = ElementRef.create( _hostView.rootNodes );
+  }
+
+  /**
+   * Location of the Host Element of this Component Instance.
+   */
+  get location(): ElementRef { return this._location }
+
+  /**
+   * The instance of the Component.
+   *
+   * NOTE: components with `templateUrl` are linked after their template is loaded,
+   * so instance is `undefined` until then
+   */
+  get instance(): C {
+    const $host = this._hostView.rootNodes;
+    return $host.controller( getInjectableName( this._componentType ) );
+  }
+
+  /**
+   * The Host View of this Component Instance, it's attached to {@link ViewContainerRef} if the component was created
+   * via {@link ViewContainerRef#createComponent}
+   */
+  get hostView(): EmbeddedViewRef { return this._hostView }
+
+  /**
+   * The type of this component (as created by a {@link ComponentFactory})
+   */
+  get componentType(): Type { return this._componentType }
+
+  get destroyed(): boolean { return this._hostView.destroyed }
+
+  /**
+   * Updates `@Input` of the component, it's set via the same binding as it would be set from template,
+   * so `ngOnChanges` is called within next digest.
+   *
+   * Only inputs provided within {@link ComponentCreateOptions#inputs} are bound to the component.
+   */
+  setInput( name: string, value: any ): void {
+
+    const inputs = this._hostScope[ HOST_INPUTS ];
+
+    if ( !inputs.hasOwnProperty( name ) ) {
+      throw new Error( getErrorMsg(
+        this._componentType,
+        `cannot set input "${ name }", only inputs provided on creation are bound: ${ Object.keys( inputs ).join( ', ' ) }`
+      ) );
+    }
+
+    inputs[ name ] = value;
+    this._hostScope.$applyAsync();
+
+  }
+
+  /**
+   * Allows to register a callback that will be called when the component is destroyed.
+   */
+  onDestroy( callback: Function ): void {
+    this._hostScope.$on( '$destroy', () => callback() );
+  }
+
+  /**
+   * Destroys the component instance and all of the data structures associated with it.
+   * Host element is removed from DOM ( or from {@link ViewContainerRef} to which it's attached ).
+   */
+  destroy(): void {
+
+    if ( this.destroyed ) {
+      return;
+    }
+
+    this._detachFn( this );
+
+  }
+
+}
+
+/**
+ * Factory which creates instances of one Component. It's obtained via {@link ComponentResolver#resolveComponent}.
+ *
+ * Component is created the same way as it would be used within template, so its host element is compiled with
+ * attributes binding provided inputs and outputs:
+ * - `@Input()` is bound one way `[my-title]="$ngmInputs.myTitle"`
+ * - `@Output()` is bound via `(on-close)="$ngmOutputs.onClose($event)"`
+ */
+export class ComponentFactory<C> {
+
+  private _selector: string;
+  private _inputs: AttrProp[];
+  private _outputs: AttrProp[];
+
+  constructor(
+    private _componentType: Type,
+    metadata: ComponentMetadata,
+    private _$compile: ng.ICompileService,
+    private _$rootScope: ng.IRootScopeService
+  ) {
+    this._selector = StringWrapper.kebabCase( getInjectableName( _componentType ) );
+    this._inputs = _parseFields( metadata.inputs );
+    this._outputs = _parseFields( metadata.outputs );
+  }
+
+  get selector(): string { return this._selector }
+
+  get componentType(): Type { return this._componentType }
+
+  /**
+   * Creates a new component with its own host scope.
+   *
+   * `cloneAttachFn` is called with the host element before it's linked, by default the host element is appended to
+   * {@link ComponentCreateOptions#parentElement} if provided
+   */
+  create(
+    options: ComponentCreateOptions = {},
+    cloneAttachFn?: ( $host: ng.IAugmentedJQuery ) => void
+  ): ComponentRef<C> {
+
+    const { scope = this._$rootScope, inputs = {}, parentElement } = options;
+    const outputs = options.outputs || {};
+
+    const hostTemplate = _createHostTemplate(
+      this._selector,
+      this._getFields( this._inputs, inputs, '@Input' ),
+      this._getFields( this._outputs, outputs, '@Output' )
+    );
+
+    const hostScope = scope.$new();
+    hostScope[ HOST_INPUTS ] = StringMapWrapper.assign( {}, inputs );
+    hostScope[ HOST_OUTPUTS ] = StringMapWrapper.assign( {}, outputs );
+
+    const attachFn = isFunction( cloneAttachFn )
+      ? cloneAttachFn
+      : _createAppendFn( parentElement );
+    const $host = this._$compile( hostTemplate )( hostScope, attachFn );
+
+    const hostView = new EmbeddedViewRef( hostScope, $host, {} );
+    const componentRef = new ComponentRef<C>( hostView, this._componentType, hostScope, _detachHostView );
+
+    hostScope.$applyAsync();
+
+    return componentRef;
+
+  }
+
+  private _getFields( fields: AttrProp[], values: {[propName: string]: any}, decoratorName: string ): AttrProp[] {
+
+    return Object.keys( values ).map( ( propName ) => {
+
+      const field = ListWrapper.find( fields, ( attrProp ) => attrProp.prop === propName );
+
+      if ( isBlank( field ) ) {
+        throw new Error( getErrorMsg(
+          this._componentType,
+          `"${ propName }" is not ${ decoratorName }() of the component, available: ${ fields.map( ( attrProp ) => attrProp.prop ).join( ', ' ) }`
+        ) );
+      }
+
+      return field;
+
+    } );
+
+  }
+
+}
+
+/**
+ * creates host element template with attributes bound to host scope for every provided input and output
+ * @param selector
+ * @param inputs
+ * @param outputs
+ * @returns {string}
+ * @private
+ * @internal
+ */
+export function _createHostTemplate( selector: string, inputs: AttrProp[], outputs: AttrProp[] ): string {
+
+  const inputAttrs = inputs.map( ( { prop, attr, type, typeByTemplate }: AttrProp ) => {
+
+    const attrName = StringWrapper.kebabCase( attr );
+    const exp = `${ HOST_INPUTS }.${ prop }`;
+
+    if ( typeByTemplate ) {
+      return `[${ attrName }]="${ exp }"`;
+    }
+
+    return type === BINDING_MODE.attr
+      ? `${ attrName }="{{ ${ exp } }}"`
+      : `${ attrName }="${ exp }"`;
+
+  } );
+  const outputAttrs = outputs.map( ( { prop, attr }: AttrProp ) => {
+    return `(${ StringWrapper.kebabCase( attr ) })="${ HOST_OUTPUTS }.${ prop }($event)"`;
+  } );
+
+  const attrs = inputAttrs.concat( outputAttrs ).map( ( attr ) => ` ${ attr }` ).join( '' );
+
+  return `<${ selector }${ attrs }></${ selector }>`;
+
+}
+
+function _createAppendFn( parentElement: Element | ng.IAugmentedJQuery ): ( $host: ng.IAugmentedJQuery ) => void {
+
+  if ( isBlank( parentElement ) ) {
+    return noop;
+  }
+
+  return ( $host: ng.IAugmentedJQuery ) => { global.angular.element( parentElement ).append( $host ) };
+
+}
+
+function _detachHostView( componentRef: ComponentRef<any> ): void {
+
+  const { hostView } = componentRef;
+
+  hostView.destroy();
+  hostView.rootNodes.remove();
+
+}
@@ -0,0 +1,77 @@
+import { getErrorMsg } from '../../facade/exceptions';
+import { Injectable, Inject } from '../di/decorators';
+import { ComponentMetadata } from '../directives/metadata_directives';
+import { DirectiveResolver } from './directive_resolver';
+import { ComponentFactory } from './component_factory';
+
+/**
+ * Low-level service for loading {@link ComponentFactory}s, which
+ * can later be used to create and render a Component instance.
+ *
+ * Use it to create components imperatively from services ( dialogs, toasts, popovers ) instead of compiling
+ * hand written templates via `$compile`, so component inputs and outputs are checked against its metadata.
+ *
+ * **NOTE:**
+ * you need to import this service and register within root component ( root module in Angular 1 terms )
+ *
+ * ```typescript
+ * @Injectable()
+ * class DialogService {
+ *
+ *   constructor(
+ *     private componentResolver: ComponentResolver,
+ *     @Inject( '$document' ) private $document: ng.IDocumentService
+ *   ) {}
+ *
+ *   open( title: string ): ComponentRef<DialogComponent> {
+ *
+ *     const componentFactory = this.componentResolver.resolveComponent( DialogComponent );
+ *     const componentRef = componentFactory.create( {
+ *       inputs: { title },
+ *       outputs: { onClose: () => componentRef.destroy() },
+ *       parentElement: this.$document.find( 'body' )
+ *     } );
+ *
+ *     return componentRef;
+ *
+ *   }
+ *
+ * }
+ *
+ * @Component({
+ *   selector: 'my-app',
+ *   template: `...`,
+ *   providers: [ ComponentResolver, DialogService ]
+ * })
+ * class AppComponent {}
+ * ```
+ *
+ * Component used by factory has to be registered within angular module same as any other component
+ * ( e.g. via `directives` of its parent component ).
+ */
+@Injectable( 'componentResolver' )
+export class ComponentResolver {
+
+  private _directiveResolver = new DirectiveResolver();
+
+  constructor(
+    @Inject( '$compile' ) private _$compile: ng.ICompileService,
+    @Inject( '$rootScope' ) private _$rootScope: ng.IRootScopeService
+  ) {}
+
+  resolveComponent<C>( componentType: Type ): ComponentFactory<C> {
+
+    const metadata = this._directiveResolver.resolve( componentType );
+
+    if ( !(metadata instanceof ComponentMetadata) ) {
+      throw new Error( getErrorMsg(
+        componentType,
+        `ComponentResolver can create only @Component, @Directive has no host element to be created`
+      ) );
+    }
+
+    return new ComponentFactory<C>( componentType, metadata as ComponentMetadata, this._$compile, this._$rootScope );
+
+  }
+
+}
@@ -148,6 +148,14 @@ function _transformInjectedDirectivesMeta( paramsMeta: ParamMetaInst[], idx: num
       return false;
     }
 
+    // directive injection needs one of @Host/@Self/@SkipSelf, pure @Optional() is optional service injection
+    const hasLocateMetadata = paramsMeta.some( param => {
+      return param instanceof HostMetadata || param instanceof SelfMetadata || param instanceof SkipSelfMetadata;
+    } );
+    if ( !hasLocateMetadata ) {
+      return false;
+    }
+
     if ( paramsMeta.length === 2 ) {
       const injectableParamCount = paramsMeta.filter( inj => inj instanceof InjectMetadata || isType( inj ) ).length;
       if ( injectableParamCount === 2 ) {
@@ -382,6 +390,8 @@ export class DirectiveResolver {
       outputs: mergedOutputs,
       host: mergedHost,
       queries: mergedQueries,
+      providers: dm.providers,
+      exportAs: dm.exportAs,
       legacy: dm.legacy
     };
 
@@ -392,8 +402,12 @@ export class DirectiveResolver {
         directiveSettings as ComponentMetadata,
         {
           moduleId: dm.moduleId,
+          viewProviders: dm.viewProviders,
           template: dm.template,
           templateUrl: dm.templateUrl,
+          styles: dm.styles,
+          styleUrls: dm.styleUrls,
+          encapsulation: dm.encapsulation,
           changeDetection: isPresent(dm.changeDetection) ?  dm.changeDetection : ChangeDetectionStrategy.Default
         }
       );
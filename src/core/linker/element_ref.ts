@@ -0,0 +1,33 @@
+import { Injectable } from '../di/decorators';
+
+/**
+ * A wrapper around a native element inside of a View.
+ *
+ * It's injectable to any Component/Directive and it holds the host element.
+ * Use it together with {@link Renderer} instead of manipulating `$element` directly, so directive can be tested
+ * without DOM and the same code can be used in Angular 2.
+ *
+ * ```typescript
+ * @Directive({ selector: '[my-highlight]' })
+ * class HighlightDirective {
+ *   constructor( private elementRef: ElementRef, private renderer: Renderer ) {}
+ *   ngOnInit() {
+ *     this.renderer.setElementStyle( this.elementRef.nativeElement, 'backgroundColor', 'yellow' );
+ *   }
+ * }
+ * ```
+ */
+@Injectable( 'elementRef' )
+export class ElementRef {
+
+  static create( $element: ng.IAugmentedJQuery ): ElementRef {
+    return new ElementRef( $element[ 0 ] );
+  }
+
+  /**
+   * The underlying native element or `null` if direct access to native elements is not supported
+   * (e.g. when the application runs in a web worker).
+   */
+  constructor( public nativeElement: any ) {}
+
+}
@@ -0,0 +1,93 @@
+import { Observable } from 'rxjs/Observable';
+import { ListWrapper } from '../../facade/collections';
+import { EventEmitter } from '../../facade/async';
+
+/**
+ * An unmodifiable list of items that ng-metadata keeps up to date when the state
+ * of the application changes.
+ *
+ * The type of object that {@link ViewChildrenMetadata} and {@link ContentChildrenMetadata} provide.
+ *
+ * Use `toArray()` to get plain array of items, e.g. within templates `ng-repeat="item in $ctrl.items.toArray()"`.
+ *
+ * Changes can be observed by subscribing to the `changes` `Observable`, it emits every time the query is
+ * recomputed ( children are added, removed or reordered ). Subscriptions are completed when the component is destroyed.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Component({...})
+ * class Container implements AfterViewInit {
+ *   @ViewChildren( ItemComponent ) items: QueryList<ItemComponent>;
+ *
+ *   ngAfterViewInit() {
+ *     this.items.changes.subscribe( ( items: QueryList<ItemComponent> ) => console.log( items.length ) );
+ *   }
+ * }
+ * ```
+ */
+export class QueryList<T> {
+
+  private _results: Array<T> = [];
+  private _emitter = new EventEmitter<QueryList<T>>();
+  private _destroyed = false;
+
+  get changes(): Observable<QueryList<T>> { return this._emitter; }
+
+  get length(): number { return this._results.length; }
+
+  get first(): T { return this._results[ 0 ]; }
+
+  get last(): T { return this._results[ this.length - 1 ]; }
+
+  /**
+   * returns a new array with the passed in function applied to each element.
+   */
+  map<U>( fn: ( item: T, index: number ) => U ): U[] { return this._results.map( fn ); }
+
+  /**
+   * returns a filtered array.
+   */
+  filter( fn: ( item: T, index: number ) => boolean ): T[] { return this._results.filter( fn ); }
+
+  /**
+   * returns a reduced value.
+   */
+  reduce<U>( fn: ( acc: U, item: T, index: number ) => U, init: U ): U { return this._results.reduce( fn, init ); }
+
+  /**
+   * executes function for each element in a query.
+   */
+  forEach( fn: ( item: T, index: number ) => void ): void { this._results.forEach( fn ); }
+
+  /**
+   * converts QueryList into an array
+   */
+  toArray(): T[] { return ListWrapper.clone( this._results ); }
+
+  toString(): string { return this._results.toString(); }
+
+  /**
+   * @internal
+   */
+  reset( results: T[] ): void { this._results = ListWrapper.clone( results ); }
+
+  /**
+   * @internal
+   */
+  notifyOnChanges(): void {
+    if ( !this._destroyed ) {
+      this._emitter.emit( this );
+    }
+  }
+
+  /**
+   * completes `changes` stream, so all subscribers are released
+   * @internal
+   */
+  destroy(): void {
+    this._destroyed = true;
+    this._emitter.complete();
+  }
+
+}
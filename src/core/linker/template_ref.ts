@@ -0,0 +1,59 @@
+import { isFunction, noop } from '../../facade/lang';
+import { StringMapWrapper } from '../../facade/collections';
+import { Injectable } from '../di/decorators';
+import { EmbeddedViewRef } from './view_ref';
+
+/**
+ * Represents an Embedded Template that can be used to instantiate Embedded Views.
+ *
+ * TemplateRef can be injected only to structural directive, which is used with `*` template sugar:
+ * `<li *my-unless="condition">`. Such directive is element transcluded ( same as `ngIf` ), so its host element
+ * is not rendered and it's replaced by comment. Template is the host element itself and it can be rendered
+ * via {@link ViewContainerRef#createEmbeddedView}.
+ *
+ * It's built on top of angular `$transclude` function.
+ */
+@Injectable( 'templateRef' )
+export class TemplateRef {
+
+  static create( $scope: ng.IScope, $transclude: ng.ITranscludeFunction ): TemplateRef {
+    return new TemplateRef( $scope, $transclude );
+  }
+
+  constructor( private _$scope: ng.IScope, private _$transclude: ng.ITranscludeFunction ) {}
+
+  /**
+   * clones template and links it with new child scope.
+   * `cloneAttachFn` is called before the clone is linked, so it can be inserted into the DOM and directives
+   * requiring parent controllers are working
+   * @param context properties assigned to created view scope
+   * @param cloneAttachFn
+   * @returns {EmbeddedViewRef}
+   */
+  createEmbeddedView(
+    context: {[key: string]: any} = {},
+    cloneAttachFn: ( clone: ng.IAugmentedJQuery ) => void = noop
+  ): EmbeddedViewRef {
+
+    if ( !isFunction( this._$transclude ) ) {
+      throw new Error( `
+        TemplateRef:
+        =======================================================
+        cannot create embedded view, template is not available.
+        TemplateRef can be injected only to structural directive used with template sugar: <li *my-directive="expr">
+      ` );
+    }
+
+    const scope = StringMapWrapper.assign( this._$scope.$new(), context );
+    let rootNodes: ng.IAugmentedJQuery;
+
+    this._$transclude( scope, ( clone: ng.IAugmentedJQuery ) => {
+      rootNodes = clone;
+      cloneAttachFn( clone );
+    } );
+
+    return new EmbeddedViewRef( scope, rootNodes, context );
+
+  }
+
+}
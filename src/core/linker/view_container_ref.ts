@@ -0,0 +1,228 @@
+import { isBlank, isPresent } from '../../facade/lang';
+import { ListWrapper, StringMapWrapper } from '../../facade/collections';
+import { Injectable } from '../di/decorators';
+import { TemplateRef } from './template_ref';
+import { EmbeddedViewRef } from './view_ref';
+import { ComponentFactory, ComponentRef, ComponentCreateOptions } from './component_factory';
+
+/**
+ * Represents a container where one or more Views can be attached.
+ *
+ * The container is anchored to the host element of structural directive, which is replaced by comment
+ * during element transclusion. Views are inserted after the anchor in the order of the container.
+ *
+ * All DOM manipulations are done via `$animate`, so views can be animated same as `ngIf`/`ngRepeat` content.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Directive({ selector: '[my-unless]' })
+ * class UnlessDirective {
+ *
+ *   @Input() set myUnless( condition: boolean ) {
+ *     if ( !condition && !this.viewContainer.length ) {
+ *       this.viewContainer.createEmbeddedView( this.templateRef );
+ *     } else if ( condition ) {
+ *       this.viewContainer.clear();
+ *     }
+ *   }
+ *
+ *   constructor( private viewContainer: ViewContainerRef, private templateRef: TemplateRef ) {}
+ *
+ * }
+ * ```
+ * ```html
+ * <p *my-unless="$ctrl.hidden">visible</p>
+ * ```
+ */
+@Injectable( 'viewContainerRef' )
+export class ViewContainerRef {
+
+  static create(
+    $element: ng.IAugmentedJQuery,
+    $animate: ng.animate.IAnimateService,
+    $scope?: ng.IScope
+  ): ViewContainerRef {
+    return new ViewContainerRef( $element, $animate, $scope );
+  }
+
+  private _views: EmbeddedViewRef[] = [];
+
+  constructor(
+    private _$anchor: ng.IAugmentedJQuery,
+    private _$animate: ng.animate.IAnimateService,
+    private _$scope?: ng.IScope
+  ) {}
+
+  /**
+   * Returns the number of Views currently attached to this container.
+   */
+  get length(): number { return this._views.length }
+
+  /**
+   * Returns the {@link EmbeddedViewRef} for the View located in this container at the specified index.
+   */
+  get( index: number ): EmbeddedViewRef { return this._views[ index ] || null }
+
+  /**
+   * Returns the index of the View, specified via {@link EmbeddedViewRef}, within the current container or
+   * `-1` if this container doesn't contain the View.
+   */
+  indexOf( viewRef: EmbeddedViewRef ): number { return this._views.indexOf( viewRef ) }
+
+  /**
+   * Instantiates an Embedded View based on the {@link TemplateRef `templateRef`} and inserts it
+   * into this container at the specified `index`.
+   *
+   * If `index` is not specified, the new View will be inserted as the last View in the container.
+   *
+   * Properties of `context` are available within the template, view has its own child scope.
+   *
+   * Returns the {@link EmbeddedViewRef} for the newly created View.
+   */
+  createEmbeddedView(
+    templateRef: TemplateRef,
+    context: {[key: string]: any} = {},
+    index: number = this.length
+  ): EmbeddedViewRef {
+
+    const insertIndex = this._checkIndex( index, this.length );
+    const $after = this._getInsertAnchor( insertIndex );
+
+    const viewRef = templateRef.createEmbeddedView( context, ( clone: ng.IAugmentedJQuery ) => {
+      this._$animate.enter( clone, $after.parent(), $after );
+    } );
+
+    ListWrapper.insert( this._views, insertIndex, viewRef );
+
+    return viewRef;
+
+  }
+
+  /**
+   * Instantiates a single {@link Component} via {@link ComponentFactory} and inserts its Host View
+   * into this container at the specified `index`.
+   *
+   * If `index` is not specified, the new View will be inserted as the last View in the container.
+   *
+   * Host scope of the component is created from scope of the directive which owns this container, if `scope` is not
+   * provided within `options`.
+   *
+   * Returns the {@link ComponentRef} of the Host View created for the newly instantiated Component.
+   */
+  createComponent<C>(
+    componentFactory: ComponentFactory<C>,
+    index: number = this.length,
+    options: ComponentCreateOptions = {}
+  ): ComponentRef<C> {
+
+    const insertIndex = this._checkIndex( index, this.length );
+    const $after = this._getInsertAnchor( insertIndex );
+
+    const componentRef = componentFactory.create(
+      StringMapWrapper.assign( { scope: this._$scope }, options ),
+      ( $host: ng.IAugmentedJQuery ) => { this._$animate.enter( $host, $after.parent(), $after ) }
+    );
+
+    ListWrapper.insert( this._views, insertIndex, componentRef.hostView );
+
+    // component can be destroyed directly via ComponentRef#destroy, so its view has to be removed from container
+    componentRef.onDestroy( () => {
+      const viewIndex = this.indexOf( componentRef.hostView );
+      if ( viewIndex !== -1 ) {
+        ListWrapper.removeAt( this._views, viewIndex );
+      }
+    } );
+
+    return componentRef;
+
+  }
+
+  /**
+   * Moves a View identified by a {@link EmbeddedViewRef} into the container at the specified `index`.
+   *
+   * Returns the inserted {@link EmbeddedViewRef}.
+   */
+  move( viewRef: EmbeddedViewRef, index: number ): EmbeddedViewRef {
+
+    const currentIndex = this.indexOf( viewRef );
+
+    if ( currentIndex === -1 ) {
+      throw new Error( `
+        ViewContainerRef:
+        =======================================================
+        cannot move view, it's not attached to this container
+      ` );
+    }
+
+    ListWrapper.removeAt( this._views, currentIndex );
+
+    const insertIndex = this._checkIndex( index, this.length );
+    const $after = this._getInsertAnchor( insertIndex );
+
+    ListWrapper.insert( this._views, insertIndex, viewRef );
+    this._$animate.move( viewRef.rootNodes, $after.parent(), $after );
+
+    return viewRef;
+
+  }
+
+  /**
+   * Destroys a View attached to this container at the specified `index`.
+   *
+   * If `index` is not specified, the last View in the container will be removed.
+   * View scope is destroyed and its DOM nodes are removed.
+   */
+  remove( index: number = this.length - 1 ): void {
+
+    const viewRef = this.get( index );
+
+    if ( isBlank( viewRef ) ) {
+      return;
+    }
+
+    ListWrapper.removeAt( this._views, index );
+    this._$animate.leave( viewRef.rootNodes );
+    viewRef.destroy();
+
+  }
+
+  /**
+   * Destroys all Views in this container.
+   */
+  clear(): void {
+
+    for ( let i = this.length - 1; i >= 0; i-- ) {
+      this.remove( i );
+    }
+
+  }
+
+  private _getInsertAnchor( index: number ): ng.IAugmentedJQuery {
+
+    const previousView = this._views[ index - 1 ];
+
+    if ( isPresent( previousView ) ) {
+      const { rootNodes } = previousView;
+      return rootNodes.eq( rootNodes.length - 1 ) as ng.IAugmentedJQuery;
+    }
+
+    return this._$anchor;
+
+  }
+
+  private _checkIndex( index: number, maxIndex: number ): number {
+
+    if ( index < 0 || index > maxIndex ) {
+      throw new Error( `
+        ViewContainerRef:
+        =======================================================
+        index ${ index } is out of bounds, container has ${ maxIndex } views
+      ` );
+    }
+
+    return index;
+
+  }
+
+}
@@ -0,0 +1,57 @@
+/**
+ * Represents an Embedded View created from {@link TemplateRef} and attached to {@link ViewContainerRef}.
+ *
+ * Every Embedded View has its own child scope, which inherits from the scope within which is the structural directive
+ * linked. Properties of `context` are assigned to that scope, so they are available within the template.
+ *
+ * ### Example
+ *
+ * ```html
+ * <li *my-repeat="items">{{ item }}</li>
+ * ```
+ *
+ * every created Embedded View has `item` within its scope, if it was created with context `{ item: 'foo' }`
+ *
+ * Host View of component created via {@link ComponentFactory} is represented by Embedded View as well,
+ * its root node is the component host element.
+ */
+export class EmbeddedViewRef {
+
+  private _destroyed = false;
+
+  constructor(
+    private _scope: ng.IScope,
+    private _rootNodes: ng.IAugmentedJQuery,
+    private _context: {[key: string]: any}
+  ) {}
+
+  /**
+   * context object of the view, its properties are assigned to the view scope
+   */
+  get context(): {[key: string]: any} { return this._context }
+
+  /**
+   * cloned and linked template elements
+   */
+  get rootNodes(): ng.IAugmentedJQuery { return this._rootNodes }
+
+  get destroyed(): boolean { return this._destroyed }
+
+  /**
+   * destroys view scope, so all its watchers and listeners are removed.
+   *
+   * View DOM nodes are removed by {@link ViewContainerRef}, so use `ViewContainerRef.remove` instead of calling
+   * this method directly
+   */
+  destroy(): void {
+
+    if ( this._destroyed ) {
+      return;
+    }
+
+    this._destroyed = true;
+    this._scope.$destroy();
+
+  }
+
+}
@@ -0,0 +1,2 @@
+export { Renderer } from './render/api';
+export { DomRenderer } from './render/dom_renderer';
@@ -0,0 +1,42 @@
+import { Injectable } from '../di/decorators';
+
+/**
+ * Renderer is an abstraction over DOM manipulations of host elements.
+ *
+ * It's injectable to any Component/Directive and it's used also for `host` bindings and listeners.
+ * Default implementation is {@link DomRenderer}, which uses jqLite. Different renderer ( for unit tests or server )
+ * can be swapped in by registering provider for it:
+ *
+ * ```typescript
+ * bundle( AppComponent, [ provide( Renderer, { useClass: TestRenderer } ) ] )
+ * ```
+ */
+@Injectable( 'renderer' )
+export abstract class Renderer {
+
+  /**
+   * sets element property, dotted path is supported: `style.fontSize`
+   */
+  abstract setElementProperty( renderElement: any, propertyName: string, propertyValue: any ): void;
+
+  /**
+   * sets element attribute, `null` removes the attribute
+   */
+  abstract setElementAttribute( renderElement: any, attributeName: string, attributeValue: any ): void;
+
+  abstract setElementClass( renderElement: any, className: string, isAdd: boolean ): void;
+
+  /**
+   * sets element style, `null` removes the style
+   */
+  abstract setElementStyle( renderElement: any, styleName: string, styleValue: string ): void;
+
+  abstract invokeElementMethod( renderElement: any, methodName: string, args?: any[] ): any;
+
+  /**
+   * registers event listener on element
+   * @returns {Function} function which removes the listener
+   */
+  abstract listen( renderElement: any, name: string, callback: Function ): Function;
+
+}
@@ -0,0 +1,61 @@
+import { global, isPresent } from '../../facade/lang';
+import { StringMapWrapper } from '../../facade/collections';
+import { getInjectableName } from '../di/provider';
+import { Renderer } from './api';
+
+/**
+ * default {@link Renderer} which manipulates DOM via jqLite, so `host` bindings behave same way as angular
+ * directives and listeners can be triggered via `triggerHandler` in unit tests
+ */
+export class DomRenderer extends Renderer {
+
+  setElementProperty( renderElement: any, propertyName: string, propertyValue: any ): void {
+    StringMapWrapper.setValueInPath( renderElement, propertyName, propertyValue );
+  }
+
+  setElementAttribute( renderElement: any, attributeName: string, attributeValue: any ): void {
+    _element( renderElement ).attr( attributeName, attributeValue );
+  }
+
+  setElementClass( renderElement: any, className: string, isAdd: boolean ): void {
+    _element( renderElement ).toggleClass( className, Boolean( isAdd ) );
+  }
+
+  setElementStyle( renderElement: any, styleName: string, styleValue: string ): void {
+    _element( renderElement ).css( styleName, isPresent( styleValue ) ? styleValue : '' );
+  }
+
+  invokeElementMethod( renderElement: any, methodName: string, args: any[] = [] ): any {
+    return renderElement[ methodName ].apply( renderElement, args );
+  }
+
+  listen( renderElement: any, name: string, callback: Function ): Function {
+    const $element = _element( renderElement );
+    $element.on( name, callback as any );
+    return () => $element.off( name, callback as any );
+  }
+
+}
+
+const DEFAULT_RENDERER = new DomRenderer();
+
+/**
+ * returns renderer registered within angular 1 $injector or default {@link DomRenderer}
+ * @param $injector
+ * @returns {Renderer}
+ * @private
+ * @internal
+ */
+export function _getRenderer( $injector: ng.auto.IInjectorService ): Renderer {
+
+  const rendererName = getInjectableName( Renderer );
+
+  return isPresent( $injector ) && $injector.has( rendererName )
+    ? $injector.get<Renderer>( rendererName )
+    : DEFAULT_RENDERER;
+
+}
+
+function _element( renderElement: any ): ng.IAugmentedJQuery {
+  return global.angular.element( renderElement );
+}
@@ -1,2 +1,2 @@
 export * from './util/decorators';
-export { bundle } from './util/bundler';
+export { bundle, bundleGraph, BundleGraph, BundleGraphNode, BundleGraphEdge } from './util/bundler';
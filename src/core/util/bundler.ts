@@ -1,15 +1,40 @@
-import { global } from '../../facade/lang';
+import { global, assertionsEnabled, isString, isArray, isType, isFunction, isBlank, isPresent, getFuncName } from '../../facade/lang';
 import { reflector } from '../reflection/reflection';
 import { ComponentMetadata } from '../directives/metadata_directives';
-import { getInjectableName, provide } from '../di/provider';
+import {
+  getInjectableName, provide, _parameterTokensFor, _dependenciesFor, _providerGetterDependenciesFor, _isOptionalToken,
+  _isAttributeToken
+} from '../di/provider';
 import {
   _isTypeRegistered, _normalizeProviders, _getNgModuleMetadataByType,
-  _registerTypeProvider
+  _registerTypeProvider, _registerOptionalDependencies, _registerInjectionTokenDefaults,
+  _assertNoCyclicDependencies, _assertNoNameCollision, resolveReflectiveProvider
 } from '../di/reflective_provider';
-import { ListWrapper } from '../../facade/collections';
+import { isProviderLiteral, createProvider, isComponent, ProviderLiteral } from '../di/provider_util';
+import { ListWrapper, StringMapWrapper } from '../../facade/collections';
+import { _hasTemplateRefs, _refDirectiveFactory, REF_DIRECTIVE_NAME } from '../directives/refs/refs_resolver';
+import { _setupCheckNoChanges } from '../change_detection/check_no_changes';
+import { _setupScopeTriggers } from '../change_detection/change_detector_ref';
+import { isDefaultChangeDetectionStrategy } from '../change_detection/constants';
+import { _templateRequestDecorator } from '../directives/template/template_resolver';
 
 export function bundle( ComponentClass: Type, otherProviders: any[] = [], NgModule?: ng.IModule ): ng.IModule {
 
+  const ngModule = _bundle( ComponentClass, otherProviders, NgModule );
+
+  // whole component tree is registered, so we can check services dependencies for cycles
+  if ( assertionsEnabled() ) {
+    _assertNoCyclicDependencies( ngModule );
+    // verification digest is set up only if it's enabled before the app runs
+    ngModule.run( [ '$rootScope', _setupCheckNoChanges ] );
+  }
+
+  return ngModule;
+
+}
+
+function _bundle( ComponentClass: Type, otherProviders: any[] = [], NgModule?: ng.IModule, owner: Type = null ): ng.IModule {
+
   // Support registering downgraded ng2 components directly
   const downgradedNgComponentName = reflector.downgradedNg2ComponentName( ComponentClass );
   if (downgradedNgComponentName) {
@@ -28,6 +53,8 @@ export function bundle( ComponentClass: Type, otherProviders: any[] = [], NgModu
   const [cmpName,cmpFactoryFn] = provide( ComponentClass );
   const { providerName, providerMethod, moduleMethod } = _getNgModuleMetadataByType( ComponentClass );
 
+  _assertNoNameCollision( ngModule, providerName, cmpName, ComponentClass, owner );
+
   if ( _isTypeRegistered( cmpName, ngModule, providerName, providerMethod ) ) {
     return ngModule;
   }
@@ -35,16 +62,21 @@ export function bundle( ComponentClass: Type, otherProviders: any[] = [], NgModu
   // @TODO register via this once requires are resolved for 3 types of attr directive from template
   // _registerTypeProvider( ngModule, ComponentClass, { moduleMethod, name: cmpName, value: cmpFactoryFn } );
   ngModule[moduleMethod]( cmpName, cmpFactoryFn );
+  _registerOptionalDependencies( ngModule, ComponentClass.$inject );
+  _registerInjectionTokenDefaults( ngModule, _parameterTokensFor( ComponentClass ) );
+  _registerRefDirective( ngModule, cmpAnnotation );
+  _registerTemplateRequestDecorator( ngModule, cmpAnnotation );
+  _registerScopeTriggers( ngModule, cmpAnnotation );
 
   // 1. process component/directive decorator providers/viewProviders/pipes
-  _normalizeProviders( ngModule, providers );
-  _normalizeProviders( ngModule, viewProviders );
-  _normalizeProviders( ngModule, pipes );
+  _normalizeProviders( ngModule, providers, ComponentClass );
+  _normalizeProviders( ngModule, viewProviders, ComponentClass );
+  _normalizeProviders( ngModule, pipes, ComponentClass );
 
 
   // step through all directives
   ListWrapper.flattenDeep(directives).forEach( ( directiveType: Type ) => {
-    bundle( directiveType, [], ngModule );
+    _bundle( directiveType, [], ngModule, ComponentClass );
   } );
 
   // 2. process otherProviders argument
@@ -55,3 +87,295 @@ export function bundle( ComponentClass: Type, otherProviders: any[] = [], NgModu
 
   return ngModule;
 }
+
+/**
+ * template reference variables are assigned by internal directive, which is registered just once
+ * and only if there is a component template which may contain them
+ * @param ngModule
+ * @param annotation
+ * @private
+ */
+function _registerRefDirective( ngModule: ng.IModule, annotation: ComponentMetadata ): void {
+
+  if ( !_hasTemplateRefs( annotation ) || _isTypeRegistered( REF_DIRECTIVE_NAME, ngModule, '$compileProvider', 'directive' ) ) {
+    return;
+  }
+
+  ngModule.directive( REF_DIRECTIVE_NAME, _refDirectiveFactory );
+
+}
+
+/**
+ * templates loaded via `templateUrl` are preprocessed by `$templateRequest` decorator, which is registered just once
+ * and only if there is a component with templateUrl
+ * @param ngModule
+ * @param annotation
+ * @private
+ */
+function _registerTemplateRequestDecorator( ngModule: ng.IModule, annotation: ComponentMetadata ): void {
+
+  if ( !(annotation instanceof ComponentMetadata) || isBlank( annotation.templateUrl ) ) {
+    return;
+  }
+
+  const isRegistered = (ngModule as any)._configBlocks.some( ( [ provider, method, [ name, decorator ] ] ) =>
+    provider === '$provide' && method === 'decorator' && decorator === _templateRequestDecorator
+  );
+
+  if ( isRegistered ) {
+    return;
+  }
+
+  ngModule.decorator( '$templateRequest', _templateRequestDecorator );
+
+}
+
+/**
+ * events from scopes outside of components ( e.g. transcluded content ) have to mark OnPush ancestors for check,
+ * so `$rootScope` is hooked by run block, which is registered just once and only if there is a component
+ * with non Default change detection
+ * @param ngModule
+ * @param annotation
+ * @private
+ */
+function _registerScopeTriggers( ngModule: ng.IModule, annotation: ComponentMetadata ): void {
+
+  if ( !(annotation instanceof ComponentMetadata) || isDefaultChangeDetectionStrategy( annotation.changeDetection ) ) {
+    return;
+  }
+
+  const isRegistered = (ngModule as any)._runBlocks.some( ( runBlock ) =>
+    isArray( runBlock ) && runBlock[ 1 ] === _setupScopeTriggers
+  );
+
+  if ( isRegistered ) {
+    return;
+  }
+
+  ngModule.run( [ '$rootScope', _setupScopeTriggers ] );
+
+}
+
+/**
+ * registration node within bundle graph
+ * - name: injectable name under which is the node registered to ngModule
+ * - kind: component|directive|pipe|service|provider|value|factory|alias|multi|module|config
+ * - source: name of class/function which provides the node, null for values, aliases and angular 1 modules
+ * - owner: injectable name of component/directive which pulled the node in, null if registered via otherProviders
+ */
+export interface BundleGraphNode {
+  name: string,
+  kind: string,
+  source: string,
+  owner: string
+}
+
+/**
+ * dependency between nodes within bundle graph
+ * - kind: dependency ( constructor/factory deps ), directive or pipe ( component `directives`/`pipes` nesting )
+ * - optional: true if dependency is injected via `@Optional()`
+ */
+export interface BundleGraphEdge {
+  from: string,
+  to: string,
+  kind: string,
+  optional?: boolean
+}
+
+/**
+ * Registration graph of component tree processed by `bundle`
+ * - `toJSON` returns plain nodes/edges StringMap, so it can be used directly with `JSON.stringify`
+ * - `toDot` returns Graphviz DOT source
+ */
+export class BundleGraph {
+
+  constructor( public nodes: BundleGraphNode[] = [], public edges: BundleGraphEdge[] = [] ) {}
+
+  getNode( name: string ): BundleGraphNode {
+    return this.nodes.filter( ( node ) => node.name === name )[ 0 ];
+  }
+
+  addNode( node: BundleGraphNode ): boolean {
+    if ( isPresent( this.getNode( node.name ) ) ) {
+      return false;
+    }
+    this.nodes.push( node );
+    return true;
+  }
+
+  addEdge( edge: BundleGraphEdge ): void {
+    const exists = this.edges.some( ( { from, to, kind } ) => from === edge.from && to === edge.to && kind === edge.kind );
+    if ( !exists ) {
+      this.edges.push( edge );
+    }
+  }
+
+  toJSON(): { nodes: BundleGraphNode[], edges: BundleGraphEdge[] } {
+    return {
+      nodes: this.nodes.map( ( node ) => StringMapWrapper.assign( {}, node ) ),
+      edges: this.edges.map( ( edge ) => StringMapWrapper.assign( {}, edge ) )
+    };
+  }
+
+  toDot( graphName = 'bundle' ): string {
+
+    const nodes = this.nodes
+      .map( ( { name, kind } ) => `  ${ _dotId( name ) } [label=${ _dotId( `${ name }\\n<${ kind }>` ) }];` );
+    const edges = this.edges
+      .map( ( { from, to, kind, optional } ) => {
+        const attrs = [
+          kind !== 'dependency' ? `label=${ _dotId( kind ) }` : '',
+          optional ? 'style=dashed' : ''
+        ].filter( ( attr ) => !!attr );
+        return `  ${ _dotId( from ) } -> ${ _dotId( to ) }${ attrs.length ? ` [${ attrs.join( ',' ) }]` : '' };`;
+      } );
+
+    return [ `digraph ${ _dotId( graphName ) } {`, ...nodes, ...edges, '}' ].join( '\n' );
+
+  }
+
+}
+
+/**
+ * Returns registration graph of all services, directives, pipes, values etc., which would be registered by
+ * `bundle( ComponentClass, otherProviders )`, including which component pulled each of them in,
+ * their constructor dependencies and `directives`/`pipes` nesting.
+ *
+ * Nothing is registered to any ngModule.
+ *
+ * @param ComponentClass
+ * @param otherProviders
+ * @returns {BundleGraph}
+ */
+export function bundleGraph( ComponentClass: Type, otherProviders: any[] = [] ): BundleGraph {
+
+  const graph = new BundleGraph();
+
+  _collectDirectiveGraph( graph, ComponentClass, null );
+  _collectProvidersGraph( graph, otherProviders, null );
+
+  return graph;
+
+}
+
+function _collectDirectiveGraph( graph: BundleGraph, DirectiveClass: Type, owner: string ): string {
+
+  const downgradedNgComponentName = reflector.downgradedNg2ComponentName( DirectiveClass );
+  if ( downgradedNgComponentName ) {
+    graph.addNode( { name: downgradedNgComponentName, kind: 'component', source: getFuncName( DirectiveClass ), owner } );
+    return downgradedNgComponentName;
+  }
+
+  const name = getInjectableName( DirectiveClass );
+  const [annotation] = reflector.annotations( DirectiveClass );
+  const kind = isComponent( annotation ) ? 'component' : 'directive';
+
+  // same as `bundle`, already processed directive is not walked again
+  if ( !graph.addNode( { name, kind, source: getFuncName( DirectiveClass ), owner } ) ) {
+    return name;
+  }
+
+  _addDependencyEdges( graph, name, _dependenciesFor( DirectiveClass ) );
+
+  const { directives = [], pipes = [], providers = [], viewProviders = [] } = annotation as ComponentMetadata;
+
+  _collectProvidersGraph( graph, providers, name );
+  _collectProvidersGraph( graph, viewProviders, name );
+  _collectProvidersGraph( graph, pipes, name );
+
+  ListWrapper.flattenDeep( pipes )
+    .filter( isType )
+    .forEach( ( pipeType: Type ) => graph.addEdge( { from: name, to: getInjectableName( pipeType ), kind: 'pipe' } ) );
+
+  ListWrapper.flattenDeep( directives ).forEach( ( directiveType: Type ) => {
+    const directiveName = _collectDirectiveGraph( graph, directiveType, name );
+    graph.addEdge( { from: name, to: directiveName, kind: 'directive' } );
+  } );
+
+  return name;
+
+}
+
+function _collectProvidersGraph(
+  graph: BundleGraph,
+  providers: Array<string|Type|ProviderLiteral|any[]>,
+  owner: string
+): void {
+
+  providers.forEach( ( providerType: any ) => {
+
+    if ( isString( providerType ) ) {
+      graph.addNode( { name: providerType, kind: 'module', source: null, owner } );
+      return;
+    }
+
+    if ( isProviderLiteral( providerType ) ) {
+      const provider = createProvider( providerType );
+      const { method, name, value } = resolveReflectiveProvider( provider );
+      const kind = provider.multi ? 'multi' : isPresent( provider.useExisting ) ? 'alias' : method;
+      const source = isFunction( provider.useClass )
+        ? getFuncName( provider.useClass )
+        : isFunction( provider.useFactory ) ? getFuncName( provider.useFactory ) : null;
+
+      // multi providers contribute to one token, so edges of every contribution belong to the same node
+      if ( graph.addNode( { name, kind, source, owner } ) || provider.multi ) {
+        _addDependencyEdges( graph, name, isFunction( value ) ? value.$inject : [] );
+      }
+      return;
+    }
+
+    if ( isType( providerType ) ) {
+      const [annotation] = reflector.annotations( providerType );
+
+      // config phase function
+      if ( isBlank( annotation ) ) {
+        const name = getFuncName( providerType );
+        if ( graph.addNode( { name, kind: 'config', source: name, owner } ) ) {
+          _addDependencyEdges( graph, name, providerType.$inject );
+        }
+        return;
+      }
+
+      const { moduleMethod } = _getNgModuleMetadataByType( providerType );
+      const name = getInjectableName( providerType );
+      const kind = moduleMethod === 'filter'
+        ? 'pipe'
+        : moduleMethod === 'directive'
+          ? isComponent( annotation ) ? 'component' : 'directive'
+          : moduleMethod;
+
+      if ( graph.addNode( { name, kind, source: getFuncName( providerType ), owner } ) ) {
+        const dependencies = kind === 'provider'
+          ? _providerGetterDependenciesFor( providerType )
+          : _dependenciesFor( providerType );
+        _addDependencyEdges( graph, name, dependencies );
+      }
+      return;
+    }
+
+    if ( isArray( providerType ) ) {
+      _collectProvidersGraph( graph, providerType, owner );
+    } else {
+      throw new Error( `InvalidProviderError(${providerType})` );
+    }
+
+  } );
+
+}
+
+function _addDependencyEdges( graph: BundleGraph, from: string, injectables: string[] = [] ): void {
+
+  injectables
+    // @Attribute() params are resolved from host element, not from $injector
+    .filter( ( injectable ) => !_isAttributeToken( injectable ) )
+    .forEach( ( injectable ) => {
+      const optional = _isOptionalToken( injectable );
+      const to = optional ? injectable.substring( 1 ) : injectable;
+      graph.addEdge( optional ? { from, to, kind: 'dependency', optional } : { from, to, kind: 'dependency' } );
+    } );
+
+}
+
+function _dotId( id: string ): string {
+  return `"${ id.replace( /"/g, '\\"' ) }"`;
+}
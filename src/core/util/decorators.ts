@@ -1,7 +1,9 @@
 import { Type, isFunction, isPresent } from '../../facade/lang';
 import { reflector } from '../reflection/reflection';
 import { InjectableMetadata } from '../di/metadata';
-import { globalKeyRegistry } from '../di/key';
+import { globalKeyRegistry, KeyRegistry } from '../di/key';
+import { DirectiveMetadata } from '../directives/metadata_directives';
+import { PipeMetadata } from '../pipes/metadata';
 
 /**
  * An interface implemented by all Angular type decorators,
@@ -28,6 +30,18 @@ export interface TypeDecorator {
 
 }
 
+// directives and pipes are registered by selector/name, so stable strategy doesn't need their id,
+// counter strategy still generates it, so numbering of generated ids stays the same
+function _needsGeneratedId( annotation: any ): boolean {
+
+  if ( !(annotation instanceof InjectableMetadata) ) {
+    return false;
+  }
+
+  return globalKeyRegistry.mode !== KeyRegistry.STABLE
+    || !(annotation instanceof DirectiveMetadata) && !(annotation instanceof PipeMetadata);
+
+}
 
 export function makeDecorator(
   AnnotationCls: any,
@@ -64,7 +78,7 @@ export function makeDecorator(
        * so we can acquire the key for AngularJS DI
        * and we have unique names after mangling our JS
        */
-      if ( annotationInstance instanceof InjectableMetadata ) {
+      if ( _needsGeneratedId( annotationInstance ) ) {
         // set id if it was explicitly provided by user @Injectable('mySvc') otherwise generate
         annotationInstance.id = annotationInstance.id || globalKeyRegistry.get( cls );
       }
@@ -1,7 +1,9 @@
 import { expect } from 'chai';
 import * as sinon from 'sinon';
 import { AsyncPipe } from '../../../src/common/pipes/async_pipe';
-import { Observable, Subscriber } from 'rxjs/Rx';
+import { Observable, Subscriber, Subject } from 'rxjs/Rx';
+import { ChangeDetectorRef, _setupChangeDetection } from '../../../src/core/change_detection/change_detector_ref';
+import { ChangeDetectionStrategy } from '../../../src/core/change_detection/constants';
 import { $Scope } from '../../utils';
 
 describe( `common/pipes/async_pipe`, () => {
@@ -63,4 +65,39 @@ describe( `common/pipes/async_pipe`, () => {
 
   } );
 
+  it( `should run local digest of Default host when Observable emits`, () => {
+
+    const clock = sandbox.useFakeTimers();
+    const markForCheck = sandbox.stub( ChangeDetectorRef.prototype, 'markForCheck' );
+    const $digest = sandbox.spy( scope, '$digest' );
+    const input$ = new Subject<number>();
+
+    asyncPipe.transform( input$, scope );
+    input$.next( 1 );
+    clock.tick( 0 );
+
+    expect( $digest.calledOnce ).to.equal( true );
+    expect( markForCheck.called ).to.equal( false );
+
+  } );
+
+  it( `should mark OnPush host for check via ChangeDetectorRef when Observable emits`, () => {
+
+    scope.$parent = new $Scope();
+    _setupChangeDetection( scope, ChangeDetectionStrategy.OnPush );
+
+    const markForCheck = sandbox.stub( ChangeDetectorRef.prototype, 'markForCheck' );
+    const input$ = new Subject<number>();
+
+    asyncPipe.transform( input$, scope );
+
+    expect( markForCheck.called ).to.equal( false );
+
+    input$.next( 1 );
+
+    expect( markForCheck.calledOnce ).to.equal( true );
+    expect( markForCheck.firstCall.thisValue[ '$scope' ] ).to.equal( scope );
+
+  } );
+
 } );
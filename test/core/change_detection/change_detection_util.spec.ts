@@ -32,6 +32,7 @@ describe( `change_detection_util`, () => {
 
       expect( actual ).to.equal( expected );
       expect( isDefaultChangeDetectionStrategy( undefined ) ).to.equal( expected );
+      expect( isDefaultChangeDetectionStrategy( ChangeDetectionStrategy.CheckAlways ) ).to.equal( expected );
 
       cd = ChangeDetectionStrategy.OnPush;
       actual = isDefaultChangeDetectionStrategy( cd );
@@ -0,0 +1,438 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import {
+  ChangeDetectorRef,
+  _setupChangeDetection,
+  _markForCheck,
+  _markAsErrored,
+  _setupScopeTriggers,
+  _getChangeDetectorMode
+} from '../../../src/core/change_detection/change_detector_ref';
+import { ChangeDetectionStrategy, ChangeDetectorState } from '../../../src/core/change_detection/constants';
+
+describe( `change_detection/change_detector_ref`, () => {
+
+  // minimal Scope implementation with children linked list and prototypal inheritance, same as angular has
+  class Scope {
+
+    $root: Scope;
+    $parent: Scope;
+    $$childHead: Scope;
+    $$childTail: Scope;
+    $$prevSibling: Scope;
+    $$nextSibling: Scope;
+    $$destroyed: boolean;
+    $$disconnected: boolean;
+    $$postDigestQueue: Function[] = [];
+    $$listeners: {[name: string]: Function[]};
+    applied: number;
+
+    constructor() {
+      this.$root = this;
+      this._init( null );
+    }
+
+    // isolate child doesn't inherit from this scope, `parent` is the one where child is linked ( transclusion )
+    $new( isolate = false, parent: Scope = this ) {
+      const child: Scope = isolate ? new Scope() : Object.create( this );
+      child.$root = parent.$root;
+      child._init( parent );
+      return child;
+    }
+
+    _init( parent: Scope ) {
+
+      this.$parent = parent;
+      this.$$childHead = this.$$childTail = this.$$nextSibling = this.$$prevSibling = null;
+      this.$$destroyed = false;
+      this.$$listeners = {};
+      this.applied = 0;
+
+      if ( !parent ) {
+        return;
+      }
+
+      this.$$prevSibling = parent.$$childTail;
+      if ( parent.$$childHead ) {
+        parent.$$childTail.$$nextSibling = this;
+        parent.$$childTail = this;
+      } else {
+        parent.$$childHead = parent.$$childTail = this;
+      }
+
+    }
+
+    $on( name: string, listener: Function ) {
+      const listeners = this.$$listeners[ name ] = this.$$listeners[ name ] || [];
+      listeners.push( listener );
+      return () => listeners.splice( listeners.indexOf( listener ), 1 );
+    }
+
+    $broadcast( name: string ) {
+      (this.$$listeners[ name ] || []).slice().forEach( ( listener ) => listener() );
+    }
+
+    $$postDigest( callback: Function ) { this.$root.$$postDigestQueue.push( callback ) }
+
+    $apply() { this.applied++ }
+
+    $applyAsync() { this.applied++ }
+
+    children(): Scope[] {
+      const children = [];
+      for ( let child = this.$$childHead; child; child = child.$$nextSibling ) {
+        children.push( child );
+      }
+      return children;
+    }
+
+    digestDone() {
+      const queue = this.$root.$$postDigestQueue;
+      while ( queue.length ) {
+        queue.shift()();
+      }
+    }
+
+  }
+
+  function isConnected( scope: Scope ): boolean {
+    return scope.$parent.children().indexOf( scope ) !== -1;
+  }
+
+  let $rootScope: Scope;
+  let parentScope: Scope;
+  let onPushScope: Scope;
+  let childScope: Scope;
+
+  beforeEach( () => {
+
+    $rootScope = new Scope();
+    parentScope = $rootScope.$new();
+    onPushScope = parentScope.$new( true );
+    childScope = onPushScope.$new();
+
+    _setupChangeDetection( onPushScope as any, ChangeDetectionStrategy.OnPush );
+
+  } );
+
+  describe( `#_setupChangeDetection`, () => {
+
+    it( `should disconnect scope from digest after it was checked once`, () => {
+
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+      $rootScope.digestDone();
+
+      expect( isConnected( onPushScope ) ).to.equal( false );
+      expect( onPushScope.$$disconnected ).to.equal( true );
+      expect( isConnected( childScope ) ).to.equal( true );
+
+    } );
+
+    it( `should reconnect scope when parent is destroyed, so it's destroyed with it`, () => {
+
+      $rootScope.digestDone();
+      parentScope.$broadcast( '$destroy' );
+
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+    } );
+
+    it( `should keep Default and CheckAlways scope connected`, () => {
+
+      const defaultScope = parentScope.$new();
+      const checkAlwaysScope = parentScope.$new();
+      _setupChangeDetection( defaultScope as any, ChangeDetectionStrategy.Default );
+      _setupChangeDetection( checkAlwaysScope as any, ChangeDetectionStrategy.CheckAlways );
+
+      $rootScope.digestDone();
+
+      expect( isConnected( defaultScope ) ).to.equal( true );
+      expect( isConnected( checkAlwaysScope ) ).to.equal( true );
+
+    } );
+
+    it( `should hook scope triggers of Default scope only if it has OnPush ancestor`, () => {
+
+      const defaultScope = parentScope.$new( true );
+      const nestedDefaultScope = childScope.$new( true );
+      _setupChangeDetection( defaultScope as any, ChangeDetectionStrategy.Default );
+      _setupChangeDetection( nestedDefaultScope as any, ChangeDetectionStrategy.Default );
+
+      expect( onPushScope.hasOwnProperty( '$apply' ) ).to.equal( true );
+      expect( defaultScope.hasOwnProperty( '$apply' ) ).to.equal( false );
+      expect( nestedDefaultScope.hasOwnProperty( '$apply' ) ).to.equal( true );
+
+    } );
+
+    it( `should check CheckOnce scope once when marked for check same as OnPush`, () => {
+
+      const checkOnceScope = parentScope.$new();
+      _setupChangeDetection( checkOnceScope as any, ChangeDetectionStrategy.CheckOnce );
+      $rootScope.digestDone();
+
+      expect( isConnected( checkOnceScope ) ).to.equal( false );
+
+      _markForCheck( checkOnceScope as any );
+
+      expect( isConnected( checkOnceScope ) ).to.equal( true );
+
+      $rootScope.digestDone();
+
+      expect( isConnected( checkOnceScope ) ).to.equal( false );
+
+    } );
+
+    it( `should switch mode from CheckOnce to Checked after check and back when marked for check`, () => {
+
+      const checkOnceScope = parentScope.$new();
+      const defaultScope = parentScope.$new();
+      _setupChangeDetection( checkOnceScope as any, ChangeDetectionStrategy.CheckOnce );
+      _setupChangeDetection( defaultScope as any, ChangeDetectionStrategy.Default );
+
+      expect( _getChangeDetectorMode( onPushScope as any ) ).to.equal( ChangeDetectionStrategy.CheckOnce );
+      expect( _getChangeDetectorMode( checkOnceScope as any ) ).to.equal( ChangeDetectionStrategy.CheckOnce );
+      expect( _getChangeDetectorMode( defaultScope as any ) ).to.equal( ChangeDetectionStrategy.CheckAlways );
+
+      $rootScope.digestDone();
+
+      expect( _getChangeDetectorMode( onPushScope as any ) ).to.equal( ChangeDetectionStrategy.Checked );
+      expect( _getChangeDetectorMode( checkOnceScope as any ) ).to.equal( ChangeDetectionStrategy.Checked );
+      expect( _getChangeDetectorMode( defaultScope as any ) ).to.equal( ChangeDetectionStrategy.CheckAlways );
+
+      _markForCheck( checkOnceScope as any );
+
+      expect( _getChangeDetectorMode( checkOnceScope as any ) ).to.equal( ChangeDetectionStrategy.CheckOnce );
+
+      $rootScope.digestDone();
+
+      expect( _getChangeDetectorMode( checkOnceScope as any ) ).to.equal( ChangeDetectionStrategy.Checked );
+
+    } );
+
+    it( `should not render Checked scope until it's marked for check unlike OnPush`, () => {
+
+      const checkedScope = parentScope.$new();
+      _setupChangeDetection( checkedScope as any, ChangeDetectionStrategy.Checked );
+
+      expect( isConnected( onPushScope ) ).to.equal( true );
+      expect( isConnected( checkedScope ) ).to.equal( false );
+      expect( _getChangeDetectorMode( checkedScope as any ) ).to.equal( ChangeDetectionStrategy.Checked );
+
+      $rootScope.digestDone();
+
+      expect( ChangeDetectorRef.create( onPushScope as any ).state ).to.equal( ChangeDetectorState.CheckedBefore );
+      expect( ChangeDetectorRef.create( checkedScope as any ).state ).to.equal( ChangeDetectorState.NeverChecked );
+
+      _markForCheck( checkedScope as any );
+
+      expect( isConnected( checkedScope ) ).to.equal( true );
+      expect( _getChangeDetectorMode( checkedScope as any ) ).to.equal( ChangeDetectionStrategy.CheckOnce );
+
+      $rootScope.digestDone();
+
+      expect( isConnected( checkedScope ) ).to.equal( false );
+      expect( ChangeDetectorRef.create( checkedScope as any ).state ).to.equal( ChangeDetectorState.CheckedBefore );
+      expect( _getChangeDetectorMode( checkedScope as any ) ).to.equal( ChangeDetectionStrategy.Checked );
+
+    } );
+
+    it( `should keep OnPush and Default enum values`, () => {
+
+      expect( ChangeDetectionStrategy.OnPush ).to.equal( 0 );
+      expect( ChangeDetectionStrategy.Default ).to.equal( 1 );
+
+    } );
+
+    it( `should render Detached scope once and then update it only via detectChanges`, () => {
+
+      const detachedScope = parentScope.$new();
+      const $digest = detachedScope[ '$digest' ] = sinon.spy();
+      _setupChangeDetection( detachedScope as any, ChangeDetectionStrategy.Detached );
+
+      expect( isConnected( detachedScope ) ).to.equal( true );
+
+      $rootScope.digestDone();
+      _markForCheck( detachedScope as any );
+      detachedScope.$new().$apply();
+
+      expect( isConnected( detachedScope ) ).to.equal( false );
+
+      ChangeDetectorRef.create( detachedScope as any ).detectChanges();
+
+      expect( $digest.calledOnce ).to.equal( true );
+
+    } );
+
+  } );
+
+  describe( `#state`, () => {
+
+    it( `should be NeverChecked until component scope was checked`, () => {
+
+      const defaultScope = parentScope.$new();
+      _setupChangeDetection( defaultScope as any, ChangeDetectionStrategy.Default );
+      const changeDetectorRef = ChangeDetectorRef.create( defaultScope as any );
+      const onPushChangeDetectorRef = ChangeDetectorRef.create( onPushScope as any );
+
+      expect( changeDetectorRef.state ).to.equal( ChangeDetectorState.NeverChecked );
+      expect( onPushChangeDetectorRef.state ).to.equal( ChangeDetectorState.NeverChecked );
+
+      $rootScope.digestDone();
+
+      expect( changeDetectorRef.state ).to.equal( ChangeDetectorState.CheckedBefore );
+      expect( onPushChangeDetectorRef.state ).to.equal( ChangeDetectorState.CheckedBefore );
+
+    } );
+
+    it( `should be inherited by scopes within component template`, () => {
+
+      // non isolate scope inherits from its parent in angular
+      const templateScope = Object.create( onPushScope );
+      $rootScope.digestDone();
+
+      expect( ChangeDetectorRef.create( templateScope ).state ).to.equal( ChangeDetectorState.CheckedBefore );
+      expect( ChangeDetectorRef.create( parentScope as any ).state ).to.equal( ChangeDetectorState.NeverChecked );
+
+    } );
+
+    it( `should be Errored and detached when marked as errored and never checked again`, () => {
+
+      const defaultScope = parentScope.$new();
+      _setupChangeDetection( defaultScope as any, ChangeDetectionStrategy.Default );
+      $rootScope.digestDone();
+
+      _markAsErrored( defaultScope as any );
+      _markAsErrored( onPushScope as any );
+      _markForCheck( childScope as any );
+
+      expect( ChangeDetectorRef.create( defaultScope as any ).state ).to.equal( ChangeDetectorState.Errored );
+      expect( ChangeDetectorRef.create( onPushScope as any ).state ).to.equal( ChangeDetectorState.Errored );
+      expect( isConnected( defaultScope ) ).to.equal( false );
+      expect( isConnected( onPushScope ) ).to.equal( false );
+
+      parentScope.$broadcast( '$destroy' );
+
+      expect( isConnected( defaultScope ) ).to.equal( true );
+
+    } );
+
+  } );
+
+  describe( `#_markForCheck`, () => {
+
+    it( `should reconnect OnPush ancestors just for next digest`, () => {
+
+      $rootScope.digestDone();
+
+      _markForCheck( childScope as any );
+      _markForCheck( onPushScope as any );
+
+      expect( isConnected( onPushScope ) ).to.equal( true );
+      expect( $rootScope.$$postDigestQueue.length ).to.equal( 1 );
+
+      $rootScope.digestDone();
+
+      expect( isConnected( onPushScope ) ).to.equal( false );
+
+    } );
+
+    it( `should mark OnPush ancestors when $apply or $applyAsync is called within OnPush subtree`, () => {
+
+      $rootScope.digestDone();
+
+      childScope.$apply();
+
+      expect( childScope.applied ).to.equal( 1 );
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+      $rootScope.digestDone();
+      childScope.$new().$applyAsync();
+
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+    } );
+
+    it( `should not reconnect scopes which are not within OnPush subtree`, () => {
+
+      const siblingScope = parentScope.$new();
+      $rootScope.digestDone();
+
+      siblingScope.$apply();
+
+      expect( siblingScope.applied ).to.equal( 1 );
+      expect( isConnected( siblingScope ) ).to.equal( true );
+      expect( isConnected( onPushScope ) ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_setupScopeTriggers`, () => {
+
+    it( `should hook $rootScope instance just once and keep Scope.prototype untouched`, () => {
+
+      _setupScopeTriggers( $rootScope as any );
+      const { $apply, $applyAsync } = $rootScope;
+      _setupScopeTriggers( $rootScope as any );
+
+      expect( $rootScope.hasOwnProperty( '$apply' ) ).to.equal( true );
+      expect( $rootScope.$apply ).to.equal( $apply );
+      expect( $rootScope.$applyAsync ).to.equal( $applyAsync );
+      expect( new Scope().$apply ).to.equal( Scope.prototype.$apply );
+
+    } );
+
+    it( `should mark OnPush ancestors when $apply is called within transcluded content`, () => {
+
+      // content scope inherits from outer scope, but it's linked as child of the OnPush component scope
+      const contentScope = parentScope.$new( false, onPushScope );
+      $rootScope.digestDone();
+
+      contentScope.$apply();
+
+      expect( isConnected( onPushScope ) ).to.equal( false );
+
+      _setupScopeTriggers( $rootScope as any );
+      $rootScope.digestDone();
+
+      contentScope.$apply();
+
+      expect( contentScope.applied ).to.equal( 2 );
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+    } );
+
+  } );
+
+  describe( `#markForCheck`, () => {
+
+    it( `should mark OnPush ancestors and schedule digest`, () => {
+
+      $rootScope.digestDone();
+      const $applyAsync = sinon.spy( childScope, '$applyAsync' );
+
+      ChangeDetectorRef.create( childScope as any ).markForCheck();
+
+      expect( $applyAsync.calledOnce ).to.equal( true );
+      expect( isConnected( onPushScope ) ).to.equal( true );
+
+    } );
+
+  } );
+
+  describe( `#checkNoChanges`, () => {
+
+    it( `should verify watchers of component scope and its descendants`, () => {
+
+      (childScope as any).$$watchers = [ { exp: 'name', get: () => 'old', last: 'old', eq: false } ];
+      (childScope as any).$eval = () => 'new';
+
+      expect( () => ChangeDetectorRef.create( onPushScope as any ).checkNoChanges() )
+        .to.throw( /Expression 'name' has changed after it was checked. Previous value: 'old'. Current value: 'new'/ );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { global } from '../../../src/facade/lang';
+import {
+  _checkNoChanges,
+  _setupCheckNoChanges,
+  enableCheckNoChanges,
+  checkNoChangesEnabled
+} from '../../../src/core/change_detection/check_no_changes';
+import { ExpressionChangedAfterItHasBeenCheckedException } from '../../../src/core/change_detection/exceptions';
+
+describe( `change_detection/check_no_changes`, () => {
+
+  class HeroComponent {}
+
+  // angular `initWatchVal` sentinel, which may be renamed by minification
+  function a() {}
+
+  // current values of watched expressions, evaluated via `$eval` same as angular does via `$parse`
+  let values: {[exp: string]: any};
+
+  function createScope( parent?: any ) {
+
+    // child scope inherits from its parent same as in angular, so it has access to parent `$ctrl`
+    const scope = parent ? Object.create( parent ) : {};
+    scope.$eval = sinon.spy( ( exp ) => values[ exp ] );
+    scope.$id = parent ? parent.$id + 1 : 1;
+    scope.$parent = parent || null;
+    scope.$$watchers = [];
+    scope.$$childHead = null;
+    scope.$$nextSibling = null;
+
+    if ( parent ) {
+      scope.$$nextSibling = parent.$$childHead;
+      parent.$$childHead = scope;
+    }
+
+    return scope;
+
+  }
+
+  // watch getter of delegated watchers may be stateful, so it must not be called by the check
+  function watch( exp, value: any, last: any, eq = false ) {
+    if ( typeof exp === 'string' ) {
+      values[ exp ] = value;
+    }
+    return { exp, get: sinon.spy( () => value ), last, eq, fn: sinon.spy() };
+  }
+
+  let scope;
+  let childScope;
+
+  beforeEach( () => {
+
+    values = {};
+    scope = createScope();
+    scope.$ctrl = new HeroComponent();
+    childScope = createScope( scope );
+
+  } );
+
+  describe( `#_checkNoChanges`, () => {
+
+    it( `should pass if no watched value has changed and don't call watch listeners`, () => {
+
+      const nameWatch = watch( '$ctrl.name', 'Hero', 'Hero' );
+      scope.$$watchers.push( nameWatch, watch( '$ctrl.nan', NaN, NaN ) );
+      childScope.$$watchers.push( watch( '$ctrl.power', 10, 10 ) );
+
+      expect( () => _checkNoChanges( scope ) ).to.not.throw();
+      expect( nameWatch.fn.called ).to.equal( false );
+      expect( nameWatch.get.called ).to.equal( false );
+
+    } );
+
+    it( `should throw with component name, expression and values if watched value has changed`, () => {
+
+      childScope.$$watchers.push( watch( '$ctrl.name', 'Super Hero', 'Hero' ) );
+
+      expect( () => _checkNoChanges( scope ) ).to.throw( ExpressionChangedAfterItHasBeenCheckedException );
+      expect( () => _checkNoChanges( scope ) ).to.throw(
+        /HeroComponent:[\s\S]*Expression '\$ctrl.name' has changed after it was checked. Previous value: 'Hero'. Current value: 'Super Hero'/
+      );
+
+    } );
+
+    it( `should use interpolation text as expression`, () => {
+
+      const interpolateFn: any = () => 'Hi Hero';
+      interpolateFn.exp = 'Hi {{ $ctrl.name }}';
+      scope.$$watchers.push( watch( interpolateFn, 'Hi', 'Hi' ) );
+
+      expect( () => _checkNoChanges( scope ) ).to.throw( /Expression 'Hi \{\{ \$ctrl.name \}\}' has changed/ );
+
+    } );
+
+    it( `should compare by value for deep watchers`, () => {
+
+      const angular = global.angular;
+      global.angular = { equals: ( a, b ) => JSON.stringify( a ) === JSON.stringify( b ) } as any;
+
+      scope.$$watchers.push( watch( '$ctrl.hero', { name: 'Hero' }, { name: 'Hero' }, true ) );
+      const checkDeep = () => _checkNoChanges( scope );
+
+      expect( checkDeep ).to.not.throw();
+
+      scope.$$watchers.push( watch( '$ctrl.villain', { name: 'Villain' }, { name: 'Hero' }, true ) );
+
+      expect( checkDeep ).to.throw( /Expression '\$ctrl.villain' has changed/ );
+
+      global.angular = angular;
+
+    } );
+
+    it( `should skip watchers which were not checked yet`, () => {
+
+      scope.$$watchers.push( watch( '$ctrl.name', 'Hero', a ) );
+
+      expect( () => _checkNoChanges( scope ) ).to.not.throw();
+
+    } );
+
+    it( `should skip watchers registered with function, which may be backed by stateful interceptor`, () => {
+
+      // `$watchCollection` registers its interceptor as both expression and getter
+      const changeDetector = sinon.spy( () => 2 );
+      scope.$$watchers.push( { exp: changeDetector, get: changeDetector, last: 1, eq: false } );
+
+      expect( () => _checkNoChanges( scope ) ).to.not.throw();
+      expect( changeDetector.called ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_setupCheckNoChanges`, () => {
+
+    it( `should verify every root digest if enabled`, () => {
+
+      const $digest = sinon.spy();
+      const $rootScope = createScope() as any;
+      $rootScope.$digest = $digest;
+
+      _setupCheckNoChanges( $rootScope );
+
+      expect( checkNoChangesEnabled() ).to.equal( false );
+      expect( $rootScope.$digest ).to.equal( $digest );
+
+      enableCheckNoChanges();
+      _setupCheckNoChanges( $rootScope );
+
+      expect( checkNoChangesEnabled() ).to.equal( true );
+
+      $rootScope.$$watchers.push( watch( '$ctrl.name', 'Super Hero', 'Hero' ) );
+
+      expect( () => $rootScope.$digest() ).to.throw( /Expression '\$ctrl.name' has changed/ );
+      expect( $digest.calledOnce ).to.equal( true );
+
+    } );
+
+    it( `should patch $rootScope just once if the run block is registered multiple times`, () => {
+
+      const $digest = sinon.spy();
+      const $rootScope = createScope() as any;
+      $rootScope.$digest = $digest;
+      $rootScope.$$watchers.push( watch( '$ctrl.name', 'Hero', 'Hero' ) );
+
+      enableCheckNoChanges();
+      _setupCheckNoChanges( $rootScope );
+      _setupCheckNoChanges( $rootScope );
+
+      $rootScope.$digest();
+
+      expect( $digest.calledOnce ).to.equal( true );
+      expect( $rootScope.$eval.calledOnce ).to.equal( true );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import { ElementInjector } from '../../../src/core/di/element_injector';
+import { _resolveScopedProviders } from '../../../src/core/di/reflective_provider';
+import { Injectable } from '../../../src/core/di/decorators';
+import { getInjectableName } from '../../../src/core/di/provider';
+
+describe( `di/element_injector`, () => {
+
+  let $injector: ng.auto.IInjectorService;
+
+  beforeEach( () => {
+
+    // minimal $injector which resolves only from locals
+    $injector = {
+      instantiate( Type, locals ){
+        const args = (Type.$inject || []).map( ( name )=>locals[ name ] );
+        return new (Function.prototype.bind.apply( Type, [ null, ...args ] ))();
+      },
+      invoke( fn, context, locals ){
+        const args = (fn.$inject || []).map( ( name )=>locals[ name ] );
+        return fn.apply( context, args );
+      }
+    } as any;
+
+  } );
+
+  @Injectable()
+  class Counter {
+    count = 0;
+  }
+
+  @Injectable()
+  class CounterLogger {
+    constructor( public counter: Counter ) {}
+  }
+
+  @Injectable()
+  class ViewOnly {}
+
+  describe( `#create`, () => {
+
+    it( `should return parent injector if there are no scoped providers`, () => {
+
+      const parent = ElementInjector.create( null, $injector, {} as any, {} as any, _resolveScopedProviders( [ Counter ] ) );
+
+      expect( ElementInjector.create( parent, $injector, {} as any, {} as any ) ).to.equal( parent );
+      expect( ElementInjector.create( parent, $injector, {} as any, {} as any, {}, {} ) ).to.equal( parent );
+
+    } );
+
+  } );
+
+  describe( `#getLocals`, () => {
+
+    const counterName = getInjectableName( Counter );
+    const counterLoggerName = getInjectableName( CounterLogger );
+    const viewOnlyName = getInjectableName( ViewOnly );
+
+    let outerScope;
+    let hostScope;
+
+    beforeEach( () => {
+      outerScope = {};
+      hostScope = {};
+    } );
+
+    it( `should create fresh instances for every element injector and cache them within one`, () => {
+
+      const providers = _resolveScopedProviders( [ Counter ] );
+      const first = ElementInjector.create( null, $injector, hostScope, outerScope, providers );
+      const second = ElementInjector.create( null, $injector, {} as any, outerScope, providers );
+
+      const firstLocals = first.getLocals( [ counterName ], outerScope, true );
+
+      expect( firstLocals[ counterName ] ).to.be.an.instanceof( Counter );
+      expect( first.getLocals( [ counterName ], outerScope, true )[ counterName ] ).to.equal( firstLocals[ counterName ] );
+      expect( second.getLocals( [ counterName ], outerScope, true )[ counterName ] ).to.not.equal( firstLocals[ counterName ] );
+
+    } );
+
+    it( `should resolve dependencies of scoped providers from element injector tree`, () => {
+
+      const parent = ElementInjector.create( null, $injector, hostScope, outerScope, _resolveScopedProviders( [ Counter ] ) );
+      const child = ElementInjector.create(
+        parent, $injector, {} as any, Object.create( hostScope ), _resolveScopedProviders( [ CounterLogger ] )
+      );
+
+      const counter = parent.getLocals( [ counterName ], outerScope, true )[ counterName ];
+      const logger = child.getLocals( [ counterLoggerName ], {} as any, true )[ counterLoggerName ];
+
+      expect( logger.counter ).to.equal( counter );
+
+    } );
+
+    it( `should make viewProviders visible only to view children and providers also to content children`, () => {
+
+      const injector = ElementInjector.create(
+        null,
+        $injector,
+        hostScope,
+        outerScope,
+        _resolveScopedProviders( [ Counter ] ),
+        _resolveScopedProviders( [ ViewOnly ] )
+      );
+
+      // view children are linked within scopes inheriting from host isolate scope
+      const viewChildScope = Object.create( Object.create( hostScope ) );
+      // transcluded content inherits from outer scope
+      const contentChildScope = Object.create( outerScope );
+
+      const viewLocals = injector.getLocals( [ counterName, viewOnlyName ], viewChildScope );
+      const contentLocals = injector.getLocals( [ counterName, viewOnlyName ], contentChildScope );
+      const hostLocals = injector.getLocals( [ counterName, viewOnlyName ], outerScope, true );
+
+      expect( Object.keys( viewLocals ) ).to.deep.equal( [ counterName, viewOnlyName ] );
+      expect( Object.keys( contentLocals ) ).to.deep.equal( [ counterName ] );
+      expect( Object.keys( hostLocals ) ).to.deep.equal( [ counterName, viewOnlyName ] );
+
+    } );
+
+    it( `should support provider literals and @Optional() tokens`, () => {
+
+      const injector = ElementInjector.create( null, $injector, hostScope, outerScope, _resolveScopedProviders( [
+        { provide: 'config', useValue: { debug: true } },
+        { provide: 'legacyConfig', useExisting: 'config' },
+        { provide: 'debug', deps: [ 'config' ], useFactory: ( config )=>config.debug }
+      ] ) );
+
+      const locals = injector.getLocals( [ 'config', '?legacyConfig', 'debug', 'notScoped' ], outerScope, true );
+
+      expect( locals ).to.deep.equal( {
+        config: { debug: true },
+        '?legacyConfig': { debug: true },
+        debug: true
+      } );
+      expect( locals[ '?legacyConfig' ] ).to.equal( locals[ 'config' ] );
+
+    } );
+
+    it( `should throw on cyclic dependency between scoped providers`, () => {
+
+      const injector = ElementInjector.create( null, $injector, hostScope, outerScope, _resolveScopedProviders( [
+        { provide: 'chicken', deps: [ 'egg' ], useFactory: ( egg )=>egg },
+        { provide: 'egg', deps: [ 'chicken' ], useFactory: ( chicken )=>chicken }
+      ] ) );
+
+      expect( ()=>injector.getLocals( [ 'chicken' ], outerScope, true ) ).to.throw( /chicken -> egg -> chicken/ );
+
+    } );
+
+  } );
+
+  describe( `#destroy`, () => {
+
+    it( `should call ngOnDestroy on created scoped instances`, () => {
+
+      let destroyed = false;
+
+      @Injectable()
+      class Disposable {
+        ngOnDestroy() { destroyed = true; }
+      }
+
+      const injector = ElementInjector.create( null, $injector, {} as any, {} as any, _resolveScopedProviders( [ Disposable ] ) );
+      injector.getLocals( [ getInjectableName( Disposable ) ], {} as any, true );
+      injector.destroy();
+
+      expect( destroyed ).to.equal( true );
+
+    } );
+
+  } );
+
+} );
@@ -1,6 +1,11 @@
 import { expect } from 'chai';
+import * as sinon from 'sinon';
+import * as lang from '../../../src/facade/lang';
 import { OpaqueToken } from '../../../src/core/di/opaque_token';
-import { globalKeyRegistry } from '../../../src/core/di/key';
+import { globalKeyRegistry, setKeyStrategy } from '../../../src/core/di/key';
+import { Component } from '../../../src/core/directives/decorators';
+import { Pipe } from '../../../src/core/pipes/decorators';
+import { Injectable } from '../../../src/core/di/decorators';
 
 describe( `di/key`, ()=> {
 
@@ -33,4 +38,120 @@ describe( `di/key`, ()=> {
 
   } );
 
+  it( `should keep numbering of generated ids for directives and pipes in counter strategy`, ()=> {
+
+    @Component( { selector: 'my-cmp', template: 'hello' } )
+    class MyComponent {}
+
+    @Pipe( { name: 'myPipe' } )
+    class MyPipe {}
+
+    @Injectable()
+    class MyService {}
+
+    expect( globalKeyRegistry.allKeys ).to.deep.equal( [ 'myComponent#1', 'myPipe#2', 'myService#3' ] );
+
+  } );
+
+  describe( `stable strategy`, ()=> {
+
+    const sandbox = sinon.sandbox.create();
+
+    afterEach( ()=> {
+      sandbox.restore();
+      globalKeyRegistry._reset();
+    } );
+
+    it( `should create key from hash which doesn't depend on creation order`, ()=> {
+
+      class Foo{
+        static moduleId = 'app/foo.service';
+      }
+      class Moo{
+        static moduleId = 'app/moo.service';
+      }
+
+      setKeyStrategy( { mode: 'stable', hash: ( token: any )=>token.moduleId } );
+
+      expect( globalKeyRegistry.get( Moo ) ).to.equal( 'app/moo.service' );
+      expect( globalKeyRegistry.get( Foo ) ).to.equal( 'app/foo.service' );
+      expect( globalKeyRegistry.get( Foo ) ).to.equal( 'app/foo.service' );
+
+      expect( globalKeyRegistry.allKeys ).to.deep.equal( [ 'app/moo.service', 'app/foo.service' ] );
+
+    } );
+
+    it( `should throw if there is no explicit id for the class`, ()=> {
+
+      class Foo{}
+      class Moo{
+        static moduleId = 'app/moo.service';
+      }
+
+      setKeyStrategy( { mode: 'stable' } );
+
+      expect( ()=>globalKeyRegistry.get( Foo ) ).to.throw( /stable key strategy needs explicit id for `Foo`/ );
+
+      setKeyStrategy( { mode: 'stable', hash: ( token: any )=>token.moduleId } );
+
+      expect( ()=>globalKeyRegistry.get( Foo ) ).to.throw( /stable key strategy needs explicit id for `Foo`/ );
+      expect( globalKeyRegistry.get( Moo ) ).to.equal( 'app/moo.service' );
+
+    } );
+
+    it( `should create different keys for same named classes from different files`, ()=> {
+
+      const Foo = class Foo{
+        static moduleId = 'app/foo.service';
+      };
+      const OtherFoo = (()=> class Foo{
+        static moduleId = 'admin/foo.service';
+      })();
+
+      setKeyStrategy( { mode: 'stable', hash: ( token: any )=>token.moduleId } );
+
+      expect( globalKeyRegistry.get( Foo ) ).to.equal( 'app/foo.service' );
+      expect( globalKeyRegistry.get( OtherFoo ) ).to.equal( 'admin/foo.service' );
+
+    } );
+
+    it( `should throw in dev mode if two classes map to the same key`, ()=> {
+
+      const Foo = class Foo{};
+      const OtherFoo = (()=> class Foo{})();
+
+      setKeyStrategy( { mode: 'stable', hash: ()=>'app/foo.service' } );
+      globalKeyRegistry.get( Foo );
+
+      expect( ()=>globalKeyRegistry.get( OtherFoo ) ).to.throw( /map to the same id `app\/foo.service`/ );
+
+      sandbox.stub( lang, 'assertionsEnabled' ).returns( false );
+
+      expect( globalKeyRegistry.get( OtherFoo ) ).to.equal( 'app/foo.service' );
+
+    } );
+
+    it( `should not need explicit id for directives and pipes`, ()=> {
+
+      setKeyStrategy( { mode: 'stable' } );
+
+      expect( ()=> {
+        @Component( { selector: 'my-cmp', template: 'hello' } )
+        class MyComponent {}
+
+        @Pipe( { name: 'myPipe' } )
+        class MyPipe {}
+      } ).to.not.throw();
+      expect( globalKeyRegistry.numberOfKeys ).to.equal( 0 );
+
+    } );
+
+    it( `should throw on unknown strategy mode`, ()=> {
+
+      expect( ()=>setKeyStrategy( { mode: 'random' } ) ).to.throw( /unknown key strategy mode `random`/ );
+
+    } );
+
+  } );
+
 } );
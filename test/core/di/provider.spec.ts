@@ -7,16 +7,22 @@ import {
   _dependenciesFor,
   ParamMetaInst
 } from '../../../src/core/di/provider';
-import { Inject, Injectable, Host } from '../../../src/core/di/decorators';
+import { Inject, Injectable, InjectableProvider, Host, Optional } from '../../../src/core/di/decorators';
 import { InjectMetadata, OptionalMetadata, HostMetadata } from '../../../src/core/di/metadata';
-import { Component, Directive } from '../../../src/core/directives/decorators';
+import { Component, Directive, Attribute } from '../../../src/core/directives/decorators';
 import { Pipe } from '../../../src/core/pipes/decorators';
 import { noop, isFunction, getFuncName } from '../../../src/facade/lang';
-import { OpaqueToken } from '../../../src/core/di/opaque_token';
+import { OpaqueToken, InjectionToken } from '../../../src/core/di/opaque_token';
 import { globalKeyRegistry } from '../../../src/core/di/key';
 import { NgForm } from '../../../src/common/directives/ng_form';
 import { NgModel } from '../../../src/common/directives/ng_model';
 
+// abstract classes cannot be declared within block scope
+@Injectable()
+abstract class AbstractLogger {
+  abstract log( msg: string ): void;
+}
+
 describe( `di/provider`, ()=> {
 
   beforeEach( ()=> {
@@ -173,6 +179,119 @@ describe( `di/provider`, ()=> {
 
   } );
 
+  describe( `#provide:classToken`, ()=> {
+
+    @Injectable()
+    class ConsoleLogger extends AbstractLogger {
+      constructor( @Inject( '$log' ) private $log ) { super(); }
+      log( msg: string ) {}
+    }
+
+    it( `should register useClass implementation under class token injectable name`, ()=> {
+
+      const actual = provide( AbstractLogger, { useClass: ConsoleLogger } );
+      const expected = [ getInjectableName( AbstractLogger ), ConsoleLogger ];
+
+      expect( actual ).to.deep.equal( expected );
+      expect( ConsoleLogger.$inject ).to.deep.equal( [ '$log' ] );
+
+    } );
+
+    it( `should register useFactory/useValue under class token injectable name`, ()=> {
+
+      const loggerFactory = ()=>new ConsoleLogger( console );
+      const loggerValue = { log(){} };
+
+      expect( provide( AbstractLogger, { useFactory: loggerFactory } ) )
+        .to.deep.equal( [ getInjectableName( AbstractLogger ), loggerFactory ] );
+      expect( provide( AbstractLogger, { useValue: loggerValue } ) )
+        .to.deep.equal( [ getInjectableName( AbstractLogger ), loggerValue ] );
+
+    } );
+
+  } );
+
+  describe( `#provide:InjectableProvider`, ()=> {
+
+    @Injectable()
+    class Logger {}
+
+    @InjectableProvider()
+    class GreeterProvider {
+      private greeting = 'Hello';
+      constructor( @Inject( '$compileProvider' ) private $compileProvider ) {}
+      setGreeting( greeting: string ) { this.greeting = greeting; }
+      $get( @Inject( '$log' ) $log, @Inject( Logger ) logger: Logger ) {
+        return { greet: ( name: string )=>`${ this.greeting } ${ name }` };
+      }
+    }
+
+    it( `should return provider class with config phase constructor and $get dependencies`, ()=> {
+
+      const [ name, providerClass ] = provide( GreeterProvider );
+
+      expect( name ).to.equal( getInjectableName( GreeterProvider ) );
+      expect( providerClass ).to.equal( GreeterProvider );
+      expect( GreeterProvider.$inject ).to.deep.equal( [ '$compileProvider' ] );
+      expect( GreeterProvider.prototype.$get.$inject ).to.deep.equal( [ '$log', getInjectableName( Logger ) ] );
+
+      // it's idempotent
+      provide( GreeterProvider );
+      expect( GreeterProvider.prototype.$get.$inject ).to.deep.equal( [ '$log', getInjectableName( Logger ) ] );
+
+    } );
+
+    it( `should inject provider into undecorated config class by provider class token`, ()=> {
+
+      class GreeterConfig {
+        constructor(
+          @Inject( GreeterProvider ) greeterProvider: GreeterProvider,
+          @Inject( '$provide' ) $provide
+        ) {}
+      }
+
+      const [ configClass ] = provide( GreeterConfig );
+
+      expect( configClass ).to.equal( GreeterConfig );
+      expect( (GreeterConfig as any).$inject ).to.deep.equal( [ `${ getInjectableName( GreeterProvider ) }Provider`, '$provide' ] );
+
+    } );
+
+    it( `should throw if provider has no $get or $get parameters are not annotated`, ()=> {
+
+      @InjectableProvider()
+      class NoGetterProvider {}
+
+      @InjectableProvider()
+      class NotAnnotatedProvider {
+        $get( $log ) {}
+      }
+
+      expect( ()=>provide( NoGetterProvider ) ).to.throw( /has to implement \$get method/ );
+      expect( ()=>provide( NotAnnotatedProvider ) ).to.throw( /parameters have to be annotated via @Inject\(\)/ );
+
+    } );
+
+  } );
+
+  describe( `#provide:useExisting`, ()=> {
+
+    it( `should return alias token name and factory which returns the instance of existing token`, ()=> {
+
+      @Injectable()
+      class Logger {}
+
+      const [name,aliasFactory] = provide( 'legacyLogger', { useExisting: Logger } );
+      const logger = new Logger();
+
+      expect( name ).to.equal( 'legacyLogger' );
+      expect( aliasFactory.$inject ).to.deep.equal( [ getInjectableName( Logger ) ] );
+      expect( (aliasFactory as any)( logger ) ).to.equal( logger );
+
+    } );
+
+  } );
+
   describe( `provide:errors`, ()=> {
 
     it( `should throw if registering ng.constant/value via Opaque token and useValue is blank`, ()=> {
@@ -251,6 +370,25 @@ describe( `di/provider`, ()=> {
       expect( actual ).to.equal( expected );
 
     } );
+    it( `should return unique name if injectable is InjectionToken for @Inject(token)`, ()=> {
+
+      const fooToken = new InjectionToken<string>( 'foo' );
+      const otherFooToken = new InjectionToken<string>( 'foo' );
+
+      expect( getInjectableName( fooToken ) ).to.equal( fooToken.name );
+      expect( getInjectableName( fooToken ) ).to.match( /^foo#\d+$/ );
+      expect( getInjectableName( fooToken ) ).to.not.equal( getInjectableName( otherFooToken ) );
+
+    } );
+    it( `should not collide InjectionToken name with string or OpaqueToken of the same description for @Inject(token)`, ()=> {
+
+      const configToken = new InjectionToken<string>( 'config' );
+
+      expect( getInjectableName( configToken ) ).to.not.equal( getInjectableName( 'config' ) );
+      expect( getInjectableName( configToken ) ).to.not.equal( getInjectableName( new OpaqueToken( 'config' ) ) );
+
+    } );
+
     it( `should throw trying to get injectable from pure class for @Inject(token)`, ()=> {
 
       class Service {}
@@ -485,6 +623,46 @@ describe( `di/provider`, ()=> {
 
       } );
 
+      it( `should prefix @Optional() service injections with '?' and leave @Optional() directive injections as is`, ()=> {
+
+        @Injectable()
+        class Analytics {}
+
+        @Injectable()
+        class Foo {
+          constructor(
+            @Optional() @Inject( 'analytics' ) analytics,
+            @Optional() analyticsSvc: Analytics,
+            @Inject( 'ngModel' ) @Host() @Optional() ngModel: NgModel
+          ) {}
+        }
+
+        const actual = _dependenciesFor( Foo );
+        const expected = [
+          '?analytics',
+          `?${ getInjectableName( Analytics ) }`,
+          'ngModel'
+        ];
+
+        expect( actual ).to.deep.equal( expected );
+
+      } );
+
+      it( `should prefix @Attribute() injections with '@' so they can be resolved from host element attributes`, ()=> {
+
+        @Directive( { selector: '[my-input]' } )
+        class MyInput {
+          constructor(
+            @Attribute( 'type' ) type: string,
+            @Attribute( 'aria-label' ) ariaLabel: string,
+            @Inject( '$element' ) $element
+          ) {}
+        }
+
+        expect( _dependenciesFor( MyInput ) ).to.deep.equal( [ '@type', '@aria-label', '$element' ] );
+
+      } );
+
     } );
 
   } );
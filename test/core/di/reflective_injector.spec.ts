@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { ReflectiveInjector } from '../../../src/core/di/reflective_injector';
+import { Injectable, Inject, Optional, Self, SkipSelf } from '../../../src/core/di/decorators';
+import { OpaqueToken, InjectionToken } from '../../../src/core/di/opaque_token';
+import { forwardRef } from '../../../src/core/di/forward_ref';
+import { Component } from '../../../src/core/directives/decorators';
+import { global } from '../../../src/facade/lang';
+
+describe( `di/reflective_injector`, () => {
+
+  // it has to work without angular 1
+  let angular;
+  beforeEach( () => {
+    angular = global.angular;
+    global.angular = undefined;
+  } );
+  afterEach( () => {
+    global.angular = angular;
+  } );
+
+  const API_URL = new OpaqueToken( 'apiUrl' );
+
+  @Injectable()
+  class Http {
+    constructor( @Inject( API_URL ) public apiUrl: string ) {}
+  }
+
+  @Injectable()
+  class UserService {
+    constructor( public http: Http ) {}
+  }
+
+  describe( `#resolveAndCreate`, () => {
+
+    it( `should create and cache instances from @Injectable metadata`, () => {
+
+      const injector = ReflectiveInjector.resolveAndCreate( [ UserService, Http, { provide: API_URL, useValue: '/api' } ] );
+      const userService = injector.get( UserService );
+
+      expect( userService ).to.be.an.instanceof( UserService );
+      expect( userService.http ).to.be.an.instanceof( Http );
+      expect( userService.http.apiUrl ).to.equal( '/api' );
+      expect( injector.get( UserService ) ).to.equal( userService );
+      expect( injector.get( Http ) ).to.equal( userService.http );
+
+    } );
+
+    it( `should support provider literals`, () => {
+
+      class MockHttp {}
+
+      const injector = ReflectiveInjector.resolveAndCreate( [
+        { provide: Http, useClass: MockHttp },
+        { provide: 'legacyHttp', useExisting: Http },
+        { provide: 'debug', useValue: false },
+        { provide: 'apiRoot', deps: [ 'debug', [ new Optional(), 'missing' ] ], useFactory: ( debug, missing )=>({ debug, missing }) },
+        { provide: 'plugins', useValue: 'first', multi: true },
+        { provide: 'plugins', useValue: 'second', multi: true }
+      ] );
+
+      expect( injector.get( Http ) ).to.be.an.instanceof( MockHttp );
+      expect( injector.get( 'legacyHttp' ) ).to.equal( injector.get( Http ) );
+      expect( injector.get( 'debug' ) ).to.equal( false );
+      expect( injector.get( 'apiRoot' ) ).to.deep.equal( { debug: false, missing: null } );
+      expect( injector.get( 'plugins' ) ).to.deep.equal( [ 'first', 'second' ] );
+
+    } );
+
+    it( `should resolve forwardRef tokens, injector itself and self providing InjectionToken`, () => {
+
+      const LOCALE = new InjectionToken<string>( 'locale', { factory: ()=>'en' } );
+
+      @Injectable()
+      class Translate {
+        constructor(
+          @Inject( forwardRef( ()=>Dictionary ) ) public dictionary,
+          @Inject( LOCALE ) public locale: string,
+          @Inject( ReflectiveInjector ) public injector: ReflectiveInjector
+        ) {}
+      }
+
+      @Injectable()
+      class Dictionary {}
+
+      const injector = ReflectiveInjector.resolveAndCreate( [ Translate, Dictionary ] );
+      const translate = injector.get( Translate );
+
+      expect( translate.dictionary ).to.be.an.instanceof( Dictionary );
+      expect( translate.locale ).to.equal( 'en' );
+      expect( translate.injector ).to.equal( injector );
+
+    } );
+
+    it( `should throw with dependency path if there is no provider`, () => {
+
+      const injector = ReflectiveInjector.resolveAndCreate( [ UserService, Http ] );
+
+      expect( ()=>injector.get( UserService ) ).to.throw( /no provider for apiUrl! \( UserService -> Http -> apiUrl \)/ );
+      expect( injector.get( 'missing', 'default' ) ).to.equal( 'default' );
+
+    } );
+
+    it( `should throw on cyclic dependency`, () => {
+
+      const injector = ReflectiveInjector.resolveAndCreate( [
+        { provide: 'chicken', deps: [ 'egg' ], useFactory: ( egg )=>egg },
+        { provide: 'egg', deps: [ 'chicken' ], useFactory: ( chicken )=>chicken }
+      ] );
+
+      expect( ()=>injector.get( 'chicken' ) ).to.throw( /cyclic dependency! \( chicken -> egg -> chicken \)/ );
+
+    } );
+
+    it( `should throw for providers which need angular 1`, () => {
+
+      @Component( { selector: 'my-cmp', template: 'hello' } )
+      class MyComponent {}
+
+      expect( ()=>ReflectiveInjector.resolveAndCreate( [ MyComponent ] ) ).to.throw( /InvalidProviderError/ );
+      expect( ()=>ReflectiveInjector.resolveAndCreate( [ 'ngAnimate' ] ) ).to.throw( /InvalidProviderError/ );
+      expect( ()=>ReflectiveInjector.resolveAndCreate( [
+        { provide: 'plugins', useValue: 'first', multi: true },
+        { provide: 'plugins', useValue: 'second' }
+      ] ) ).to.throw( /cannot be mixed/ );
+
+    } );
+
+  } );
+
+  describe( `child injectors`, () => {
+
+    @Injectable()
+    class Logger {}
+
+    @Injectable()
+    class SelfLogged {
+      constructor( @Self() @Optional() public logger: Logger ) {}
+    }
+
+    @Injectable()
+    class ParentLogged {
+      constructor( @SkipSelf() public logger: Logger ) {}
+    }
+
+    it( `should create own instances of own providers and resolve others from parent`, () => {
+
+      const parent = ReflectiveInjector.resolveAndCreate( [ Logger, Http, { provide: API_URL, useValue: '/api' } ] );
+      const child = parent.resolveAndCreateChild( [ Logger, UserService ] );
+
+      expect( child.parent ).to.equal( parent );
+      expect( child.get( Logger ) ).to.not.equal( parent.get( Logger ) );
+      expect( child.get( Http ) ).to.equal( parent.get( Http ) );
+      expect( child.get( UserService ).http ).to.equal( parent.get( Http ) );
+      expect( ()=>parent.get( UserService ) ).to.throw( /no provider for UserService/ );
+
+    } );
+
+    it( `should support @Self and @SkipSelf`, () => {
+
+      const parent = ReflectiveInjector.resolveAndCreate( [ Logger ] );
+      const child = parent.resolveAndCreateChild( [ Logger, SelfLogged, ParentLogged ] );
+      const emptyChild = parent.resolveAndCreateChild( [ SelfLogged ] );
+
+      expect( child.get( SelfLogged ).logger ).to.equal( child.get( Logger ) );
+      expect( child.get( ParentLogged ).logger ).to.equal( parent.get( Logger ) );
+      expect( emptyChild.get( SelfLogged ).logger ).to.equal( null );
+
+    } );
+
+  } );
+
+} );
@@ -1,18 +1,19 @@
 import { expect } from 'chai';
 import * as sinon from 'sinon';
 
+import * as lang from '../../../src/facade/lang';
 import { global } from '../../../src/facade/lang';
 import { Component, Directive } from '../../../src/core/directives/decorators';
-import { Injectable, Inject } from '../../../src/core/di/decorators';
+import { Injectable, InjectableProvider, Inject, Optional } from '../../../src/core/di/decorators';
 import { Pipe } from '../../../src/core/pipes/decorators';
 import { _getNgModuleMetadataByType, resolveReflectiveProvider } from '../../../src/core/di/reflective_provider';
 import { createNgModule } from '../../utils';
 import { getInjectableName } from '../../../src/core/di/provider';
 import { createProvider } from '../../../src/core/di/provider_util';
-import { OpaqueToken } from '../../../src/core/di/opaque_token';
+import { OpaqueToken, InjectionToken } from '../../../src/core/di/opaque_token';
 import { _isTypeRegistered } from '../../../src/core/di/reflective_provider';
 import { provide } from '../../../src/core/di/provider';
-import { _normalizeProviders } from '../../../src/core/di/reflective_provider';
+import { _normalizeProviders, enableProviderCollisionWarnings } from '../../../src/core/di/reflective_provider';
 import { _registerTypeProvider } from '../../../src/core/di/reflective_provider';
 import { noop } from 'rxjs/util/noop';
 
@@ -115,9 +116,22 @@ describe( `di/reflective_provider`, () => {
       @Injectable()
       class SomeInjectable{}
 
-      const provider = createProvider( { provide: 'foo', useExisting: SomeInjectable } );
+      const aliasToken = new OpaqueToken( 'aliasToken' );
+      const providers = [
+        createProvider( { provide: 'foo', useExisting: SomeInjectable } ),
+        createProvider( { provide: aliasToken, useExisting: 'foo' } )
+      ];
+
+      const actual = providers.map( resolveReflectiveProvider );
 
-      expect( ()=>resolveReflectiveProvider(provider) ).to.throw();
+      expect( actual[ 0 ].method ).to.equal( 'factory' );
+      expect( actual[ 0 ].name ).to.equal( 'foo' );
+      expect( actual[ 0 ].value.$inject ).to.deep.equal( [ getInjectableName( SomeInjectable ) ] );
+      expect( actual[ 1 ].name ).to.equal( 'aliasToken' );
+      expect( actual[ 1 ].value.$inject ).to.deep.equal( [ 'foo' ] );
+
+      const someInjectable = new SomeInjectable();
+      expect( actual[ 0 ].value( someInjectable ) ).to.equal( someInjectable );
 
     } );
 
@@ -223,6 +237,255 @@ describe( `di/reflective_provider`, () => {
       );
 
     } );
+    it( `should register $provide via provider if provider is @InjectableProvider Type`, () => {
+
+      @InjectableProvider( 'greeter' )
+      class GreeterProvider {
+        $get( @Inject( '$log' ) $log ) { return {}; }
+      }
+
+      class GreeterConfig {
+        constructor( @Inject( GreeterProvider ) greeterProvider: GreeterProvider ) {}
+      }
+
+      _normalizeProviders( ngModule, [ GreeterProvider, GreeterConfig ] );
+
+      expect( (ngModule as any)._invokeQueue ).to.deep.equal( [
+        [ '$provide', 'provider', [ 'greeter', GreeterProvider ] ]
+      ] );
+      expect( (ngModule as any)._configBlocks ).to.deep.equal( [
+        [ '$injector', 'invoke', [ GreeterConfig ] ]
+      ] );
+      expect( (GreeterConfig as any).$inject ).to.deep.equal( [ 'greeterProvider' ] );
+
+    } );
+
+    it( `should register $provide via factory if provider is ProviderLiteral with useExisting`, () => {
+
+      @Injectable()
+      class Logger{}
+
+      const providers = [
+        Logger,
+        { provide: 'legacyLogger', useExisting: Logger },
+        { provide: 'oldestLogger', useExisting: 'legacyLogger' }
+      ];
+      const updatedNgModule = _normalizeProviders( ngModule, providers );
+
+      expect( _isTypeRegistered( 'legacyLogger', updatedNgModule, '$provide', 'factory' ) ).to.equal( true );
+      expect( _isTypeRegistered( 'oldestLogger', updatedNgModule, '$provide', 'factory' ) ).to.equal( true );
+
+    } );
+    it( `should throw if useExisting aliases create a cycle`, () => {
+
+      expect( ()=>_normalizeProviders( ngModule, [
+        { provide: 'aliasA', useExisting: 'aliasB' },
+        { provide: 'aliasB', useExisting: 'aliasC' },
+        { provide: 'aliasC', useExisting: 'aliasA' }
+      ] ) ).to.throw( /aliasC -> aliasA -> aliasB -> aliasC/ );
+
+      expect( ()=>_normalizeProviders( ngModule, [
+        { provide: 'selfAlias', useExisting: 'selfAlias' }
+      ] ) ).to.throw( /selfAlias -> selfAlias/ );
+
+    } );
+    it( `should aggregate multi providers into array factory in registration order`, () => {
+
+      @Injectable()
+      class RequiredValidator{}
+
+      const VALIDATORS = new OpaqueToken( 'validators' );
+      const minLength = ()=>( value )=>value.length > 2;
+      const providers = [
+        { provide: VALIDATORS, useClass: RequiredValidator, multi: true },
+        { provide: VALIDATORS, useFactory: minLength, multi: true }
+      ];
+      const updatedNgModule = _normalizeProviders( ngModule, providers );
+      _normalizeProviders( updatedNgModule, [ { provide: VALIDATORS, useValue: 'pattern', multi: true } ] );
+
+      const invokeQueue = (updatedNgModule as any)._invokeQueue;
+      const [ , , [ multiName, multiFactory ] ] = invokeQueue[ 0 ];
+
+      expect( multiName ).to.equal( 'validators' );
+      expect( multiFactory.$inject ).to.deep.equal( [ 'validators#multi0', 'validators#multi1', 'validators#multi2' ] );
+      expect( multiFactory( 'a', 'b', 'c' ) ).to.deep.equal( [ 'a', 'b', 'c' ] );
+
+      expect( _isTypeRegistered( 'validators#multi0', updatedNgModule, '$provide', 'service' ) ).to.equal( true );
+      expect( _isTypeRegistered( 'validators#multi1', updatedNgModule, '$provide', 'factory' ) ).to.equal( true );
+      expect( _isTypeRegistered( 'validators#multi2', updatedNgModule, '$provide', 'value' ) ).to.equal( true );
+
+    } );
+    it( `should throw if multi providers and regular providers are mixed for one token`, () => {
+
+      expect( ()=>_normalizeProviders( ngModule, [
+        { provide: 'interceptors', useValue: 'one', multi: true },
+        { provide: 'interceptors', useValue: 'two' }
+      ] ) ).to.throw( /cannot be mixed/ );
+
+      expect( ()=>_normalizeProviders( ngModule, [
+        { provide: 'plugins', useValue: 'one' },
+        { provide: 'plugins', useValue: 'two', multi: true }
+      ] ) ).to.throw( /cannot be mixed/ );
+
+    } );
+    it( `should register factories resolving to null for @Optional() dependencies of services`, () => {
+
+      @Injectable()
+      class Tracker{
+        constructor( @Optional() @Inject( 'analytics' ) private analytics ){}
+      }
+
+      const updatedNgModule = _normalizeProviders( ngModule, [ Tracker, { provide: 'tracker', useClass: Tracker } ] );
+      const invokeQueue = (updatedNgModule as any)._invokeQueue;
+      const optionalRegistrations = invokeQueue.filter( ( [ type, fnName, [ name ] ] )=>name === '?analytics' );
+      const [ , , [ , optionalFactory ] ] = optionalRegistrations[ 0 ];
+
+      expect( optionalRegistrations.length ).to.equal( 1 );
+      expect( optionalFactory.$inject ).to.deep.equal( [ '$injector' ] );
+
+      const $injector = {
+        has: sandbox.stub().returns( false ),
+        get: sandbox.stub().returns( 'ga' )
+      };
+      expect( optionalFactory( $injector ) ).to.equal( null );
+
+      $injector.has.returns( true );
+      expect( optionalFactory( $injector ) ).to.equal( 'ga' );
+      expect( $injector.get.calledWith( 'analytics' ) ).to.equal( true );
+
+    } );
+    it( `should register self providing InjectionToken factory unless there is explicit provider`, () => {
+
+      const API_URL = new InjectionToken<string>( 'apiUrl', { factory: ()=>'/api' } );
+      const DEBUG = new InjectionToken<boolean>( 'debug', { factory: ()=>false } );
+
+      @Injectable()
+      class Api{
+        constructor( @Inject( API_URL ) private apiUrl: string, @Inject( DEBUG ) private debug: boolean ){}
+      }
+
+      const updatedNgModule = _normalizeProviders( ngModule, [ Api, { provide: DEBUG, useValue: true } ] );
+      const invokeQueue = (updatedNgModule as any)._invokeQueue;
+      const registrationsOf = ( token )=>invokeQueue
+        .filter( ( [ type, fnName, [ name ] ] )=>name === getInjectableName( token ) )
+        .map( ( [ type, fnName, [ name, value ] ] )=>[ fnName, value ] );
+
+      const [ [ apiUrlMethod, apiUrlFactory ] ] = registrationsOf( API_URL );
+      expect( apiUrlMethod ).to.equal( 'factory' );
+      expect( apiUrlFactory() ).to.equal( '/api' );
+
+      // explicit provider registered later overrides the default
+      const debugRegistrations = registrationsOf( DEBUG );
+      expect( debugRegistrations.length ).to.equal( 2 );
+      expect( debugRegistrations[ 1 ] ).to.deep.equal( [ 'value', true ] );
+
+      // explicit provider registered before, default is not registered at all
+      const LOCALE = new InjectionToken<string>( 'locale', { factory: ()=>'en' } );
+
+      @Injectable()
+      class Translate{
+        constructor( @Inject( LOCALE ) private locale: string ){}
+      }
+
+      _normalizeProviders( ngModule, [ { provide: LOCALE, useValue: 'sk' }, Translate ] );
+      expect( registrationsOf( LOCALE ) ).to.deep.equal( [ [ 'value', 'sk' ] ] );
+
+    } );
+    describe( `name collisions`, () => {
+
+      @Injectable( 'store' )
+      class TodoStore {}
+
+      @Injectable( 'store' )
+      class UserStore {}
+
+      @Directive( { selector: '[tooltip]' } )
+      class TooltipDirective {}
+
+      @Directive( { selector: '[tooltip]' } )
+      class LegacyTooltipDirective {}
+
+      @Component( { selector: 'todo-app', template: 'todos' } )
+      class TodoAppComponent {}
+
+      @Component( { selector: 'user-app', template: 'users' } )
+      class UserAppComponent {}
+
+      it( `should allow re-registration of the same Type or provider literal source`, () => {
+
+        const configFactory = ()=>({});
+
+        _normalizeProviders( ngModule, [ TodoStore, { provide: 'config', useFactory: configFactory } ] );
+        _normalizeProviders( ngModule, [ TodoStore, { provide: 'config', useFactory: configFactory } ] );
+
+        expect( (ngModule as any)._invokeQueue.length ).to.equal( 2 );
+
+      } );
+
+      it( `should throw if different component scoped providers are registered under the same name`, () => {
+
+        @Injectable()
+        class Logger {}
+
+        @Injectable()
+        class ConsoleLogger {}
+
+        _normalizeProviders( ngModule, [ TodoStore, Logger, { provide: 'config', useValue: { todos: true } } ], TodoAppComponent );
+
+        expect( ()=>_normalizeProviders( ngModule, [ UserStore ], UserAppComponent ) )
+          .to.throw( /TodoStore \( declared by TodoAppComponent \)[\s\S]*UserStore \( declared by UserAppComponent \)/ );
+        expect( ()=>_normalizeProviders( ngModule, [ { provide: Logger, useClass: ConsoleLogger } ], UserAppComponent ) )
+          .to.throw( /Logger \( declared by TodoAppComponent \)[\s\S]*Logger useClass: ConsoleLogger \( declared by UserAppComponent \)/ );
+        expect( ()=>_normalizeProviders( ngModule, [ { provide: 'config', useValue: { users: true } } ], UserAppComponent ) )
+          .to.throw( /config useValue \( declared by TodoAppComponent \)[\s\S]*config useValue \( declared by UserAppComponent \)/ );
+
+      } );
+
+      it( `should throw with both sources and declaring components if different Type is registered under existing name`, () => {
+
+        _normalizeProviders( ngModule, [ TooltipDirective ], TodoAppComponent );
+
+        expect( ()=>_normalizeProviders( ngModule, [ LegacyTooltipDirective ], UserAppComponent ) )
+          .to.throw( /TooltipDirective \( declared by TodoAppComponent \)[\s\S]*LegacyTooltipDirective \( declared by UserAppComponent \)/ );
+
+        _normalizeProviders( ngModule, [ TodoStore ] );
+
+        expect( ()=>_normalizeProviders( ngModule, [ UserStore ] ) )
+          .to.throw( /TodoStore \( registered via bundle otherProviders \)[\s\S]*UserStore \( registered via bundle otherProviders \)/ );
+        expect( ()=>_normalizeProviders( ngModule, [ { provide: 'store', useValue: {} } ] ) )
+          .to.throw( /TodoStore \( registered via bundle otherProviders \)[\s\S]*store useValue \( registered via bundle otherProviders \)/ );
+
+      } );
+
+      it( `should be silent about collision in production mode and keep the first registration`, () => {
+
+        sandbox.stub( lang, 'assertionsEnabled' ).returns( false );
+        const warnStub = sandbox.stub( console, 'warn' );
+
+        _normalizeProviders( ngModule, [ TodoStore ] );
+        _normalizeProviders( ngModule, [ UserStore ] );
+
+        expect( warnStub.called ).to.equal( false );
+        expect( (ngModule as any)._invokeQueue ).to.deep.equal( [ [ '$provide', 'service', [ 'store', TodoStore ] ] ] );
+
+      } );
+
+      it( `should warn about collision in production mode if enabled`, () => {
+
+        sandbox.stub( lang, 'assertionsEnabled' ).returns( false );
+        const warnStub = sandbox.stub( console, 'warn' );
+
+        enableProviderCollisionWarnings();
+        _normalizeProviders( ngModule, [ TodoStore ] );
+        _normalizeProviders( ngModule, [ UserStore ] );
+
+        expect( warnStub.calledOnce ).to.equal( true );
+        expect( warnStub.firstCall.args[ 0 ] ).to.match( /name collision/ );
+
+      } );
+
+    } );
+
     it( `should throw if non supported provider type is used`, () => {
       expect( ()=>_normalizeProviders( ngModule, [ 23213 ] as any ) ).to.throw();
       expect( ()=>_normalizeProviders( ngModule, [ {} ] as any ) ).to.throw();
@@ -278,6 +541,11 @@ describe( `di/reflective_provider`, () => {
     @Pipe({name:'ups'})
     class UpsPipe{}
 
+    @InjectableProvider()
+    class MyProvider{
+      $get(){}
+    }
+
     it(`should not throw if type has no metadata, cause support of config function`, () => {
       class Configure {
         constructor( @Inject( '$provide' ) $provide: ng.auto.IProvideService ) {}
@@ -308,12 +576,14 @@ describe( `di/reflective_provider`, () => {
         _getNgModuleMetadataByType( FooDirective ),
         _getNgModuleMetadataByType( MyService ),
         _getNgModuleMetadataByType( UpsPipe ),
+        _getNgModuleMetadataByType( MyProvider ),
       ];
       const expected = [
         { providerName: '$compileProvider', providerMethod: 'directive', moduleMethod: 'directive' },
         { providerName: '$compileProvider', providerMethod: 'directive', moduleMethod: 'directive' },
         { providerName: '$provide', providerMethod: 'service', moduleMethod: 'service' },
         { providerName: '$filterProvider', providerMethod: 'register', moduleMethod: 'filter' },
+        { providerName: '$provide', providerMethod: 'provider', moduleMethod: 'provider' },
       ];
 
       expect( actual ).to.deep.equal( expected );
@@ -2,10 +2,12 @@ import { expect } from 'chai';
 import * as sinon from 'sinon';
 
 import { ElementFactory, $Scope, $Attrs, $Interpolate, $Parse } from '../../../utils';
-import { DirectiveMetadata } from '../../../../src/core/directives/metadata_directives';
+import { DirectiveMetadata, ComponentMetadata } from '../../../../src/core/directives/metadata_directives';
+import { ChangeDetectionStrategy } from '../../../../src/core/change_detection/constants';
+import * as changeDetectorRef from '../../../../src/core/change_detection/change_detector_ref';
 import { StringMapWrapper } from '../../../../src/facade/collections';
 import { _createDirectiveBindings } from '../../../../src/core/directives/binding/binding_factory';
-import { isFunction, isPresent } from '../../../../src/facade/lang';
+import { isFunction, isPresent, global } from '../../../../src/facade/lang';
 import { EventEmitter } from '../../../../src/facade/async';
 
 describe( `directives/binding/binding_factory`, () => {
@@ -163,6 +165,59 @@ describe( `directives/binding/binding_factory`, () => {
 
     } );
 
+    it( `should mark OnPush component for check when @Input changes`, ()=> {
+
+      const markForCheck = sandbox.stub( changeDetectorRef, '_markForCheck' );
+      const angular = global.angular;
+      global.angular = { copy: ( value )=> StringMapWrapper.assign( {}, value ) } as any;
+
+      const metadata = new ComponentMetadata( {
+        selector: 'foo',
+        template: 'foo',
+        inputs: [ 'user: <', 'name: @' ],
+        changeDetection: ChangeDetectionStrategy.OnPush
+      } );
+      const isolateScope = new $Scope() as any;
+      isolateScope.$parent = $scope;
+      $attrs.user = '$ctrl.user';
+      $attrs.name = 'hello';
+
+      _createDirectiveBindings( true, isolateScope, $attrs, ctrl, metadata, services );
+
+      const [[,userListener]] = $scope.$$watchers;
+      const [nameListener] = $attrs.$$observers.name;
+      const user = { name: 'Martin' };
+
+      userListener( user, 'initial' );
+      nameListener( 'hello world' );
+
+      global.angular = angular;
+
+      expect( ctrl.user ).to.deep.equal( user );
+      expect( ctrl.user ).to.not.equal( user );
+      expect( markForCheck.calledTwice ).to.equal( true );
+      expect( markForCheck.alwaysCalledWith( isolateScope ) ).to.equal( true );
+
+    } );
+
+    it( `should not mark Default component for check`, ()=> {
+
+      const markForCheck = sandbox.stub( changeDetectorRef, '_markForCheck' );
+
+      const metadata = new ComponentMetadata( { selector: 'foo', template: 'foo', inputs: [ 'user: <' ] } );
+      const isolateScope = new $Scope() as any;
+      isolateScope.$parent = $scope;
+      $attrs.user = '$ctrl.user';
+
+      _createDirectiveBindings( true, isolateScope, $attrs, ctrl, metadata, services );
+
+      const [[,userListener]] = $scope.$$watchers;
+      userListener( {}, 'initial' );
+
+      expect( markForCheck.called ).to.equal( false );
+
+    } );
+
   } );
 
 } );
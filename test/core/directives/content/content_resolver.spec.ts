@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { global } from '../../../../src/facade/lang';
+import {
+  _hasContentProjection,
+  _createTransclusion,
+  _replaceContentProjection,
+  _parseContentSlots
+} from '../../../../src/core/directives/content/content_resolver';
+
+describe( `directives/content/content_resolver`, () => {
+
+  const cardTemplate = `
+    <header><ng-content select="card-header"></ng-content></header>
+    <section><ng-content></ng-content></section>
+    <footer><ng-content select='card-footer'></ng-content></footer>
+  `;
+
+  describe( `#_parseContentSlots`, () => {
+
+    it( `should parse all <ng-content> projection points`, () => {
+
+      expect( _parseContentSlots( cardTemplate ) ).to.deep.equal( [
+        { select: 'card-header', slotName: 'cardHeader' },
+        { select: null, slotName: null },
+        { select: 'card-footer', slotName: 'cardFooter' }
+      ] );
+      expect( _parseContentSlots( '<div></div>' ) ).to.deep.equal( [] );
+
+    } );
+
+    it( `should throw if select is not an element name`, () => {
+
+      expect( () => _parseContentSlots( '<ng-content select=".header"></ng-content>' ) )
+        .to.throw( /<ng-content select=".header"> is not supported/ );
+      expect( () => _parseContentSlots( '<ng-content select="[header]"></ng-content>' ) ).to.throw();
+
+    } );
+
+  } );
+
+  describe( `#_hasContentProjection`, () => {
+
+    it( `should check if template contains any <ng-content>`, () => {
+
+      expect( _hasContentProjection( cardTemplate ) ).to.equal( true );
+      expect( _hasContentProjection( '<ng-content></ng-content>' ) ).to.equal( true );
+      expect( _hasContentProjection( '<ng-transclude></ng-transclude>' ) ).to.equal( false );
+      expect( _hasContentProjection( undefined ) ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_createTransclusion`, () => {
+
+    it( `should create optional multi-slot transclusion map from select slots`, () => {
+
+      expect( _createTransclusion( cardTemplate ) ).to.deep.equal( {
+        cardHeader: '?card-header',
+        cardFooter: '?card-footer'
+      } );
+
+    } );
+
+    it( `should throw for select slots if angular doesn't support multi-slot transclusion`, () => {
+
+      const angular = global.angular;
+      global.angular = { version: { full: '1.4.10', major: 1, minor: 4 } } as any;
+
+      expect( () => _createTransclusion( cardTemplate ) ).to.throw(
+        /<ng-content select="card-header"> needs angular 1.5\+ multi-slot transclusion, but angular 1.4.10 is used/
+      );
+      expect( _createTransclusion( '<div><ng-content></ng-content></div>' ) ).to.equal( true );
+
+      global.angular = { version: { full: '1.5.8', major: 1, minor: 5 } } as any;
+
+      expect( _createTransclusion( cardTemplate ) ).to.deep.equal( {
+        cardHeader: '?card-header',
+        cardFooter: '?card-footer'
+      } );
+
+      global.angular = angular;
+
+    } );
+
+    it( `should enable default transclusion if there are no select slots`, () => {
+
+      expect( _createTransclusion( '<div><ng-content></ng-content></div>' ) ).to.equal( true );
+
+    } );
+
+    it( `should disable transclusion if there is no <ng-content>`, () => {
+
+      expect( _createTransclusion( '<div></div>' ) ).to.equal( false );
+      expect( _createTransclusion( undefined ) ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_replaceContentProjection`, () => {
+
+    it( `should replace <ng-content> by <ng-transclude>`, () => {
+
+      expect( _replaceContentProjection( cardTemplate ) ).to.equal( `
+    <header><ng-transclude ng-transclude-slot="cardHeader"></ng-transclude></header>
+    <section><ng-transclude></ng-transclude></section>
+    <footer><ng-transclude ng-transclude-slot="cardFooter"></ng-transclude></footer>
+  ` );
+
+    } );
+
+  } );
+
+} );
@@ -2,13 +2,20 @@ import { expect } from 'chai';
 import * as sinon from 'sinon';
 
 import { ElementFactory, $Scope, $Attrs, getNg1InjectorMock } from '../../../utils';
-import { DirectiveMetadata } from '../../../../src/core/directives/metadata_directives';
+import { DirectiveMetadata, ComponentMetadata } from '../../../../src/core/directives/metadata_directives';
+import { ChangeDetectorRef } from '../../../../src/core/change_detection/change_detector_ref';
+import { ChangeDetectorState } from '../../../../src/core/change_detection/constants';
 import { NgmDirective } from '../../../../src/core/directives/constants';
 import {
   directiveControllerFactory,
   getRequiredControllers, createNewInjectablesToMatchLocalDi, getEmptyRequiredControllers
 } from '../../../../src/core/directives/controller/controller_factory';
 import { isFunction } from '../../../../src/facade/lang';
+import { ElementInjector, ELEMENT_INJECTOR_KEY } from '../../../../src/core/di/element_injector';
+import { TemplateRef } from '../../../../src/core/linker/template_ref';
+import { ViewContainerRef } from '../../../../src/core/linker/view_container_ref';
+import { ElementRef } from '../../../../src/core/linker/element_ref';
+import { DomRenderer } from '../../../../src/core/render/dom_renderer';
 
 describe( `directives/controller/controller_factory`, () => {
 
@@ -239,6 +246,161 @@ describe( `directives/controller/controller_factory`, () => {
 
     } );
 
+    it( `should create element injector and inject scoped providers instead of global ones`, ()=> {
+
+      const globalSvc = { hello(){} };
+      const scopedSvc = { hello(){} };
+
+      class Controller{
+        static $inject = ['mySvc','otherSvc'];
+        constructor(public mySvc, public otherSvc){}
+      }
+      const caller = {};
+      const requireMap: StringMap = {};
+      const _ddo: NgmDirective = {};
+
+      locals.mySvc = globalSvc;
+      locals.otherSvc = globalSvc;
+
+      const actual = directiveControllerFactory(
+        caller as any,
+        Controller,
+        $injector,
+        locals,
+        requireMap,
+        _ddo,
+        metadata,
+        { providers: { mySvc: { method: 'value', value: scopedSvc } } }
+      );
+
+      expect( actual.mySvc ).to.equal( scopedSvc );
+      expect( actual.otherSvc ).to.equal( globalSvc );
+      expect( jqDataStub.calledWith( ELEMENT_INJECTOR_KEY ) ).to.equal( true );
+      expect( jqDataStub.getCall( 0 ).args[ 1 ] ).to.be.an.instanceof( ElementInjector );
+
+    } );
+
+    it( `should inject static host element attributes requested via @Attribute() without watchers`, ()=> {
+
+      class Controller{
+        static $inject = ['@type','@aria-label','@placeholder','mySvc'];
+        constructor(public type, public ariaLabel, public placeholder, public mySvc){}
+        ngOnChanges(){}
+      }
+      const caller = {};
+      const requireMap: StringMap = {};
+      const _ddo: NgmDirective = {};
+      const mySvc = { hello(){} };
+      const ngOnChangesSpy = sinon.spy( Controller.prototype, 'ngOnChanges' );
+
+      $attrs.type = 'text';
+      $attrs.ariaLabel = 'User name';
+      locals.mySvc = mySvc;
+
+      const actual = directiveControllerFactory(
+        caller as any,
+        Controller,
+        $injector,
+        locals,
+        requireMap,
+        _ddo,
+        new DirectiveMetadata( { selector: '[my-input]' } )
+      );
+
+      expect( actual.type ).to.equal( 'text' );
+      expect( actual.ariaLabel ).to.equal( 'User name' );
+      expect( actual.placeholder ).to.equal( null );
+      expect( actual.mySvc ).to.equal( mySvc );
+      expect( Object.keys( $attrs.$$observers ) ).to.deep.equal( [] );
+      expect( ngOnChangesSpy.calledWith( {} ) ).to.equal( true );
+
+      ngOnChangesSpy.restore();
+
+    } );
+
+    it( `should inject ElementRef holding host native element and Renderer`, ()=> {
+
+      class Controller{
+        static $inject = ['elementRef','renderer'];
+        constructor(public elementRef: ElementRef, public renderer: DomRenderer){}
+      }
+      const caller = {};
+      const requireMap: StringMap = {};
+      const _ddo: NgmDirective = {};
+
+      const actual = directiveControllerFactory(
+        caller as any,
+        Controller,
+        $injector,
+        locals,
+        requireMap,
+        _ddo,
+        new DirectiveMetadata( { selector: '[my-highlight]' } )
+      );
+
+      expect( actual.elementRef instanceof ElementRef ).to.equal( true );
+      expect( actual.elementRef.nativeElement ).to.equal( $element[ 0 ] );
+      expect( actual.renderer instanceof DomRenderer ).to.equal( true );
+
+    } );
+
+    it( `should inject TemplateRef and ViewContainerRef created from element transclusion`, ()=> {
+
+      class Controller{
+        static $inject = ['viewContainerRef','templateRef'];
+        constructor(public viewContainer: ViewContainerRef, public templateRef: TemplateRef){}
+      }
+      const caller = {};
+      const requireMap: StringMap = {};
+      const _ddo: NgmDirective = {};
+      const getSpy = sinon.spy( $injector, 'get' );
+
+      const actual = directiveControllerFactory(
+        caller as any,
+        Controller,
+        $injector,
+        locals,
+        requireMap,
+        _ddo,
+        new DirectiveMetadata( { selector: '[my-unless]' } )
+      );
+
+      expect( actual.viewContainer instanceof ViewContainerRef ).to.equal( true );
+      expect( actual.templateRef instanceof TemplateRef ).to.equal( true );
+      expect( getSpy.calledWith( '$animate' ) ).to.equal( true );
+
+      getSpy.restore();
+
+    } );
+
+    it( `should set component change detector to Errored state if lifecycle hook throws`, ()=> {
+
+      class Controller{
+        static $inject = ['changeDetectorRef'];
+        constructor(public changeDetectorRef: ChangeDetectorRef){}
+        ngOnInit(){ throw new Error( 'init failed' ) }
+      }
+      const caller = {};
+      const requireMap: StringMap = {};
+      const _ddo: NgmDirective = {};
+      $scope.$parent = new $Scope();
+
+      const actual = directiveControllerFactory(
+        caller as any,
+        Controller,
+        $injector,
+        locals,
+        requireMap,
+        _ddo,
+        new ComponentMetadata( { selector: 'my-cmp', template: 'hello' } )
+      );
+
+      expect( actual.changeDetectorRef.state ).to.equal( ChangeDetectorState.NeverChecked );
+      expect( () => _ddo._ngOnInitBound() ).to.throw( 'init failed' );
+      expect( actual.changeDetectorRef.state ).to.equal( ChangeDetectorState.Errored );
+
+    } );
+
   } );
 
   describe( `#getRequiredControllers`, ()=> {
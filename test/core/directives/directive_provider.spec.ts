@@ -21,6 +21,11 @@ import { $Scope, $Attrs, ElementFactory } from '../../utils';
 import { directiveProvider } from '../../../src/core/directives/directive_provider';
 import { NgModel } from '../../../src/common/directives/ng_model';
 import { NgmDirective } from '../../../src/core/directives/constants';
+import { ViewEncapsulation } from '../../../src/core/directives/styles/constants';
+import { provide } from '../../../src/core/di/provider';
+import { TemplateRef } from '../../../src/core/linker/template_ref';
+import { ViewContainerRef } from '../../../src/core/linker/view_container_ref';
+import { _templateRequestDecorator } from '../../../src/core/directives/template/template_resolver';
 
 describe( `directives/directive_provider`, ()=> {
 
@@ -440,6 +445,254 @@ describe( `directives/directive_provider`, ()=> {
 
   } );
 
+  describe( `template preprocessing`, ()=> {
+
+    function createElementMock() {
+      const children = { attr: sinon.spy() };
+      return {
+        children,
+        attr: sinon.spy(),
+        find: sinon.stub().returns( children )
+      } as any;
+    }
+
+    it( `should stamp template elements from DDO compile for emulated encapsulation and return link`, ()=> {
+
+      @Component( {
+        selector: 'styled-cmp',
+        template: `<h1>hello</h1>`,
+        styles: [ 'h1 { color: red }' ]
+      } )
+      class StyledCmp {}
+
+      const [,directiveFactory] = directiveProvider.createFromType( StyledCmp );
+      const ddo: NgmDirective = directiveFactory();
+      const tElement = createElementMock();
+
+      expect( isFunction( ddo.compile ) ).to.equal( true );
+      expect( ddo.compile( tElement, {} as ng.IAttributes, noop as ng.ITranscludeFunction ) ).to.equal( ddo.link );
+      expect( tElement.attr.calledWith( '_nghost-styled-cmp', '' ) ).to.equal( true );
+      expect( tElement.children.attr.calledWith( '_ngcontent-styled-cmp', '' ) ).to.equal( true );
+
+    } );
+
+    it( `should call static compile after stamping template elements`, ()=> {
+
+      const spyFromCompile = sinon.spy();
+
+      @Component( {
+        selector: 'styled-cmp',
+        template: `<h1>hello</h1>`,
+        styles: [ 'h1 { color: red }' ]
+      } )
+      class StyledCmp {
+        static compile( tElement: ng.IAugmentedJQuery ) {
+          spyFromCompile( (tElement.attr as sinon.SinonSpy).called );
+        }
+      }
+
+      const [,directiveFactory] = directiveProvider.createFromType( StyledCmp );
+      const ddo: NgmDirective = directiveFactory();
+
+      ddo.compile( createElementMock(), {} as ng.IAttributes, noop as ng.ITranscludeFunction );
+
+      expect( spyFromCompile.calledWith( true ) ).to.equal( true );
+
+    } );
+
+    it( `should replace template reference variables from DDO compile`, ()=> {
+
+      @Component( {
+        selector: 'with-refs',
+        template: `<tabs #tabs></tabs>`
+      } )
+      class WithRefsCmp {}
+
+      const tabsElement = {
+        attributes: [ { name: '#tabs', value: '' } ],
+        removeAttribute: sinon.spy(),
+        setAttribute: sinon.spy()
+      };
+      const tElement = { '0': { querySelectorAll() { return [ tabsElement ] } } } as any;
+
+      const [,directiveFactory] = directiveProvider.createFromType( WithRefsCmp );
+      const ddo: NgmDirective = directiveFactory();
+
+      expect( ddo.compile( tElement, {} as ng.IAttributes, noop as ng.ITranscludeFunction ) ).to.equal( ddo.link );
+      expect( tabsElement.removeAttribute.calledWith( '#tabs' ) ).to.equal( true );
+      expect( tabsElement.setAttribute.calledWith( 'ngm-ref', 'tabs' ) ).to.equal( true );
+
+    } );
+
+    it( `should not create DDO compile for components without refs and styles or with ViewEncapsulation.None`, ()=> {
+
+      @Component( {
+        selector: 'plain-cmp',
+        template: `<h1>hello</h1>`
+      } )
+      class PlainCmp {}
+
+      @Component( {
+        selector: 'global-styled-cmp',
+        template: `<h1>hello</h1>`,
+        styles: [ 'h1 { color: red }' ],
+        encapsulation: ViewEncapsulation.None
+      } )
+      class GlobalStyledCmp {}
+
+      const [,plainFactory] = directiveProvider.createFromType( PlainCmp );
+      const [,globalStyledFactory] = directiveProvider.createFromType( GlobalStyledCmp );
+
+      expect( plainFactory().compile ).to.equal( undefined );
+      expect( globalStyledFactory().compile ).to.equal( undefined );
+
+    } );
+
+  } );
+
+  describe( `content projection`, ()=> {
+
+    it( `should create multi-slot transclusion from <ng-content> projection points`, ()=> {
+
+      @Component( {
+        selector: 'card',
+        template: `<ng-content select="card-header"></ng-content><div><ng-content></ng-content></div>`
+      } )
+      class CardCmp implements AfterContentInit {
+        ngAfterContentInit() {}
+      }
+
+      const [,directiveFactory] = directiveProvider.createFromType( CardCmp );
+      const ddo: ng.IDirective = directiveFactory();
+
+      expect( ddo.template ).to.equal(
+        `<ng-transclude ng-transclude-slot="cardHeader"></ng-transclude><div><ng-transclude></ng-transclude></div>`
+      );
+      expect( ddo.transclude ).to.deep.equal( { cardHeader: '?card-header' } );
+
+    } );
+
+    it( `should enable default transclusion for single <ng-content> and allow legacy to override it`, ()=> {
+
+      @Component( {
+        selector: 'panel',
+        template: `<div><ng-content></ng-content></div>`
+      } )
+      class PanelCmp {}
+
+      @Component( {
+        selector: 'legacy-panel',
+        template: `<div><ng-content></ng-content></div>`,
+        legacy: { transclude: 'element' }
+      } )
+      class LegacyPanelCmp {}
+
+      expect( directiveProvider.createFromType( PanelCmp )[ 1 ]().transclude ).to.equal( true );
+      expect( directiveProvider.createFromType( LegacyPanelCmp )[ 1 ]().transclude ).to.equal( 'element' );
+
+    } );
+
+    it( `should resolve transclusion of templateUrl from $templateCache when directive is created`, ()=> {
+
+      @Component( {
+        selector: 'url-card',
+        templateUrl: 'url-card.html'
+      } )
+      class UrlCardCmp {}
+
+      const $templateCache = {
+        get: ( url: string ) => url === 'url-card.html'
+          ? `<ng-content select="card-header"></ng-content><div><ng-content></ng-content></div>`
+          : undefined
+      } as ng.ITemplateCacheService;
+
+      const [,directiveFactory] = directiveProvider.createFromType( UrlCardCmp );
+
+      expect( (directiveFactory as any).$inject ).to.deep.equal( [ '$templateCache' ] );
+      expect( directiveFactory( $templateCache ).transclude ).to.deep.equal( { cardHeader: '?card-header' } );
+
+    } );
+
+    it( `should project content of templateUrl same as angular $compile does: factory first, template loaded later`, ()=> {
+
+      @Component( {
+        selector: 'cached-card',
+        templateUrl: 'cached-card.html'
+      } )
+      class CachedCardCmp {}
+
+      @Component( {
+        selector: 'fetched-card',
+        templateUrl: 'fetched-card.html'
+      } )
+      class FetchedCardCmp {}
+
+      const cardTemplate = `<ng-content select="card-header"></ng-content><div><ng-content></ng-content></div>`;
+      const $templateCache = {
+        get: ( url: string ) => url === 'cached-card.html' ? cardTemplate : undefined
+      } as ng.ITemplateCacheService;
+      // synchronous promise stub of $templateRequest, so we don't need $q
+      const resolved = ( value ) => ({ then: ( fn ) => resolved( fn( value ) ) });
+      const $templateRequest = _templateRequestDecorator( (() => resolved( cardTemplate )) as any );
+
+      // $compile invokes directive factories before it requests templateUrl
+      const cachedDdo = directiveProvider.createFromType( CachedCardCmp )[ 1 ]( $templateCache );
+      const fetchedDdo = directiveProvider.createFromType( FetchedCardCmp )[ 1 ]( $templateCache );
+
+      let template: string;
+      $templateRequest( cachedDdo.templateUrl ).then( ( tpl ) => template = tpl );
+
+      expect( cachedDdo.transclude ).to.deep.equal( { cardHeader: '?card-header' } );
+      expect( template ).to.equal(
+        `<ng-transclude ng-transclude-slot="cardHeader"></ng-transclude><div><ng-transclude></ng-transclude></div>`
+      );
+
+      expect( fetchedDdo.transclude ).to.equal( false );
+      expect( () => $templateRequest( fetchedDdo.templateUrl ) ).to.throw(
+        /<ng-content> within templateUrl "fetched-card.html" cannot be projected/
+      );
+
+    } );
+
+  } );
+
+  describe( `structural directives`, ()=> {
+
+    it( `should create element transcluding directive if it injects TemplateRef`, ()=> {
+
+      @Directive( { selector: '[my-unless]' } )
+      class UnlessDirective {
+        constructor( private viewContainer: ViewContainerRef, private templateRef: TemplateRef ) {}
+      }
+
+      const [directiveName,directiveFactory] = provide( UnlessDirective );
+      const ddo: ng.IDirective = directiveFactory();
+
+      expect( directiveName ).to.equal( 'myUnless' );
+      expect( ddo.transclude ).to.equal( 'element' );
+      expect( ddo.priority ).to.equal( 600 );
+      expect( ddo.terminal ).to.equal( true );
+
+    } );
+
+    it( `should replace template sugar within component template`, ()=> {
+
+      @Component( {
+        selector: 'with-sugar',
+        template: `<p *my-unless="$ctrl.hidden"></p>`
+      } )
+      class WithSugarCmp {}
+
+      const [,directiveFactory] = directiveProvider.createFromType( WithSugarCmp );
+      const ddo: ng.IDirective = directiveFactory();
+
+      expect( ddo.template ).to.equal( `<p my-unless [my-unless]="$ctrl.hidden"></p>` );
+      expect( ddo.compile ).to.equal( undefined );
+
+    } );
+
+  } );
+
   describe( `life cycles`, ()=> {
 
     let $element;
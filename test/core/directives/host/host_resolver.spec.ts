@@ -6,7 +6,39 @@ import {
   _setHostBindings, _setHostListeners,
   _getHostListenerCbParams
 } from '../../../../src/core/directives/host/host_resolver';
-import { isFunction } from '../../../../src/facade/lang';
+import { isFunction, global } from '../../../../src/facade/lang';
+import { DomRenderer } from '../../../../src/core/render/dom_renderer';
+
+const renderer = new DomRenderer();
+
+/**
+ * default DomRenderer wraps native elements via angular.element, so return our jqLite mocks for them
+ */
+function stubAngularElement( $element ) {
+  const originalAngular = global.angular;
+  const $document = $element.injector().get( '$document' );
+  global.angular = {
+    element: ( renderElement ) => renderElement === $document[ 0 ] ? $document : $element
+  };
+  return originalAngular;
+}
+
+function createRendererMock() {
+  const listeners = [];
+  return {
+    listeners,
+    setElementProperty: sinon.spy(),
+    setElementAttribute: sinon.spy(),
+    setElementClass: sinon.spy(),
+    setElementStyle: sinon.spy(),
+    invokeElementMethod: sinon.spy(),
+    listen: sinon.spy( ( renderElement, name, cb ) => {
+      const listener = { renderElement, name, cb, unlisten: sinon.spy() };
+      listeners.push( listener );
+      return listener.unlisten;
+    } )
+  };
+}
 
 describe( `directives/host/host_resolver`, () => {
 
@@ -20,15 +52,21 @@ describe( `directives/host/host_resolver`, () => {
       properties: { 'style.fontSize': 'fontSize' } as StringMap
     };
     let ctrl = { isFoo: true, aria: 'hello', fontSize: 12 };
+    let originalAngular;
 
     beforeEach( ()=> {
       $scope = new $Scope();
       $element = ElementFactory();
+      originalAngular = stubAngularElement( $element );
+    } );
+
+    afterEach( ()=> {
+      global.angular = originalAngular;
     } );
 
     it( `should create array of scope.$watch disposable callbacks`, ()=> {
 
-      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings );
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
 
       expect( actual.length ).to.deep.equal( 3 );
       expect( actual.every( isFunction ) ).to.deep.equal( true );
@@ -38,7 +76,7 @@ describe( `directives/host/host_resolver`, () => {
 
     it( `should toggle host bindings appropriately for class bindings`, ()=> {
 
-      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings );
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
 
       const classWatcher = $scope.$$watchers[ 0 ];
       const [watchExp,watchListener] = classWatcher;
@@ -55,7 +93,7 @@ describe( `directives/host/host_resolver`, () => {
 
     it( `should toggle host bindings appropriately for attr bindings`, ()=> {
 
-      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings );
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
 
       const attrWatcher = $scope.$$watchers[ 1 ];
       const [watchExp,watchListener] = attrWatcher;
@@ -72,7 +110,7 @@ describe( `directives/host/host_resolver`, () => {
 
     it( `should toggle host bindings appropriately for prop bindings`, ()=> {
 
-      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings );
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
 
       const propWatcher = $scope.$$watchers[ 2 ];
       const [watchExp,watchListener] = propWatcher;
@@ -89,6 +127,87 @@ describe( `directives/host/host_resolver`, () => {
 
   } );
 
+  describe( `#_setHostBindings with custom Renderer`, ()=> {
+
+    let $scope;
+    let $element;
+    let hostBindings = {
+      classes: { 'is-foo': 'isFoo' } as StringMap,
+      attributes: { 'aria-label': 'aria' } as StringMap,
+      properties: { 'style.fontSize': 'fontSize' } as StringMap
+    };
+    let ctrl = { isFoo: true, aria: 'hello', fontSize: 12 };
+    let renderer;
+
+    beforeEach( ()=> {
+      $scope = new $Scope();
+      $element = ElementFactory();
+      renderer = createRendererMock();
+    } );
+
+    it( `should create array of scope.$watch disposable callbacks`, ()=> {
+
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
+
+      expect( actual.length ).to.deep.equal( 3 );
+      expect( actual.every( isFunction ) ).to.deep.equal( true );
+      expect( $scope.$$watchers.length ).to.equal( 3 );
+
+    } );
+
+    it( `should toggle host bindings appropriately for class bindings`, ()=> {
+
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
+
+      const classWatcher = $scope.$$watchers[ 0 ];
+      const [watchExp,watchListener] = classWatcher;
+
+      expect( watchExp() ).to.equal( true );
+
+      watchListener( true );
+      expect( renderer.setElementClass.calledWith( $element[ 0 ], 'is-foo', true ) ).to.equal( true );
+
+      watchListener( false );
+      expect( renderer.setElementClass.calledWith( $element[ 0 ], 'is-foo', false ) ).to.equal( true );
+
+    } );
+
+    it( `should toggle host bindings appropriately for attr bindings`, ()=> {
+
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
+
+      const attrWatcher = $scope.$$watchers[ 1 ];
+      const [watchExp,watchListener] = attrWatcher;
+
+      expect( watchExp() ).to.equal( 'hello' );
+
+      watchListener( 'nope' );
+      expect( renderer.setElementAttribute.calledWith( $element[ 0 ], 'aria-label', 'nope' ) ).to.equal( true );
+
+      watchListener( 'yay' );
+      expect( renderer.setElementAttribute.calledWith( $element[ 0 ], 'aria-label', 'yay' ) ).to.equal( true );
+
+    } );
+
+    it( `should toggle host bindings appropriately for prop bindings`, ()=> {
+
+      const actual = _setHostBindings( $scope, $element, ctrl, hostBindings, renderer );
+
+      const propWatcher = $scope.$$watchers[ 2 ];
+      const [watchExp,watchListener] = propWatcher;
+
+      expect( watchExp() ).to.equal( 12 );
+
+      watchListener( '12px' );
+      expect( renderer.setElementProperty.calledWith( $element[ 0 ], 'style.fontSize', '12px' ) ).to.equal( true );
+
+      watchListener( '2rem' );
+      expect( renderer.setElementProperty.calledWith( $element[ 0 ], 'style.fontSize', '2rem' ) ).to.equal( true );
+
+    } );
+
+  } );
+
   describe( `#_setHostListeners`, () => {
 
     const sandbox = sinon.sandbox.create();
@@ -115,13 +234,17 @@ describe( `directives/host/host_resolver`, () => {
       preventDefault: sandbox.spy()
     };
 
+    let originalAngular;
+
     beforeEach( ()=> {
       $element = ElementFactory();
       $scope = new $Scope();
-      _setHostListeners( $scope, $element, ctrl, hostListeners );
+      originalAngular = stubAngularElement( $element );
+      _setHostListeners( $scope, $element, ctrl, hostListeners, renderer );
     } );
 
     afterEach( ()=> {
+      global.angular = originalAngular;
       event.preventDefault.reset();
       sandbox.restore();
     } );
@@ -189,6 +312,117 @@ describe( `directives/host/host_resolver`, () => {
 
   } );
 
+  describe( `#_setHostListeners with custom Renderer`, () => {
+
+    const sandbox = sinon.sandbox.create();
+    let $element;
+    let $scope;
+    let hostListeners = {
+      'click': [ 'onClick', '$event' ],
+      'mousemove': [ 'onMove', '$event.target.x', '$event.target.x' ],
+      'mouseout': [ 'onOut' ],
+      'document: click': [ 'onDocumentClick' ]
+    } as {[key:string]:string[]};
+    let ctrl = {
+      onClick: sandbox.spy( ( evt ) => { return false } ),
+      onMove: sandbox.spy( ( x, y ) => {} ),
+      onOut: sandbox.spy( () => {} ),
+      onDocumentClick: sandbox.spy( ( evt ) => ({}) )
+    };
+    let event = {
+      target: {
+        position: 123,
+        x: 111,
+        y: 3333
+      },
+      preventDefault: sandbox.spy()
+    };
+
+    let renderer;
+    let elementListeners;
+
+    beforeEach( ()=> {
+      $element = ElementFactory();
+      $scope = new $Scope();
+      renderer = createRendererMock();
+      _setHostListeners( $scope, $element, ctrl, hostListeners, renderer );
+      elementListeners = renderer.listeners.filter( ( listener ) => listener.renderElement === $element[ 0 ] );
+    } );
+
+    afterEach( ()=> {
+      event.preventDefault.reset();
+      sandbox.restore();
+    } );
+
+    it( `should register proper host listeners`, ()=> {
+
+      const allAreFunctions = elementListeners.every( evListener=> {
+        return isFunction( evListener.cb );
+      } );
+
+      expect( elementListeners.map( ( listener ) => listener.name ) ).to.deep.equal( [ 'click', 'mousemove', 'mouseout' ] );
+      expect( allAreFunctions ).to.equal( true );
+
+    } );
+
+    it( `should register proper global host listeners`, () => {
+
+      const $document = $element.injector().get( '$document' );
+      const [documentListener] = renderer.listeners.filter( ( listener ) => listener.renderElement === $document[ 0 ] );
+
+      expect( documentListener.name ).to.equal( 'click' );
+      expect( isFunction( documentListener.cb ) ).to.equal( true );
+
+      $scope.$emit( '$destroy' );
+
+      expect( documentListener.unlisten.called ).to.equal( true );
+
+    } );
+
+    it( `should call proper controller method on element event trigger`, ()=> {
+
+      const [{cb:clickCb},{cb:moveCb},{cb:outCb}] = elementListeners;
+
+      expect( ctrl.onClick.called ).to.equal( false );
+      clickCb( event );
+      expect( ctrl.onClick.called ).to.equal( true );
+
+      expect( ctrl.onMove.called ).to.equal( false );
+      moveCb( event );
+      expect( ctrl.onMove.called ).to.equal( true );
+
+      expect( ctrl.onOut.called ).to.equal( false );
+      outCb( event );
+      expect( ctrl.onOut.called ).to.equal( true );
+
+    } );
+
+    it( `should call event.preventDefault if ctrl method call returns false`, ()=> {
+
+      const [{cb:clickCb}] = elementListeners;
+
+      expect( event.preventDefault.called ).to.equal( false );
+
+      clickCb( event );
+
+      expect( event.preventDefault.called ).to.equal( true );
+
+    } );
+
+    it( `should not call event.preventDefault if ctrl method call doesn't return false`, ()=> {
+
+      const [,,{cb:outCb}] = elementListeners;
+
+      expect( event.preventDefault.called ).to.equal( false );
+
+      outCb( event );
+
+      expect( event.preventDefault.called ).to.equal( false );
+
+    } );
+
+  } );
+
   describe( `#_getHostListenerCbParams`, ()=> {
 
     it( `should throw if event name doesn't have $event prefix`, ()=> {
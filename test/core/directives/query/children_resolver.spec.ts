@@ -17,8 +17,14 @@ import {
   getControllerOnElement,
   _getSelectorAndCtrlName,
   _getSelector,
-  _getParentCheckNotifiers
+  _getParentCheckNotifiers,
+  _setupQuery,
+  _readChild,
+  _getQueryRefNames
 } from '../../../../src/core/directives/query/children_resolver';
+import { ViewChildrenMetadata, ContentChildrenMetadata } from '../../../../src/core/directives/metadata_di';
+import { QueryList } from '../../../../src/core/linker/query_list';
+import { ElementRef } from '../../../../src/core/linker/element_ref';
 import { DirectiveCtrl } from '../../../../src/core/directives/constants';
 import { Inject } from '../../../../src/core/di/decorators';
 import { forwardRef } from '../../../../src/core/di/forward_ref';
@@ -76,13 +82,15 @@ describe( `directives/query/children_resolver`, () => {
       expect( ctrl.oneCmp ).to.equal( $element );
 
     } );
-    it( `should return just jqLite element collection if querying for string`, ()=> {
+    it( `should return QueryList of jqLite elements if querying for string`, ()=> {
 
       const viewChildrenResolver = _resolveChildrenFactory( $element, ctrl, 'oneCmpList', '.yo-mama', 'view' );
       viewChildrenResolver();
 
       expect( $element.controller.called ).to.equal( false );
-      expect( ctrl.oneCmpList ).to.equal( multiRef );
+      expect( ctrl.oneCmpList instanceof QueryList ).to.equal( true );
+      expect( ctrl.oneCmpList.length ).to.equal( 3 );
+      expect( ctrl.oneCmpList.toArray().every( ( child )=> child === $element ) ).to.equal( true );
 
     } );
 
@@ -108,7 +116,7 @@ describe( `directives/query/children_resolver`, () => {
       viewChildrenResolver();
 
       expect( $element.controller.calledWith('fooCmp') ).to.equal( true );
-      expect( ctrl.oneCmpList ).to.deep.equal( [{ iamHere: true },{ iamHere: true },{ iamHere: true }] );
+      expect( ctrl.oneCmpList.toArray() ).to.deep.equal( [{ iamHere: true },{ iamHere: true },{ iamHere: true }] );
 
     } );
     it( `should set content child instance on controller`, ()=> {
@@ -133,13 +141,228 @@ describe( `directives/query/children_resolver`, () => {
       contentChildrenResolver();
 
       expect( $element.controller.calledWith('fooChildCmp') ).to.equal( true );
-      expect( ctrl.oneCmpList ).to.deep.equal( [{ iamHere: true },{ iamHere: true },{ iamHere: true }] );
+      expect( ctrl.oneCmpList.toArray() ).to.deep.equal( [{ iamHere: true },{ iamHere: true },{ iamHere: true }] );
       //contentChildrenResolver();
       //expect( $element.controller.calledWith('fooChildCmp') ).to.equal( true );
       //expect( ctrl ).to.deep.equal( { oneCmpList: { iamHere: true } } );
 
     } );
 
+    it( `should keep the same QueryList instance and notify its changes on every query recompute`, ()=> {
+
+      @Component({selector:'foo-cmp',template:'foo'})
+      class Foo{}
+
+      const viewChildrenResolver = _resolveChildrenFactory( $element, ctrl, 'oneCmpList', Foo, 'view' );
+      viewChildrenResolver();
+
+      const queryList = ctrl.oneCmpList;
+      const changesSpy = sinon.spy();
+      queryList.changes.subscribe( changesSpy );
+
+      viewChildrenResolver();
+
+      expect( ctrl.oneCmpList ).to.equal( queryList );
+      expect( changesSpy.calledOnce ).to.equal( true );
+      expect( changesSpy.calledWith( queryList ) ).to.equal( true );
+
+    } );
+
+    it( `should read provided directive from every queried element`, ()=> {
+
+      @Component({selector:'foo-cmp',template:'foo'})
+      class Foo{}
+      @Directive({selector:'[foo-child-cmp]'})
+      class FooChild{}
+
+      $element.length = 1;
+      const viewChildrenResolver = _resolveChildrenFactory(
+        $element, ctrl, 'oneCmpList', Foo, 'view', false, { read: FooChild }
+      );
+      viewChildrenResolver();
+
+      expect( $element.controller.calledWith( 'fooCmp' ) ).to.equal( false );
+      expect( $element.controller.calledWith( 'fooChildCmp' ) ).to.equal( true );
+      expect( ctrl.oneCmpList.toArray() ).to.deep.equal( [{ iamHere: true },{ iamHere: true },{ iamHere: true }] );
+
+    } );
+
+    describe( `template reference names`, ()=> {
+
+      function createRefElement( refs: string ) {
+        const $child = ElementFactory() as any;
+        $child.length = 1;
+        $child.attr = ( attrName )=> attrName === 'ngm-ref' ? refs : undefined;
+        return $child;
+      }
+
+      let $children;
+
+      beforeEach( ()=> {
+
+        $children = [
+          createRefElement( 'other' ),
+          createRefElement( 'myinput' ),
+          createRefElement( 'foo,mysecond:tooltip' )
+        ];
+        $children[ 2 ].data = ()=> ({ $tooltipController: mockedCtrlInstance });
+        ($children as any).eq = function ( idx: number ) {
+          return this[ idx ];
+        };
+        global.angular.element = ()=> $children;
+
+      } );
+
+      it( `should query elements with template references and return their values`, ()=> {
+
+        const viewChildResolver = _resolveChildrenFactory( $element, ctrl, 'input', 'myInput', 'view', true );
+        viewChildResolver();
+
+        expect( $element[ 0 ].querySelectorAll.firstCall.args[ 0 ] ).to.contain( '> [ngm-ref]' );
+        expect( ctrl.input ).to.equal( $children[ 1 ][ 0 ] );
+
+      } );
+
+      it( `should query elements by comma separated list of template reference names`, ()=> {
+
+        const viewChildrenResolver = _resolveChildrenFactory( $element, ctrl, 'refs', 'mySecond, myInput', 'view' );
+        viewChildrenResolver();
+
+        expect( ctrl.refs.toArray() ).to.deep.equal( [ $children[ 1 ][ 0 ], mockedCtrlInstance ] );
+
+      } );
+
+      it( `should query by CSS selector if there is no element with queried template reference`, ()=> {
+
+        const $cssChild = createRefElement( undefined );
+        global.angular.element = ( nodes )=> nodes === $element[ 0 ] ? $cssChild : $children;
+
+        const viewChildResolver = _resolveChildrenFactory( $element, ctrl, 'input', 'nope', 'view', true );
+        viewChildResolver();
+
+        expect( $element[ 0 ].querySelector.calledWith( ':not(ng-transclude):not([ng-transclude]) > nope' ) )
+          .to
+          .equal( true );
+        expect( ctrl.input ).to.equal( $cssChild );
+
+      } );
+
+      it( `should always query by CSS selector with css: prefix`, ()=> {
+
+        const viewChildrenResolver = _resolveChildrenFactory( $element, ctrl, 'inputs', 'css:myInput', 'view' );
+        viewChildrenResolver();
+
+        expect( $element[ 0 ].querySelectorAll.calledOnce ).to.equal( true );
+        expect( $element[ 0 ].querySelectorAll.calledWith( ':not(ng-transclude):not([ng-transclude]) > myInput' ) )
+          .to
+          .equal( true );
+        expect( ctrl.inputs.toArray() ).to.deep.equal( [ $children[ 0 ], $children[ 1 ], $children[ 2 ] ] );
+
+      } );
+
+      it( `should read provided token from elements with template reference`, ()=> {
+
+        const viewChildrenResolver = _resolveChildrenFactory(
+          $element, ctrl, 'refs', 'myInput', 'view', false, { read: ElementRef }
+        );
+        viewChildrenResolver();
+
+        expect( ctrl.refs.length ).to.equal( 1 );
+        expect( ctrl.refs.first.nativeElement ).to.equal( $children[ 1 ][ 0 ] );
+
+      } );
+
+    } );
+
+  } );
+
+  describe( `#_readChild`, ()=> {
+
+    let $child;
+    let tooltip;
+
+    beforeEach( ()=> {
+
+      tooltip = {};
+      $child = ElementFactory();
+      $child.length = 1;
+      $child.data = ()=> ({ $tooltipController: tooltip });
+      sinon.stub( $child, 'controller' )
+        .withArgs( 'fooCmp' ).returns( { foo: true } )
+        .withArgs( 'tooltip' ).returns( tooltip );
+
+    } );
+
+    it( `should read jqLite element for string selector and controller for Type selector by default`, ()=> {
+
+      expect( _readChild( $child, '.foo', 'foo', null ) ).to.equal( $child );
+      expect( _readChild( $child, noop, 'fooCmp', null ) ).to.deep.equal( { foo: true } );
+
+    } );
+
+    it( `should read ElementRef`, ()=> {
+
+      const elementRef = _readChild( $child, '.foo', 'foo', ElementRef );
+
+      expect( elementRef instanceof ElementRef ).to.equal( true );
+      expect( elementRef.nativeElement ).to.equal( $child[ 0 ] );
+
+    } );
+
+    it( `should read directive by exportAs or by Type`, ()=> {
+
+      @Directive({selector:'[tooltip]'})
+      class Tooltip{}
+
+      expect( _readChild( $child, '.foo', 'foo', 'tooltip' ) ).to.equal( tooltip );
+      expect( _readChild( $child, '.foo', 'foo', 'foo' ) ).to.equal( null );
+      expect( _readChild( $child, '.foo', 'foo', Tooltip ) ).to.equal( tooltip );
+
+    } );
+
+    it( `should read value of queried template reference by default if querying for reference names`, ()=> {
+
+      $child.attr = ()=> 'el,tip:tooltip';
+
+      expect( _readChild( $child, 'el', 'el', null ) ).to.equal( $child[ 0 ] );
+      expect( _readChild( $child, 'foo, tip', 'foo, tip', null ) ).to.equal( tooltip );
+      expect( _readChild( undefined, 'el', 'el', null ) ).to.equal( null );
+      expect( _readChild( $child, 'div', 'div', null ) ).to.equal( $child );
+
+    } );
+
+    it( `should return null if element was not found`, ()=> {
+
+      $child.length = 0;
+
+      expect( _readChild( $child, '.foo', 'foo', ElementRef ) ).to.equal( null );
+
+    } );
+
+  } );
+
+  describe( `#_setupQuery`, ()=> {
+
+    it( `should complete QueryList changes when scope is destroyed`, ()=> {
+
+      const destroyListeners = [];
+      const scope = {
+        $evalAsync( cb ){ cb() },
+        $on( name, listener ){ destroyListeners.push( listener ) }
+      };
+      const $element = ElementFactory();
+      const queryList = new QueryList<any>();
+      const ctrl = { items: queryList } as any;
+      const completeSpy = sinon.spy();
+
+      queryList.changes.subscribe( noop, noop, completeSpy );
+      _setupQuery( scope as any, $element, ctrl, { items: new ViewChildrenMetadata( 'li' ) } );
+      destroyListeners.forEach( ( listener )=> listener() );
+
+      expect( completeSpy.calledOnce ).to.equal( true );
+
+    } );
+
   } );
 
   describe( `#_getChildElements`, ()=> {
@@ -211,6 +434,46 @@ describe( `directives/query/children_resolver`, () => {
 
     } );
 
+    it( `should query only direct content children of own ng-transclude if descendants is false`, ()=> {
+
+      function createNode( nodeName: string, parentNode, attrs: string[] = [] ) {
+        return { nodeType: 1, nodeName, parentNode, hasAttribute: ( name )=> attrs.indexOf( name ) !== -1 };
+      }
+
+      // <tree> <ng-transclude> <tree-node#1> <div ng-transclude> <tree-node#2>
+      const host = $element[ 0 ];
+      const transclude = createNode( 'NG-TRANSCLUDE', host );
+      const node = createNode( 'TREE-NODE', transclude );
+      const nestedTransclude = createNode( 'DIV', node, [ 'ng-transclude' ] );
+      const nestedNode = createNode( 'TREE-NODE', nestedTransclude );
+
+      $element[ 0 ].querySelectorAll.returns( [ node, nestedNode ] );
+      global.angular = { element: sinon.spy( ( nodes )=> nodes ) } as any;
+
+      const actual = _getChildElements( $element, 'tree-node', 'content', false, false ) as any;
+
+      expect( $element[ 0 ].querySelectorAll.calledWith(
+        'ng-transclude > tree-node, [ng-transclude] > tree-node' ) )
+        .to
+        .equal( true );
+      expect( actual ).to.deep.equal( [ node ] );
+
+    } );
+
+    it( `should query all content descendants by default`, ()=> {
+
+      expect( new ContentChildrenMetadata( 'tree-node' ).descendants ).to.equal( true );
+      expect( new ContentChildrenMetadata( 'tree-node', { descendants: false } ).descendants ).to.equal( false );
+
+      _getChildElements( $element, 'tree-node', 'content', false, new ContentChildrenMetadata( 'tree-node' ).descendants );
+
+      expect( $element[ 0 ].querySelectorAll.calledWith(
+        'ng-transclude tree-node, [ng-transclude] tree-node' ) )
+        .to
+        .equal( true );
+
+    } );
+
 
   } );
 
@@ -290,6 +553,40 @@ describe( `directives/query/children_resolver`, () => {
 
     } );
 
+    it( `should return same value when input may be reference name`, ()=> {
+
+      expect( _getSelector( 'div' ) ).to.equal( 'div' );
+      expect( _getSelector( 'first, second' ) ).to.equal( 'first, second' );
+
+    } );
+
+    it( `should strip explicit css: prefix`, ()=> {
+
+      expect( _getSelector( 'css:div' ) ).to.equal( 'div' );
+      expect( _getSelector( 'css: .item > span' ) ).to.equal( '.item > span' );
+
+    } );
+
+  } );
+
+  describe( `#_getQueryRefNames`, ()=> {
+
+    it( `should parse comma separated template reference names`, ()=> {
+
+      expect( _getQueryRefNames( 'myInput' ) ).to.deep.equal( [ 'myInput' ] );
+      expect( _getQueryRefNames( ' first ,second ' ) ).to.deep.equal( [ 'first', 'second' ] );
+
+    } );
+
+    it( `should return empty array for CSS selectors and Types`, ()=> {
+
+      expect( _getQueryRefNames( 'hey-foo' ) ).to.deep.equal( [] );
+      expect( _getQueryRefNames( '.item' ) ).to.deep.equal( [] );
+      expect( _getQueryRefNames( 'css:div' ) ).to.deep.equal( [] );
+      expect( _getQueryRefNames( noop ) ).to.deep.equal( [] );
+
+    } );
+
 
   } );
 
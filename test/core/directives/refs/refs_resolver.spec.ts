@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { Component, Directive } from '../../../../src/core/directives/decorators';
+import { ComponentMetadata, DirectiveMetadata } from '../../../../src/core/directives/metadata_directives';
+import {
+  _hasTemplateRefs,
+  _parseTemplateRefs,
+  _parseRefsAttr,
+  _resolveTemplateRef,
+  _resolveExportAs,
+  _refDirectiveFactory
+} from '../../../../src/core/directives/refs/refs_resolver';
+
+describe( `directives/refs/refs_resolver`, () => {
+
+  @Component( { selector: 'tabs', template: '<div></div>' } )
+  class TabsComponent {}
+
+  @Directive( { selector: '[tooltip]', exportAs: 'tooltip' } )
+  class TooltipDirective {}
+
+  class NgModelController {}
+
+  function createElementMock( data: {[key: string]: any} = {} ) {
+    const element = { nodeName: 'DIV' };
+    return {
+      '0': element,
+      data(){ return data }
+    } as any;
+  }
+
+  describe( `#_hasTemplateRefs`, () => {
+
+    it( `should check if component template may contain template reference variables`, () => {
+
+      expect( _hasTemplateRefs( new ComponentMetadata( { selector: 'a', template: '<tabs #tabs></tabs>' } ) ) ).to.equal( true );
+      expect( _hasTemplateRefs( new ComponentMetadata( { selector: 'a', template: '<p ref-para></p>' } ) ) ).to.equal( true );
+      expect( _hasTemplateRefs( new ComponentMetadata( { selector: 'a', template: '<tabs></tabs>' } ) ) ).to.equal( false );
+      expect( _hasTemplateRefs( new ComponentMetadata( { selector: 'a', templateUrl: 'a.html' } ) ) ).to.equal( true );
+      expect( _hasTemplateRefs( new DirectiveMetadata( { selector: '[a]' } ) ) ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_parseTemplateRefs`, () => {
+
+    it( `should replace #name and ref-name attributes by ngm-ref attribute`, () => {
+
+      function createDomElement( attributes: {[name: string]: string} ) {
+        return {
+          attributes: Object.keys( attributes ).map( ( name ) => ({ name, value: attributes[ name ] }) ),
+          removeAttribute( name ){ this.attributes = this.attributes.filter( ( attr ) => attr.name !== name ) },
+          setAttribute( name, value ){ this.attributes.push( { name, value } ) }
+        };
+      }
+
+      const tabs = createDomElement( { '#my-tabs': '', 'class': 'tabs' } );
+      const input = createDomElement( { 'ref-name': 'ngModel', '#tip': 'tooltip' } );
+      const plain = createDomElement( { 'class': 'plain' } );
+      const tElement = {
+        '0': { querySelectorAll(){ return [ tabs, input, plain ] } }
+      } as any;
+
+      _parseTemplateRefs( tElement );
+
+      expect( tabs.attributes ).to.deep.equal( [
+        { name: 'class', value: 'tabs' },
+        { name: 'ngm-ref', value: 'myTabs' }
+      ] );
+      expect( input.attributes ).to.deep.equal( [
+        { name: 'ngm-ref', value: 'name:ngModel,tip:tooltip' }
+      ] );
+      expect( plain.attributes ).to.deep.equal( [ { name: 'class', value: 'plain' } ] );
+
+    } );
+
+  } );
+
+  describe( `#_parseRefsAttr`, () => {
+
+    it( `should parse ngm-ref attribute value`, () => {
+
+      expect( _parseRefsAttr( 'myTabs,name:ngModel' ) ).to.deep.equal( [
+        { name: 'myTabs', exportAs: null },
+        { name: 'name', exportAs: 'ngModel' }
+      ] );
+      expect( _parseRefsAttr( '' ) ).to.deep.equal( [] );
+
+    } );
+
+  } );
+
+  describe( `#_resolveTemplateRef`, () => {
+
+    it( `should resolve component controller if exportAs is not specified`, () => {
+
+      const tabs = new TabsComponent();
+      const $element = createElementMock( { $tabsController: tabs, $tooltipController: new TooltipDirective() } );
+
+      expect( _resolveTemplateRef( $element, { name: 'tabs', exportAs: null } ) ).to.equal( tabs );
+
+    } );
+
+    it( `should resolve DOM element if exportAs is not specified and element is not component host`, () => {
+
+      const $element = createElementMock( { $tooltipController: new TooltipDirective() } );
+
+      expect( _resolveTemplateRef( $element, { name: 'el', exportAs: null } ) ).to.equal( $element[ 0 ] );
+
+    } );
+
+    it( `should resolve DOM element if exportAs is not specified and element has only angular 1 directives`, () => {
+
+      const $element = createElementMock( { $ngModelController: new NgModelController() } );
+
+      expect( _resolveTemplateRef( $element, { name: 'el', exportAs: null } ) ).to.equal( $element[ 0 ] );
+
+    } );
+
+    it( `should resolve directive controller by exportAs or angular 1 directive controller by name`, () => {
+
+      const tooltip = new TooltipDirective();
+      const ngModel = new NgModelController();
+      const $element = createElementMock( { $tooltipController: tooltip, $ngModelController: ngModel } );
+
+      expect( _resolveTemplateRef( $element, { name: 'tip', exportAs: 'tooltip' } ) ).to.equal( tooltip );
+      expect( _resolveTemplateRef( $element, { name: 'name', exportAs: 'ngModel' } ) ).to.equal( ngModel );
+
+    } );
+
+    it( `should throw if there is no directive with given exportAs`, () => {
+
+      const $element = createElementMock( { $tooltipController: new TooltipDirective() } );
+
+      expect( () => _resolveTemplateRef( $element, { name: 'foo', exportAs: 'foo' } ) )
+        .to.throw( /cannot assign "#foo", there is no directive with exportAs "foo" on <div>/ );
+
+    } );
+
+  } );
+
+  describe( `#_resolveExportAs`, () => {
+
+    it( `should return controller with given exportAs or null if there is no such directive`, () => {
+
+      const tooltip = new TooltipDirective();
+      const $element = createElementMock( { $tooltipController: tooltip } );
+
+      expect( _resolveExportAs( $element, 'tooltip' ) ).to.equal( tooltip );
+      expect( _resolveExportAs( $element, 'foo' ) ).to.equal( null );
+
+    } );
+
+  } );
+
+  describe( `#_refDirectiveFactory`, () => {
+
+    it( `should assign template refs to scope within which is the element linked`, () => {
+
+      const tabs = new TabsComponent();
+      const tooltip = new TooltipDirective();
+      const $element = createElementMock( { $tabsController: tabs, $tooltipController: tooltip } );
+      const scope = {} as any;
+      const ddo = _refDirectiveFactory();
+
+      (ddo.link as ng.IDirectiveLinkFn)( scope, $element, { ngmRef: 'tabs,tip:tooltip' } as any, null, null );
+
+      expect( scope.tabs ).to.equal( tabs );
+      expect( scope.tip ).to.equal( tooltip );
+
+    } );
+
+  } );
+
+} );
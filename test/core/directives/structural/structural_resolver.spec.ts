@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import {
+  _isStructuralDirective,
+  _replaceTemplateSugar
+} from '../../../../src/core/directives/structural/structural_resolver';
+
+describe( `directives/structural/structural_resolver`, () => {
+
+  describe( `#_isStructuralDirective`, () => {
+
+    it( `should check if directive injects TemplateRef`, () => {
+
+      class UnlessDirective {
+        static $inject = [ 'viewContainerRef', 'templateRef' ];
+      }
+      class TooltipDirective {
+        static $inject = [ '$element' ];
+      }
+      class PlainDirective {}
+
+      expect( _isStructuralDirective( UnlessDirective ) ).to.equal( true );
+      expect( _isStructuralDirective( TooltipDirective ) ).to.equal( false );
+      expect( _isStructuralDirective( PlainDirective ) ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_replaceTemplateSugar`, () => {
+
+    it( `should replace *directive attributes by directive attribute with one way bound expression`, () => {
+
+      expect( _replaceTemplateSugar( `<li class="item" *my-unless="$ctrl.hidden">{{ 3 *2 }}</li>` ) )
+        .to.equal( `<li class="item" my-unless [my-unless]="$ctrl.hidden">{{ 3 *2 }}</li>` );
+      expect( _replaceTemplateSugar( `<p *my-if='$ctrl.a > $ctrl.b' title="a *b"></p>` ) )
+        .to.equal( `<p my-if [my-if]='$ctrl.a > $ctrl.b' title="a *b"></p>` );
+      expect( _replaceTemplateSugar( `<p *my-directive></p>` ) ).to.equal( `<p my-directive></p>` );
+
+    } );
+
+    it( `should keep templates without template sugar untouched`, () => {
+
+      expect( _replaceTemplateSugar( `<p class="a">3 * 2</p>` ) ).to.equal( `<p class="a">3 * 2</p>` );
+      expect( _replaceTemplateSugar( undefined ) ).to.equal( undefined );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { _shimCssText } from '../../../../src/core/directives/styles/shadow_css';
+
+describe( `directives/styles/shadow_css`, () => {
+
+  describe( `#_shimCssText`, () => {
+
+    function shim( cssText: string ): string {
+      return _shimCssText( cssText, '_ngcontent-cmp', '_nghost-cmp' );
+    }
+
+    it( `should add content attribute to every compound selector`, () => {
+
+      expect( shim( 'one {color: red}' ) ).to.equal( 'one[_ngcontent-cmp] {color: red}' );
+      expect( shim( 'one two > .three {}' ) ).to.equal( 'one[_ngcontent-cmp] two[_ngcontent-cmp] > .three[_ngcontent-cmp] {}' );
+      expect( shim( 'one, two {}' ) ).to.equal( 'one[_ngcontent-cmp], two[_ngcontent-cmp] {}' );
+      expect( shim( 'input[type="text"] + * {}' ) ).to.equal( 'input[type="text"][_ngcontent-cmp] + *[_ngcontent-cmp] {}' );
+
+    } );
+
+    it( `should add content attribute before pseudo classes and elements`, () => {
+
+      expect( shim( 'a:hover::before {}' ) ).to.equal( 'a[_ngcontent-cmp]:hover::before {}' );
+      expect( shim( 'li:not(.active) {}' ) ).to.equal( 'li[_ngcontent-cmp]:not(.active) {}' );
+
+    } );
+
+    it( `should replace :host and :host(...) by host attribute`, () => {
+
+      expect( shim( ':host {display: block}' ) ).to.equal( '[_nghost-cmp] {display: block}' );
+      expect( shim( ':host(.active) h1 {}' ) ).to.equal( '.active[_nghost-cmp] h1[_ngcontent-cmp] {}' );
+      expect( shim( ':host(:hover) {}' ) ).to.equal( '[_nghost-cmp]:hover {}' );
+      expect( shim( ':host(.a, .b) {}' ) ).to.equal( '.a[_nghost-cmp], .b[_nghost-cmp] {}' );
+
+    } );
+
+    it( `should not scope selector parts after /deep/ or >>>`, () => {
+
+      expect( shim( '.list /deep/ li span {}' ) ).to.equal( '.list[_ngcontent-cmp] li span {}' );
+      expect( shim( ':host >>> .child {}' ) ).to.equal( '[_nghost-cmp] .child {}' );
+
+    } );
+
+    it( `should scope rules within @media and keep other at-rules untouched`, () => {
+
+      expect( shim( '@media screen { .a {color: red} }' ) ).to.equal( '@media screen { .a[_ngcontent-cmp] {color: red} }' );
+      expect( shim( '@keyframes fade { from {opacity: 0} to {opacity: 1} }' ) )
+        .to.equal( '@keyframes fade { from {opacity: 0} to {opacity: 1} }' );
+      expect( shim( '@import url("a.css"); .a {}' ) ).to.equal( '@import url("a.css"); .a[_ngcontent-cmp] {}' );
+
+    } );
+
+    it( `should strip comments`, () => {
+
+      expect( shim( '/* .b {} */.a {}' ) ).to.equal( '.a[_ngcontent-cmp] {}' );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ComponentMetadata } from '../../../../src/core/directives/metadata_directives';
+import { ViewEncapsulation } from '../../../../src/core/directives/styles/constants';
+import {
+  _createComponentStyles,
+  _setEncapsulationAttributes,
+  _insertComponentStyles,
+  _compileStyles
+} from '../../../../src/core/directives/styles/styles_resolver';
+
+describe( `directives/styles/styles_resolver`, () => {
+
+  describe( `#_createComponentStyles`, () => {
+
+    it( `should return null if component has no styles`, () => {
+
+      const metadata = new ComponentMetadata( { selector: 'my-cmp', template: '<p></p>' } );
+
+      expect( _createComponentStyles( 'my-cmp', metadata, '' ) ).to.equal( null );
+
+    } );
+
+    it( `should create emulated encapsulation attributes and resolve styleUrls relative to assets path`, () => {
+
+      const metadata = new ComponentMetadata( {
+        selector: 'my-cmp',
+        template: '<p></p>',
+        styles: [ 'p {}' ],
+        styleUrls: [ './my-cmp.css' ]
+      } );
+
+      expect( _createComponentStyles( 'my-cmp', metadata, 'src/app/' ) ).to.deep.equal( {
+        id: 'my-cmp',
+        encapsulation: ViewEncapsulation.Emulated,
+        hostAttr: '_nghost-my-cmp',
+        contentAttr: '_ngcontent-my-cmp',
+        styles: [ 'p {}' ],
+        styleUrls: [ 'src/app/./my-cmp.css' ]
+      } );
+
+    } );
+
+    it( `should not create encapsulation attributes for ViewEncapsulation.None`, () => {
+
+      const metadata = new ComponentMetadata( {
+        selector: 'my-cmp',
+        template: '<p></p>',
+        styles: [ 'p {}' ],
+        encapsulation: ViewEncapsulation.None
+      } );
+      const actual = _createComponentStyles( 'my-cmp', metadata, '' );
+
+      expect( actual.hostAttr ).to.equal( null );
+      expect( actual.contentAttr ).to.equal( null );
+      expect( _compileStyles( actual.styles, actual ) ).to.equal( 'p {}' );
+
+    } );
+
+  } );
+
+  describe( `#_setEncapsulationAttributes`, () => {
+
+    function createElementMock() {
+      const children = { attr: sinon.spy() };
+      return {
+        children,
+        attr: sinon.spy(),
+        find: sinon.stub().returns( children )
+      } as any;
+    }
+
+    it( `should stamp host element and all template elements`, () => {
+
+      const tElement = createElementMock();
+      const metadata = new ComponentMetadata( { selector: 'my-cmp', styles: [ 'p {}' ] } );
+
+      _setEncapsulationAttributes( tElement, _createComponentStyles( 'my-cmp', metadata, '' ) );
+
+      expect( tElement.attr.calledWith( '_nghost-my-cmp', '' ) ).to.equal( true );
+      expect( tElement.find.calledWith( '*' ) ).to.equal( true );
+      expect( tElement.children.attr.calledWith( '_ngcontent-my-cmp', '' ) ).to.equal( true );
+
+    } );
+
+    it( `should not touch elements for ViewEncapsulation.None`, () => {
+
+      const tElement = createElementMock();
+      const metadata = new ComponentMetadata( {
+        selector: 'my-cmp',
+        styles: [ 'p {}' ],
+        encapsulation: ViewEncapsulation.None
+      } );
+
+      _setEncapsulationAttributes( tElement, _createComponentStyles( 'my-cmp', metadata, '' ) );
+
+      expect( tElement.attr.called ).to.equal( false );
+      expect( tElement.find.called ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#_insertComponentStyles`, () => {
+
+    let head;
+    let $injector;
+    let loadedStyles: Function;
+
+    beforeEach( () => {
+
+      head = {
+        children: [],
+        appendChild( element ){ this.children.push( element ) },
+        querySelector( selector: string ){
+          const [,id] = selector.match( /"(.+)"/ );
+          return this.children.filter( ( element ) => element.attributes[ 'ngm-styles' ] === id )[ 0 ] || null;
+        }
+      };
+      const document = {
+        head,
+        createElement(){
+          return {
+            attributes: {},
+            textContent: '',
+            setAttribute( name, value ){ this.attributes[ name ] = value }
+          };
+        }
+      };
+      const $q = {
+        all( promises ){ return { then( cb ){ loadedStyles = () => cb( promises ) } } }
+      };
+      const $templateRequest = ( url: string ) => `.${ url.replace( /\W/g, '' ) } {}`;
+
+      $injector = {
+        get( name: string ){
+          return { $document: [ document ], $q, $templateRequest }[ name ];
+        }
+      };
+
+    } );
+
+    it( `should insert shimmed styles into head just once`, () => {
+
+      const metadata = new ComponentMetadata( { selector: 'my-cmp', styles: [ ':host {}', 'p {}' ] } );
+      const componentStyles = _createComponentStyles( 'my-cmp', metadata, '' );
+
+      _insertComponentStyles( $injector, componentStyles );
+      _insertComponentStyles( $injector, componentStyles );
+
+      expect( head.children.length ).to.equal( 1 );
+      expect( head.children[ 0 ].textContent ).to.equal( '[_nghost-my-cmp] {}\np[_ngcontent-my-cmp] {}' );
+
+    } );
+
+    it( `should append styles loaded from styleUrls`, () => {
+
+      const metadata = new ComponentMetadata( { selector: 'my-cmp', styles: [ 'p {}' ], styleUrls: [ 'cmp.css' ] } );
+      const componentStyles = _createComponentStyles( 'my-cmp', metadata, 'app/' );
+
+      _insertComponentStyles( $injector, componentStyles );
+
+      expect( head.children[ 0 ].textContent ).to.equal( 'p[_ngcontent-my-cmp] {}' );
+
+      loadedStyles();
+
+      expect( head.children[ 0 ].textContent ).to.equal( 'p[_ngcontent-my-cmp] {}\n.appcmpcss[_ngcontent-my-cmp] {}' );
+
+    } );
+
+  } );
+
+} );
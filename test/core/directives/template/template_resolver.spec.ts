@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import * as lang from '../../../../src/facade/lang';
+import {
+  _preprocessTemplate,
+  _registerTemplateUrl,
+  _templateRequestDecorator
+} from '../../../../src/core/directives/template/template_resolver';
+
+describe( `directives/template/template_resolver`, () => {
+
+  const templates = {
+    'card.html': `<div *my-if="$ctrl.show"><ng-content select="card-header"></ng-content><ng-content></ng-content></div>`,
+    'panel.html': `<div><ng-content></ng-content></div>`,
+    'other.html': `<div *my-if="$ctrl.show"><ng-content></ng-content></div>`
+  };
+
+  // synchronous promise stub, so we don't need $q
+  const resolved = ( value ) => ({ then: ( fn ) => resolved( fn( value ) ) });
+
+  let $delegate;
+  let $templateRequest: ng.ITemplateRequestService;
+
+  beforeEach( () => {
+
+    $delegate = ( tpl: string ) => resolved( templates[ tpl ] );
+    $delegate.totalPendingRequests = 2;
+    $templateRequest = _templateRequestDecorator( $delegate );
+
+  } );
+
+  describe( `#_preprocessTemplate`, () => {
+
+    it( `should replace <ng-content> and template sugar`, () => {
+
+      expect( _preprocessTemplate( templates[ 'panel.html' ] ) ).to.equal(
+        `<div><ng-transclude></ng-transclude></div>`
+      );
+      expect( _preprocessTemplate( `<p *my-unless="$ctrl.hidden"></p>` ) ).to.equal(
+        `<p my-unless [my-unless]="$ctrl.hidden"></p>`
+      );
+
+    } );
+
+  } );
+
+  describe( `#_templateRequestDecorator`, () => {
+
+    const sandbox = sinon.sandbox.create();
+
+    afterEach( () => {
+      sandbox.restore();
+    } );
+
+    it( `should preprocess templates of registered component templateUrls`, () => {
+
+      _registerTemplateUrl( 'card.html', { cardHeader: '?card-header' } );
+
+      let template: string;
+      $templateRequest( 'card.html' ).then( ( tpl ) => template = tpl );
+
+      expect( template ).to.equal(
+        `<div my-if [my-if]="$ctrl.show">` +
+        `<ng-transclude ng-transclude-slot="cardHeader"></ng-transclude><ng-transclude></ng-transclude></div>`
+      );
+
+    } );
+
+    it( `should leave other templates untouched`, () => {
+
+      let template: string;
+      $templateRequest( 'other.html' ).then( ( tpl ) => template = tpl );
+
+      expect( template ).to.equal( templates[ 'other.html' ] );
+
+    } );
+
+    it( `should expose pending requests of decorated service`, () => {
+
+      expect( $templateRequest.totalPendingRequests ).to.equal( 2 );
+
+    } );
+
+    it( `should throw in dev and prod mode if <ng-content> transclusion was not resolved before template was loaded`, () => {
+
+      _registerTemplateUrl( 'panel.html', false );
+
+      expect( () => $templateRequest( 'panel.html' ) ).to.throw( /<ng-content> within templateUrl "panel.html" cannot be projected/ );
+
+      sandbox.stub( lang, 'assertionsEnabled' ).returns( false );
+
+      expect( () => $templateRequest( 'panel.html' ) ).to.throw( /<ng-content> within templateUrl "panel.html" cannot be projected/ );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,203 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { Component, Directive, Input, Output } from '../../../src/core/directives/decorators';
+import { EventEmitter } from '../../../src/facade/async';
+import { ComponentResolver } from '../../../src/core/linker/component_resolver';
+import { ComponentFactory, _createHostTemplate } from '../../../src/core/linker/component_factory';
+import { _parseFields } from '../../../src/core/directives/binding/binding_parser';
+import { getInjectableName, _dependenciesFor } from '../../../src/core/di/provider';
+
+describe( `linker/ComponentFactory`, () => {
+
+  @Component( {
+    selector: 'my-dialog',
+    template: `<h1>{{ $ctrl.title }}</h1>`
+  } )
+  class DialogComponent {
+    @Input() title: string;
+    @Input( '<' ) items: string[];
+    @Input( '@' ) label: string;
+    @Output() onClose = new EventEmitter<any>();
+  }
+
+  @Directive( { selector: '[my-tooltip]' } )
+  class TooltipDirective {}
+
+  let $compile;
+  let $rootScope;
+  let hostScope;
+  let $host;
+  let instance;
+
+  beforeEach( () => {
+
+    instance = new DialogComponent();
+    $host = {
+      0: { nodeName: 'MY-DIALOG' },
+      length: 1,
+      controller: sinon.stub().returns( instance ),
+      remove: sinon.spy()
+    };
+
+    const destroyListeners = [];
+    hostScope = {
+      $applyAsync: sinon.spy(),
+      $on: sinon.spy( ( name, listener ) => destroyListeners.push( listener ) ),
+      $destroy: sinon.spy( () => destroyListeners.forEach( ( listener ) => listener() ) )
+    };
+    $rootScope = { $new: sinon.stub().returns( hostScope ) };
+
+    $compile = sinon.spy( () => ( scope, cloneAttachFn ) => {
+      cloneAttachFn( $host );
+      return $host;
+    } );
+
+  } );
+
+  function createFactory(): ComponentFactory<DialogComponent> {
+    return new ComponentResolver( $compile, $rootScope ).resolveComponent<DialogComponent>( DialogComponent );
+  }
+
+  describe( `ComponentResolver`, () => {
+
+    it( `should be injectable as componentResolver`, () => {
+
+      expect( getInjectableName( ComponentResolver ) ).to.equal( 'componentResolver' );
+      expect( _dependenciesFor( ComponentResolver ) ).to.deep.equal( [ '$compile', '$rootScope' ] );
+
+    } );
+
+    it( `should resolve ComponentFactory for component type`, () => {
+
+      const componentFactory = createFactory();
+
+      expect( componentFactory instanceof ComponentFactory ).to.equal( true );
+      expect( componentFactory.selector ).to.equal( 'my-dialog' );
+      expect( componentFactory.componentType ).to.equal( DialogComponent );
+
+    } );
+
+    it( `should throw if type is not a component`, () => {
+
+      const componentResolver = new ComponentResolver( $compile, $rootScope );
+
+      expect( () => componentResolver.resolveComponent( TooltipDirective ) )
+        .to.throw( /ComponentResolver can create only @Component/ );
+
+    } );
+
+  } );
+
+  describe( `#_createHostTemplate`, () => {
+
+    it( `should bind every input and output to host scope`, () => {
+
+      const inputs = _parseFields( [ 'title', 'items: <', 'label: @', 'myValue: =value' ] );
+      const outputs = _parseFields( [ 'onClose' ] );
+
+      expect( _createHostTemplate( 'my-dialog', inputs, outputs ) ).to.equal(
+        `<my-dialog` +
+        ` [title]="$ngmInputs.title"` +
+        ` items="$ngmInputs.items"` +
+        ` label="{{ $ngmInputs.label }}"` +
+        ` value="$ngmInputs.myValue"` +
+        ` (on-close)="$ngmOutputs.onClose($event)"` +
+        `></my-dialog>`
+      );
+      expect( _createHostTemplate( 'my-dialog', [], [] ) ).to.equal( `<my-dialog></my-dialog>` );
+
+    } );
+
+  } );
+
+  describe( `#create`, () => {
+
+    it( `should compile host element with provided inputs and outputs and link it with new host scope`, () => {
+
+      const onClose = sinon.spy();
+      const cloneAttachFn = sinon.spy();
+
+      const componentRef = createFactory().create( { inputs: { title: 'Hello' }, outputs: { onClose } }, cloneAttachFn );
+
+      expect( $compile.calledWith(
+        `<my-dialog [title]="$ngmInputs.title" (on-close)="$ngmOutputs.onClose($event)"></my-dialog>`
+      ) ).to.equal( true );
+      expect( hostScope.$ngmInputs ).to.deep.equal( { title: 'Hello' } );
+      expect( hostScope.$ngmOutputs.onClose ).to.equal( onClose );
+      expect( cloneAttachFn.calledWith( $host ) ).to.equal( true );
+      expect( hostScope.$applyAsync.called ).to.equal( true );
+
+      expect( componentRef.instance ).to.equal( instance );
+      expect( $host.controller.calledWith( 'myDialog' ) ).to.equal( true );
+      expect( componentRef.location.nativeElement ).to.equal( $host[ 0 ] );
+      expect( componentRef.componentType ).to.equal( DialogComponent );
+      expect( componentRef.hostView.rootNodes ).to.equal( $host );
+
+    } );
+
+    it( `should create host scope from provided scope`, () => {
+
+      const scope = { $new: sinon.stub().returns( hostScope ) };
+
+      createFactory().create( { scope: scope as any } );
+
+      expect( scope.$new.called ).to.equal( true );
+      expect( $rootScope.$new.called ).to.equal( false );
+
+    } );
+
+    it( `should throw if unknown input or output is provided`, () => {
+
+      const componentFactory = createFactory();
+
+      expect( () => componentFactory.create( { inputs: { foo: 1 } } ) )
+        .to.throw( /"foo" is not @Input\(\) of the component, available: title, items, label/ );
+      expect( () => componentFactory.create( { outputs: { onOpen(){} } } ) )
+        .to.throw( /"onOpen" is not @Output\(\) of the component, available: onClose/ );
+
+    } );
+
+  } );
+
+  describe( `ComponentRef`, () => {
+
+    it( `should set input bound on creation and schedule digest`, () => {
+
+      const componentRef = createFactory().create( { inputs: { title: 'Hello' } } );
+      hostScope.$applyAsync.reset();
+
+      componentRef.setInput( 'title', 'Bye' );
+
+      expect( hostScope.$ngmInputs.title ).to.equal( 'Bye' );
+      expect( hostScope.$applyAsync.called ).to.equal( true );
+
+    } );
+
+    it( `should throw if input was not bound on creation`, () => {
+
+      const componentRef = createFactory().create( { inputs: { title: 'Hello' } } );
+
+      expect( () => componentRef.setInput( 'items', [] ) )
+        .to.throw( /cannot set input "items", only inputs provided on creation are bound: title/ );
+
+    } );
+
+    it( `should destroy host scope and remove host element only once`, () => {
+
+      const onDestroy = sinon.spy();
+      const componentRef = createFactory().create();
+      componentRef.onDestroy( onDestroy );
+
+      componentRef.destroy();
+      componentRef.destroy();
+
+      expect( componentRef.destroyed ).to.equal( true );
+      expect( hostScope.$destroy.calledOnce ).to.equal( true );
+      expect( $host.remove.calledOnce ).to.equal( true );
+      expect( onDestroy.calledOnce ).to.equal( true );
+
+    } );
+
+  } );
+
+} );
@@ -57,6 +57,32 @@ describe( `linker/directive_resolver`, ()=> {
     } );
 
 
+    it( `should keep providers and viewProviders within resolved metadata`, ()=> {
+
+      @Directive( {
+        selector: '[myAttr]',
+        providers: [ 'ngAnimate' ]
+      } )
+      class MyDirective {}
+
+      @Component( {
+        selector: 'myComp',
+        template: 'hello world',
+        providers: [ MyDirective ],
+        viewProviders: [ { provide: 'config', useValue: {} } ]
+      } )
+      class MyComponent {}
+
+      const resolver = new DirectiveResolver();
+      const directiveMetadata = resolver.resolve( MyDirective );
+      const componentMetadata = resolver.resolve( MyComponent ) as ComponentMetadata;
+
+      expect( directiveMetadata.providers ).to.deep.equal( [ 'ngAnimate' ] );
+      expect( componentMetadata.providers ).to.deep.equal( [ MyDirective ] );
+      expect( componentMetadata.viewProviders ).to.deep.equal( [ { provide: 'config', useValue: {} } ] );
+
+    } );
+
     it( `should throw error when provided type doesn't have Directive/Component metadata`, ()=> {
 
       class NoDirective {}
@@ -372,20 +398,18 @@ describe( `linker/directive_resolver`, ()=> {
 
     } );
 
-    it( `should throw if @Optional() is used without one of @Self|@SkipSelf|@Host`, ()=> {
+    it( `should treat @Optional() without one of @Self|@SkipSelf|@Host as optional service injection`, ()=> {
 
       @Directive({selector:'[foo]'})
       class Foo{
         constructor(
-          @Inject('ngModel') @Optional() private ngModel
+          @Inject('analytics') @Optional() private analytics
         ){}
       }
 
       const resolver = new DirectiveResolver();
 
-      expect( ()=>resolver.getRequiredDirectivesMap( Foo ) ).to.throw();
-
-
+      expect( resolver.getRequiredDirectivesMap( Foo ) ).to.deep.equal( {} );
 
     } );
 
@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { QueryList } from '../../../src/core/linker/query_list';
+
+describe( `linker/QueryList`, () => {
+
+  let queryList: QueryList<string>;
+
+  beforeEach( () => {
+
+    queryList = new QueryList<string>();
+    queryList.reset( [ 'one', 'two', 'three' ] );
+
+  } );
+
+  it( `should expose query results`, () => {
+
+    expect( queryList.length ).to.equal( 3 );
+    expect( queryList.first ).to.equal( 'one' );
+    expect( queryList.last ).to.equal( 'three' );
+    expect( queryList.toString() ).to.equal( 'one,two,three' );
+
+  } );
+
+  it( `should return undefined for first and last if empty`, () => {
+
+    queryList.reset( [] );
+
+    expect( queryList.length ).to.equal( 0 );
+    expect( queryList.first ).to.equal( undefined );
+    expect( queryList.last ).to.equal( undefined );
+
+  } );
+
+  it( `should support array methods`, () => {
+
+    const visited = [];
+    queryList.forEach( ( item, index ) => visited.push( `${ index }:${ item }` ) );
+
+    expect( visited ).to.deep.equal( [ '0:one', '1:two', '2:three' ] );
+    expect( queryList.map( ( item ) => item.length ) ).to.deep.equal( [ 3, 3, 5 ] );
+    expect( queryList.filter( ( item ) => item.charAt( 0 ) === 't' ) ).to.deep.equal( [ 'two', 'three' ] );
+    expect( queryList.reduce( ( acc, item ) => acc + item.length, 0 ) ).to.equal( 11 );
+
+  } );
+
+  it( `should not allow to modify results via toArray`, () => {
+
+    const results = [ 'one' ];
+    queryList.reset( results );
+    queryList.toArray().push( 'two' );
+    results.push( 'three' );
+
+    expect( queryList.toArray() ).to.deep.equal( [ 'one' ] );
+
+  } );
+
+  it( `should emit itself via changes`, () => {
+
+    const changesSpy = sinon.spy();
+    queryList.changes.subscribe( changesSpy );
+
+    queryList.notifyOnChanges();
+
+    expect( changesSpy.calledOnce ).to.equal( true );
+    expect( changesSpy.calledWith( queryList ) ).to.equal( true );
+
+  } );
+
+  it( `should complete changes on destroy and don't notify anymore`, () => {
+
+    const changesSpy = sinon.spy();
+    const completeSpy = sinon.spy();
+    queryList.changes.subscribe( changesSpy, null, completeSpy );
+
+    queryList.destroy();
+    queryList.notifyOnChanges();
+
+    expect( completeSpy.calledOnce ).to.equal( true );
+    expect( changesSpy.called ).to.equal( false );
+
+  } );
+
+} );
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { TemplateRef } from '../../../src/core/linker/template_ref';
+import { EmbeddedViewRef } from '../../../src/core/linker/view_ref';
+import { getInjectableName } from '../../../src/core/di/provider';
+
+describe( `linker/TemplateRef`, () => {
+
+  let $scope;
+  let childScope;
+  let clone;
+  let $transclude;
+
+  beforeEach( () => {
+
+    childScope = { $destroy: sinon.spy() };
+    $scope = { $new: sinon.stub().returns( childScope ) };
+    clone = { length: 1 };
+    $transclude = sinon.spy( ( scope, cloneAttachFn ) => cloneAttachFn( clone ) );
+
+  } );
+
+  it( `should be injectable as templateRef`, () => {
+
+    expect( getInjectableName( TemplateRef ) ).to.equal( 'templateRef' );
+
+  } );
+
+  it( `should transclude template with new child scope which has context assigned`, () => {
+
+    const templateRef = TemplateRef.create( $scope, $transclude );
+    const viewRef = templateRef.createEmbeddedView( { item: 'foo' } );
+
+    expect( viewRef instanceof EmbeddedViewRef ).to.equal( true );
+    expect( $transclude.calledWith( childScope ) ).to.equal( true );
+    expect( childScope.item ).to.equal( 'foo' );
+    expect( viewRef.context ).to.deep.equal( { item: 'foo' } );
+    expect( viewRef.rootNodes ).to.equal( clone );
+
+  } );
+
+  it( `should call cloneAttachFn before the clone is linked`, () => {
+
+    const cloneAttachFn = sinon.spy();
+
+    TemplateRef.create( $scope, $transclude ).createEmbeddedView( {}, cloneAttachFn );
+
+    expect( cloneAttachFn.calledWith( clone ) ).to.equal( true );
+
+  } );
+
+  it( `should destroy view scope just once`, () => {
+
+    const viewRef = TemplateRef.create( $scope, $transclude ).createEmbeddedView();
+
+    viewRef.destroy();
+    viewRef.destroy();
+
+    expect( viewRef.destroyed ).to.equal( true );
+    expect( childScope.$destroy.calledOnce ).to.equal( true );
+
+  } );
+
+  it( `should throw if template is not available`, () => {
+
+    expect( () => TemplateRef.create( $scope, undefined ).createEmbeddedView() )
+      .to.throw( /cannot create embedded view, template is not available/ );
+
+  } );
+
+} );
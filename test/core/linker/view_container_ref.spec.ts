@@ -0,0 +1,253 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ViewContainerRef } from '../../../src/core/linker/view_container_ref';
+import { TemplateRef } from '../../../src/core/linker/template_ref';
+import { EmbeddedViewRef } from '../../../src/core/linker/view_ref';
+import { ComponentRef } from '../../../src/core/linker/component_factory';
+import { getInjectableName } from '../../../src/core/di/provider';
+
+describe( `linker/ViewContainerRef`, () => {
+
+  // simple DOM mock, all nodes are stored in flat list of parent children
+  let parent;
+  let $anchor;
+  let $animate;
+  let templateRef: TemplateRef;
+  let scopes;
+
+  function createNode( name: string ) {
+    return {
+      name,
+      length: 1,
+      parent(){ return parent },
+      eq(){ return this }
+    };
+  }
+
+  function insertAfter( node, after ) {
+    parent.children.splice( parent.children.indexOf( after ) + 1, 0, node );
+  }
+
+  function renderedNames(): string[] {
+    return parent.children.slice( 1 ).map( ( node ) => node.name );
+  }
+
+  beforeEach( () => {
+
+    parent = { children: [] };
+    $anchor = createNode( 'anchor' );
+    parent.children.push( $anchor );
+
+    $animate = {
+      enter: sinon.spy( ( element, parentElement, after ) => insertAfter( element, after ) ),
+      move: sinon.spy( ( element, parentElement, after ) => {
+        parent.children.splice( parent.children.indexOf( element ), 1 );
+        insertAfter( element, after );
+      } ),
+      leave: sinon.spy( ( element ) => parent.children.splice( parent.children.indexOf( element ), 1 ) )
+    };
+
+    scopes = [];
+    const $scope = {
+      $new(){
+        const scope = { $destroy: sinon.spy() };
+        scopes.push( scope );
+        return scope;
+      }
+    };
+    const $transclude = ( scope, cloneAttachFn ) => cloneAttachFn( createNode( scope.name ) );
+
+    templateRef = TemplateRef.create( $scope as any, $transclude as any );
+
+  } );
+
+  it( `should be injectable as viewContainerRef`, () => {
+
+    expect( getInjectableName( ViewContainerRef ) ).to.equal( 'viewContainerRef' );
+
+  } );
+
+  describe( `#createEmbeddedView`, () => {
+
+    it( `should insert views after anchor in container order`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+      viewContainer.createEmbeddedView( templateRef, { name: 'three' } );
+      const viewRef = viewContainer.createEmbeddedView( templateRef, { name: 'two' }, 1 );
+      viewContainer.createEmbeddedView( templateRef, { name: 'zero' }, 0 );
+
+      expect( viewContainer.length ).to.equal( 4 );
+      expect( viewContainer.indexOf( viewRef ) ).to.equal( 2 );
+      expect( viewContainer.get( 2 ) ).to.equal( viewRef );
+      expect( renderedNames() ).to.deep.equal( [ 'zero', 'one', 'two', 'three' ] );
+      expect( $animate.enter.calledWith( viewRef.rootNodes, parent ) ).to.equal( true );
+
+    } );
+
+    it( `should throw if index is out of bounds`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      expect( () => viewContainer.createEmbeddedView( templateRef, {}, 1 ) )
+        .to.throw( /index 1 is out of bounds, container has 0 views/ );
+
+    } );
+
+  } );
+
+  describe( `#createComponent`, () => {
+
+    let componentFactory;
+    let directiveScope;
+
+    beforeEach( () => {
+
+      directiveScope = {};
+      componentFactory = {
+        create: sinon.spy( ( options, cloneAttachFn ) => {
+          const destroyListeners = [];
+          const hostScope = {
+            $on: ( name, listener ) => destroyListeners.push( listener ),
+            $destroy: () => destroyListeners.forEach( ( listener ) => listener() )
+          };
+          const $host = createNode( 'component' );
+          $host[ 'remove' ] = () => parent.children.splice( parent.children.indexOf( $host ), 1 );
+          cloneAttachFn( $host );
+          return new ComponentRef(
+            new EmbeddedViewRef( hostScope as any, $host as any, {} ),
+            Object,
+            hostScope as any,
+            ( componentRef ) => {
+              componentRef.hostView.destroy();
+              componentRef.hostView.rootNodes.remove();
+            }
+          );
+        } )
+      };
+
+    } );
+
+    it( `should insert component host view at given index and create it from directive scope`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate, directiveScope );
+
+      viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+      const componentRef = viewContainer.createComponent( componentFactory, 0, { inputs: { title: 'Hello' } } );
+
+      expect( componentFactory.create.calledWith( { scope: directiveScope, inputs: { title: 'Hello' } } ) )
+        .to.equal( true );
+      expect( viewContainer.indexOf( componentRef.hostView ) ).to.equal( 0 );
+      expect( renderedNames() ).to.deep.equal( [ 'component', 'one' ] );
+
+    } );
+
+    it( `should remove host view from container if component is destroyed directly`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate, directiveScope );
+
+      const componentRef = viewContainer.createComponent( componentFactory );
+      viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+
+      componentRef.destroy();
+
+      expect( viewContainer.length ).to.equal( 1 );
+      expect( renderedNames() ).to.deep.equal( [ 'one' ] );
+
+      const nextComponentRef = viewContainer.createComponent( componentFactory );
+      viewContainer.remove();
+
+      expect( nextComponentRef.destroyed ).to.equal( true );
+      expect( viewContainer.length ).to.equal( 1 );
+
+    } );
+
+  } );
+
+  describe( `#move`, () => {
+
+    it( `should move view to given index`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      const one = viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+      viewContainer.createEmbeddedView( templateRef, { name: 'two' } );
+      const three = viewContainer.createEmbeddedView( templateRef, { name: 'three' } );
+
+      expect( viewContainer.move( three, 0 ) ).to.equal( three );
+      expect( renderedNames() ).to.deep.equal( [ 'three', 'one', 'two' ] );
+
+      viewContainer.move( one, 2 );
+      expect( renderedNames() ).to.deep.equal( [ 'three', 'two', 'one' ] );
+      expect( viewContainer.indexOf( one ) ).to.equal( 2 );
+
+    } );
+
+    it( `should throw if view is not attached to container`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+      const viewRef = templateRef.createEmbeddedView();
+
+      expect( () => viewContainer.move( viewRef, 0 ) ).to.throw( /cannot move view/ );
+
+    } );
+
+  } );
+
+  describe( `#remove`, () => {
+
+    it( `should remove view DOM and destroy its scope`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+      const two = viewContainer.createEmbeddedView( templateRef, { name: 'two' } );
+      viewContainer.createEmbeddedView( templateRef, { name: 'three' } );
+
+      viewContainer.remove( 1 );
+
+      expect( renderedNames() ).to.deep.equal( [ 'one', 'three' ] );
+      expect( two.destroyed ).to.equal( true );
+      expect( scopes[ 1 ].$destroy.called ).to.equal( true );
+
+      viewContainer.remove();
+
+      expect( renderedNames() ).to.deep.equal( [ 'one' ] );
+      expect( viewContainer.length ).to.equal( 1 );
+
+    } );
+
+    it( `should do nothing if there is no view at given index`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      viewContainer.remove();
+      viewContainer.remove( 3 );
+
+      expect( $animate.leave.called ).to.equal( false );
+
+    } );
+
+  } );
+
+  describe( `#clear`, () => {
+
+    it( `should remove all views`, () => {
+
+      const viewContainer = ViewContainerRef.create( $anchor, $animate );
+
+      viewContainer.createEmbeddedView( templateRef, { name: 'one' } );
+      viewContainer.createEmbeddedView( templateRef, { name: 'two' } );
+
+      viewContainer.clear();
+
+      expect( viewContainer.length ).to.equal( 0 );
+      expect( renderedNames() ).to.deep.equal( [] );
+      expect( scopes.every( ( scope ) => scope.$destroy.called ) ).to.equal( true );
+
+    } );
+
+  } );
+
+} );
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { global } from '../../../src/facade/lang';
+import { DomRenderer, _getRenderer } from '../../../src/core/render/dom_renderer';
+import { Renderer } from '../../../src/core/render/api';
+import { getNg1InjectorMock } from '../../utils';
+
+describe( `render/dom_renderer`, () => {
+
+  describe( `DomRenderer`, () => {
+
+    let originalAngular;
+    let $element;
+    let nativeElement;
+    let renderer: DomRenderer;
+
+    beforeEach( () => {
+
+      nativeElement = { focus: sinon.spy( () => 'focused' ) };
+      $element = {
+        attr: sinon.spy(),
+        toggleClass: sinon.spy(),
+        css: sinon.spy(),
+        on: sinon.spy(),
+        off: sinon.spy()
+      };
+      originalAngular = global.angular;
+      global.angular = { element: sinon.stub().returns( $element ) };
+      renderer = new DomRenderer();
+
+    } );
+
+    afterEach( () => {
+      global.angular = originalAngular;
+    } );
+
+    it( `should be Renderer`, () => {
+
+      expect( renderer instanceof Renderer ).to.equal( true );
+
+    } );
+
+    it( `should set element property by path`, () => {
+
+      renderer.setElementProperty( nativeElement, 'style.fontSize', '12px' );
+      renderer.setElementProperty( nativeElement, 'title', 'hello' );
+
+      expect( nativeElement.style.fontSize ).to.equal( '12px' );
+      expect( nativeElement.title ).to.equal( 'hello' );
+
+    } );
+
+    it( `should set attributes, classes and styles via jqLite`, () => {
+
+      renderer.setElementAttribute( nativeElement, 'aria-label', 'hello' );
+      renderer.setElementClass( nativeElement, 'is-active', 1 as any );
+      renderer.setElementStyle( nativeElement, 'color', 'red' );
+      renderer.setElementStyle( nativeElement, 'width', null );
+
+      expect( global.angular.element.alwaysCalledWith( nativeElement ) ).to.equal( true );
+      expect( $element.attr.calledWith( 'aria-label', 'hello' ) ).to.equal( true );
+      expect( $element.toggleClass.calledWith( 'is-active', true ) ).to.equal( true );
+      expect( $element.css.calledWith( 'color', 'red' ) ).to.equal( true );
+      expect( $element.css.calledWith( 'width', '' ) ).to.equal( true );
+
+    } );
+
+    it( `should invoke element method with arguments`, () => {
+
+      expect( renderer.invokeElementMethod( nativeElement, 'focus', [ 1 ] ) ).to.equal( 'focused' );
+      expect( nativeElement.focus.calledOn( nativeElement ) ).to.equal( true );
+      expect( nativeElement.focus.calledWith( 1 ) ).to.equal( true );
+
+    } );
+
+    it( `should register listener via jqLite and return function which removes it`, () => {
+
+      const callback = () => {};
+      const unlisten = renderer.listen( nativeElement, 'click', callback );
+
+      expect( $element.on.calledWith( 'click', callback ) ).to.equal( true );
+
+      unlisten();
+
+      expect( $element.off.calledWith( 'click', callback ) ).to.equal( true );
+
+    } );
+
+  } );
+
+  describe( `#_getRenderer`, () => {
+
+    it( `should return renderer registered within $injector or default DomRenderer`, () => {
+
+      const customRenderer = {};
+      const $injector = getNg1InjectorMock();
+
+      expect( _getRenderer( $injector ) instanceof DomRenderer ).to.equal( true );
+      expect( _getRenderer( $injector ) ).to.equal( _getRenderer( null ) );
+
+      $injector.has = ( token: string ) => token === 'renderer';
+      $injector.get = () => customRenderer;
+
+      expect( _getRenderer( $injector ) ).to.equal( customRenderer );
+
+    } );
+
+  } );
+
+} );
@@ -1,14 +1,21 @@
 import * as sinon from 'sinon';
 import { expect } from 'chai';
+import * as lang from '../../../src/facade/lang';
 import { global } from '../../../src/facade/lang';
 import { Component } from '../../../src/core/directives/decorators';
 import { createNgModule } from '../../utils';
-import { provide } from '../../../src/core/di';
-import { bundle } from '../../../src/core/util/bundler';
+import { provide, getInjectableName } from '../../../src/core/di';
+import { bundle, bundleGraph } from '../../../src/core/util/bundler';
 import { Pipe } from '../../../src/core/pipes/decorators';
 import { Injectable } from '../../../src/core/di/decorators';
 import { OpaqueToken } from '../../../src/core/di/opaque_token';
 import { Directive } from '../../../src/core/directives/decorators';
+import { Inject, Optional } from '../../../src/core/di/decorators';
+import { forwardRef } from '../../../src/core/di/forward_ref';
+import { _templateRequestDecorator } from '../../../src/core/directives/template/template_resolver';
+import { _refDirectiveFactory } from '../../../src/core/directives/refs/refs_resolver';
+import { _setupScopeTriggers } from '../../../src/core/change_detection/change_detector_ref';
+import { ChangeDetectionStrategy } from '../../../src/core/change_detection/constants';
 
 describe( `util/bundler`, () => {
 
@@ -177,6 +184,217 @@ describe( `util/bundler`, () => {
 
     } );
 
+    it( `should collect multi providers from providers, viewProviders and otherProviders`, () => {
+
+      const PLUGINS = new OpaqueToken( 'plugins' );
+
+      @Component( {
+        selector: 'plugin-child',
+        template: 'hello',
+        viewProviders: [ { provide: PLUGINS, useValue: 'viewPlugin', multi: true } ]
+      } )
+      class PluginChildComponent {}
+
+      @Component( {
+        selector: 'plugin-app',
+        template: 'hello',
+        directives: [ PluginChildComponent ],
+        providers: [ { provide: PLUGINS, useValue: 'appPlugin', multi: true } ]
+      } )
+      class PluginAppComponent {}
+
+      const ngModule = bundle( PluginAppComponent, [ { provide: PLUGINS, useValue: 'globalPlugin', multi: true } ] );
+
+      const actualInvokeQueue = (ngModule as any)._invokeQueue;
+      const [ multiFactory ] = actualInvokeQueue
+        .filter( ( [ type, fnName, [ name ] ] )=>name === 'plugins' )
+        .map( ( [ type, fnName, [ name, value ] ] )=>value );
+      const contributions = multiFactory.$inject.map( ( contributionName )=> {
+        const [ , , [ , value ] ] = actualInvokeQueue.filter( ( [ type, fnName, [ name ] ] )=>name === contributionName )[ 0 ];
+        return value;
+      } );
+
+      expect( contributions ).to.deep.equal( [ 'appPlugin', 'viewPlugin', 'globalPlugin' ] );
+
+    } );
+
+    it( `should throw if two different components have the same selector`, () => {
+
+      @Component( { selector: 'child-one', template: 'other child one' } )
+      class OtherChildOneComponent {}
+
+      @Component( {
+        selector: 'colliding-app',
+        template: 'hello',
+        directives: [ ChildOneComponent, OtherChildOneComponent ]
+      } )
+      class CollidingAppComponent {}
+
+      expect( ()=>bundle( CollidingAppComponent ) ).to.throw(
+        /ChildOneComponent \( declared by CollidingAppComponent \)[\s\S]*OtherChildOneComponent \( declared by CollidingAppComponent \)/
+      );
+
+    } );
+
+    it( `should throw if sibling components provide different sources under the same token within their providers`, () => {
+
+      @Injectable()
+      class Logger {}
+
+      @Injectable()
+      class ConsoleLogger {}
+
+      @Component( {
+        selector: 'todo-list',
+        template: 'todos',
+        providers: [ Logger, { provide: 'config', useValue: { limit: 10 } } ]
+      } )
+      class TodoListComponent {}
+
+      @Component( {
+        selector: 'user-list',
+        template: 'users',
+        providers: [ { provide: Logger, useClass: ConsoleLogger }, { provide: 'config', useValue: { limit: 5 } } ]
+      } )
+      class UserListComponent {}
+
+      @Component( {
+        selector: 'lists-app',
+        template: 'hello',
+        directives: [ TodoListComponent, UserListComponent ]
+      } )
+      class ListsAppComponent {}
+
+      expect( ()=>bundle( ListsAppComponent ) ).to.throw( /name collision[\s\S]*declared by UserListComponent/ );
+
+    } );
+
+    it( `should register template reference directive once if component templates use #refs`, () => {
+
+      @Component( { selector: 'ref-child', template: '<input #name="ngModel" ng-model="$ctrl.name">' } )
+      class RefChildComponent {}
+
+      @Component( {
+        selector: 'ref-app',
+        template: '<ref-child #child></ref-child>',
+        directives: [ RefChildComponent ]
+      } )
+      class RefAppComponent {}
+
+      const ngModule = bundle( RefAppComponent );
+      const refDirectives = (ngModule as any)._invokeQueue
+        .filter( ( [,,[name]] ) => name === 'ngmRef' )
+        .map( ( [,,[,factory]] ) => factory );
+
+      expect( refDirectives ).to.deep.equal( [ _refDirectiveFactory ] );
+
+    } );
+
+    it( `should register $templateRequest decorator once if components use templateUrl`, () => {
+
+      @Component( { selector: 'url-child', templateUrl: 'url-child.html' } )
+      class UrlChildComponent {}
+
+      @Component( { selector: 'url-sibling', templateUrl: 'url-sibling.html' } )
+      class UrlSiblingComponent {}
+
+      @Component( {
+        selector: 'url-app',
+        template: '<url-child></url-child><url-sibling></url-sibling>',
+        directives: [ UrlChildComponent, UrlSiblingComponent ]
+      } )
+      class UrlAppComponent {}
+
+      const ngModule = bundle( UrlAppComponent );
+      const decorators = (ngModule as any)._configBlocks
+        .filter( ( [,method,[name]] ) => method === 'decorator' && name === '$templateRequest' )
+        .map( ( [,,[,decorator]] ) => decorator );
+
+      expect( decorators ).to.deep.equal( [ _templateRequestDecorator ] );
+
+    } );
+
+    it( `should register $rootScope triggers once and only if some component has non Default change detection`, () => {
+
+      @Component( { selector: 'on-push-child', template: 'hello', changeDetection: ChangeDetectionStrategy.OnPush } )
+      class OnPushChildComponent {}
+
+      @Component( { selector: 'on-push-sibling', template: 'hello', changeDetection: ChangeDetectionStrategy.OnPush } )
+      class OnPushSiblingComponent {}
+
+      @Component( {
+        selector: 'default-app',
+        template: '<on-push-child></on-push-child><on-push-sibling></on-push-sibling>',
+        directives: [ OnPushChildComponent, OnPushSiblingComponent ]
+      } )
+      class DefaultAppComponent {}
+
+      @Component( { selector: 'default-only-app', template: 'hello' } )
+      class DefaultOnlyAppComponent {}
+
+      const getScopeTriggers = ( ngModule ) => ngModule._runBlocks
+        .filter( ( runBlock ) => lang.isArray( runBlock ) && runBlock[ 1 ] === _setupScopeTriggers );
+
+      expect( getScopeTriggers( bundle( DefaultOnlyAppComponent ) ) ).to.deep.equal( [] );
+      expect( getScopeTriggers( bundle( DefaultAppComponent ) ) ).to.deep.equal( [ [ '$rootScope', _setupScopeTriggers ] ] );
+
+    } );
+
+    describe( `circular dependencies`, () => {
+
+      @Injectable()
+      class AuthService {
+        constructor( @Inject( forwardRef( ()=>UserService ) ) private userService ) {}
+      }
+
+      @Injectable()
+      class UserService {
+        constructor( private authService: AuthService ) {}
+      }
+
+      @Component( {
+        selector: 'cyclic-app',
+        template: 'hello',
+        providers: [ AuthService, UserService ]
+      } )
+      class CyclicAppComponent {}
+
+      @Component( {
+        selector: 'no-cycle-app',
+        template: 'hello',
+        providers: [ UserService ]
+      } )
+      class NoCycleAppComponent {}
+
+      it( `should throw with full chain of class names if services depend on each other`, () => {
+
+        expect( ()=>bundle( CyclicAppComponent ) )
+          .to.throw( /circular dependency detected: AuthService -> UserService -> AuthService/ );
+
+      } );
+
+      it( `should detect cycles across provider literal deps and otherProviders`, () => {
+
+        const otherProviders = [
+          { provide: 'session', deps: [ AuthService ], useFactory: ( auth )=>({}) },
+          { provide: AuthService, deps: [ 'session' ], useFactory: ( session )=>({}) }
+        ];
+
+        expect( ()=>bundle( NoCycleAppComponent, otherProviders ) )
+          .to.throw( new RegExp( `circular dependency detected: ${ getInjectableName( AuthService ) } -> session -> ${ getInjectableName( AuthService ) }` ) );
+
+      } );
+
+      it( `should not check cycles in production mode`, () => {
+
+        sandbox.stub( lang, 'assertionsEnabled' ).returns( false );
+
+        expect( ()=>bundle( CyclicAppComponent ) ).to.not.throw();
+
+      } );
+
+    } );
+
     it( `should allow ngModule.config within otherProviders setup`, () => {
 
       @Injectable()
@@ -235,6 +453,108 @@ describe( `util/bundler`, () => {
 
   } );
 
+  describe( `#bundleGraph`, () => {
+
+    @Injectable()
+    class Logger {}
+
+    @Injectable()
+    class Store {
+      constructor( private logger: Logger, @Inject( '$http' ) private $http ) {}
+    }
+
+    @Injectable()
+    class UnusedService {}
+
+    const loggerName = getInjectableName( Logger );
+    const storeName = getInjectableName( Store );
+
+    @Pipe( { name: 'upper' } )
+    class UpperPipe {
+      transform( input: string ) {}
+    }
+
+    @Component( {
+      selector: 'todo-list',
+      template: 'todos',
+      viewProviders: [ { provide: 'todoConfig', useValue: { limit: 10 } } ],
+      pipes: [ UpperPipe ]
+    } )
+    class TodoListComponent {
+      constructor( @Inject( 'todoConfig' ) private config, @Optional() private logger: Logger ) {}
+    }
+
+    @Component( {
+      selector: 'todo-app',
+      template: 'app',
+      directives: [ TodoListComponent ],
+      providers: [ Store, Logger, 'ngAnimate' ]
+    } )
+    class TodoAppComponent {
+      constructor( private store: Store ) {}
+    }
+
+    it( `should list all registered nodes with owning component and not touch any ngModule`, () => {
+
+      const moduleSpy = sandbox.spy( global.angular, 'module' );
+      const graph = bundleGraph( TodoAppComponent, [ UnusedService, { provide: 'legacyStore', useExisting: Store } ] );
+
+      expect( graph.nodes ).to.deep.equal( [
+        { name: 'todoApp', kind: 'component', source: 'TodoAppComponent', owner: null },
+        { name: storeName, kind: 'service', source: 'Store', owner: 'todoApp' },
+        { name: loggerName, kind: 'service', source: 'Logger', owner: 'todoApp' },
+        { name: 'ngAnimate', kind: 'module', source: null, owner: 'todoApp' },
+        { name: 'todoList', kind: 'component', source: 'TodoListComponent', owner: 'todoApp' },
+        { name: 'todoConfig', kind: 'value', source: null, owner: 'todoList' },
+        { name: 'upper', kind: 'pipe', source: 'UpperPipe', owner: 'todoList' },
+        { name: getInjectableName( UnusedService ), kind: 'service', source: 'UnusedService', owner: null },
+        { name: 'legacyStore', kind: 'alias', source: null, owner: null }
+      ] );
+      expect( moduleSpy.called ).to.equal( false );
+
+    } );
+
+    it( `should list constructor dependencies and directives/pipes nesting as edges`, () => {
+
+      const graph = bundleGraph( TodoAppComponent, [ { provide: 'legacyStore', useExisting: Store } ] );
+
+      expect( graph.edges ).to.deep.equal( [
+        { from: 'todoApp', to: storeName, kind: 'dependency' },
+        { from: storeName, to: loggerName, kind: 'dependency' },
+        { from: storeName, to: '$http', kind: 'dependency' },
+        { from: 'todoList', to: 'todoConfig', kind: 'dependency' },
+        { from: 'todoList', to: loggerName, kind: 'dependency', optional: true },
+        { from: 'todoList', to: 'upper', kind: 'pipe' },
+        { from: 'todoApp', to: 'todoList', kind: 'directive' },
+        { from: 'legacyStore', to: storeName, kind: 'dependency' }
+      ] );
+
+    } );
+
+    it( `should be exportable as JSON and Graphviz DOT`, () => {
+
+      const graph = bundleGraph( TodoListComponent );
+
+      expect( JSON.parse( JSON.stringify( graph ) ) ).to.deep.equal( {
+        nodes: graph.nodes,
+        edges: graph.edges
+      } );
+
+      expect( graph.toDot( 'todos' ) ).to.equal( [
+        'digraph "todos" {',
+        '  "todoList" [label="todoList\\n<component>"];',
+        '  "todoConfig" [label="todoConfig\\n<value>"];',
+        '  "upper" [label="upper\\n<pipe>"];',
+        '  "todoList" -> "todoConfig";',
+        `  "todoList" -> "${ loggerName }" [style=dashed];`,
+        '  "todoList" -> "upper" [label="pipe"];',
+        '}'
+      ].join( '\n' ) );
+
+    } );
+
+  } );
+
   function _execConfigBlocks( ngModule: any ) {
     const configBlocks = ngModule._configBlocks;
     configBlocks.forEach( ( config )=> {
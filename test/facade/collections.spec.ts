@@ -198,6 +198,20 @@ describe( `facade/collections`, ()=> {
 
     } );
 
+    describe( `#flattenDeep`, ()=> {
+
+      it( `should flatten nested arrays containing primitives`, ()=> {
+
+        const arr = [ 'ngAnimate', [ 1, [ 'ui.router', null, undefined ] ], true ];
+        const actual = ListWrapper.flattenDeep( arr );
+        const expected = [ 'ngAnimate', 1, 'ui.router', null, undefined, true ];
+
+        expect( actual ).to.deep.equal( expected );
+
+      } );
+
+    } );
+
   } );
 
 } );
@@ -1,11 +1,15 @@
 import 'reflect-metadata';
 import './core/change_detection/changes_queue.spec';
 import './core/change_detection/change_detection_util.spec';
+import './core/change_detection/change_detector_ref.spec';
+import './core/change_detection/check_no_changes.spec';
 import './core/di/decorators.spec';
 import './core/di/provider.spec';
 import './core/di/reflective_provider.spec';
 import './core/di/key.spec';
 import './core/di/forward_ref.spec';
+import './core/di/element_injector.spec';
+import './core/di/reflective_injector.spec';
 import './core/util/decorators.spec';
 import './core/util/bundler.spec';
 import './core/reflection/reflection.spec';
@@ -13,6 +17,11 @@ import './core/linker/pipe_resolver.spec';
 import './core/pipes/pipe_provider.spec';
 import './core/linker/directive_lifecycles_reflector.spec';
 import './core/linker/directive_resolver.spec';
+import './core/linker/template_ref.spec';
+import './core/linker/view_container_ref.spec';
+import './core/linker/component_factory.spec';
+import './core/linker/query_list.spec';
+import './core/render/dom_renderer.spec';
 import './core/directives/directive_provider.spec';
 import './core/directives/directives_utils.spec';
 import './core/directives/binding/binding_factory.spec';
@@ -20,6 +29,12 @@ import './core/directives/binding/binding_parser.spec';
 import './core/directives/controller/controller_factory.spec';
 import './core/directives/host/host_parser.spec';
 import './core/directives/host/host_resolver.spec';
+import './core/directives/styles/shadow_css.spec';
+import './core/directives/styles/styles_resolver.spec';
+import './core/directives/refs/refs_resolver.spec';
+import './core/directives/content/content_resolver.spec';
+import './core/directives/structural/structural_resolver.spec';
+import './core/directives/template/template_resolver.spec';
 import './core/directives/query/children_resolver.spec';
 import './facade/lang.spec';
 import './facade/primitives.spec';
@@ -149,6 +149,9 @@ export function getNg1InjectorMock(): ng.auto.IInjectorService {
       // func.apply(context,argArray);
 
     },
+    has( token: string ){
+      return [ '$parse', '$interpolate', '$document', '$window' ].indexOf( token ) !== -1;
+    },
     get( token: string ){
       switch ( token ) {
         case '$parse':
@@ -272,6 +275,12 @@ export class $Attrs {
   constructor(private attrs?){}
   $$observers = [];
 
+  $normalize( name: string ): string {
+    return name
+      .replace( /^((?:x|data)[:\-_])/i, '' )
+      .replace( /[:\-_]+(.)/g, ( _, letter ) => letter.toUpperCase() );
+  }
+
   $observe( attrName, observeListener ) {
 
     if ( !isArray( this.$$observers[ attrName ] ) ) {